@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { OrganizationMember, OrganizationRole, OrganizationWithRole } from '../../shared/schema';
+import { ACTIVE_ORG_COOKIE, hasOrganizationRole, resolveActiveOrganization } from '../../server/organizations';
+import { storage } from '../../server/storage';
+
+/**
+ * Serverless counterpart of the requireOrg middleware: the organization the
+ * authenticated user is acting in, taken from the active-organization cookie.
+ */
+export async function getActiveOrganization(req: VercelRequest, userId: string): Promise<OrganizationWithRole> {
+  const requestedId = Number(req.cookies?.[ACTIVE_ORG_COOKIE]) || undefined;
+  return await resolveActiveOrganization(userId, requestedId);
+}
+
+// Same cookie the Express routes set: a year, HTTP-only, secure in production
+export function setActiveOrganizationCookie(res: VercelResponse, orgId: number): void {
+  const attributes = [`${ACTIVE_ORG_COOKIE}=${orgId}`, 'Path=/', `Max-Age=${365 * 24 * 60 * 60}`, 'HttpOnly', 'SameSite=Lax'];
+  if (process.env.NODE_ENV === 'production') attributes.push('Secure');
+  res.setHeader('Set-Cookie', attributes.join('; '));
+}
+
+/**
+ * The user's membership in the organization named by the `id` route
+ * parameter. Responds 404 when they aren't a member, 403 when their role is
+ * below `minRole`, and returns undefined in both cases.
+ */
+export async function getMembershipOrReject(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string,
+  minRole: OrganizationRole
+): Promise<OrganizationMember | undefined> {
+  const membership = await storage.getOrganizationMembership(Number(req.query.id), userId);
+  if (!membership || !hasOrganizationRole(membership.role as OrganizationRole, minRole)) {
+    res.status(membership ? 403 : 404).json({ message: membership ? 'Forbidden' : 'Organization not found' });
+    return undefined;
+  }
+  return membership;
+}
@@ -0,0 +1,34 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization } from '../_lib/organization';
+import { storage } from '../../server/storage';
+import { ALERT_FEED_LIMIT } from '../../shared/schema';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method !== 'GET') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const org = await getActiveOrganization(req, userId);
+    return res.status(200).json(await storage.getAlertEvents(org.id, ALERT_FEED_LIMIT));
+  } catch (error) {
+    console.error('Alert events API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getActiveOrganization } from '../../_lib/organization';
+import { hasOrganizationRole } from '../../../server/organizations';
+import { storage } from '../../../server/storage';
+import { isPublicWebhookUrl } from '../../../server/webhooks';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (req.method !== 'GET' && !hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await storage.getAlertRules(org.id));
+    }
+
+    if (req.method === 'POST') {
+      const input = api.alerts.createRule.input.parse(req.body);
+      if (input.webhookUrl && !(await isPublicWebhookUrl(input.webhookUrl))) {
+        return res.status(400).json({ message: 'Webhook must be a public http(s) address', field: 'webhookUrl' });
+      }
+      return res.status(201).json(await storage.createAlertRule(org.id, userId, input));
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Alert rules API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
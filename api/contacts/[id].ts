@@ -0,0 +1,62 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization } from '../_lib/organization';
+import { hasOrganizationRole } from '../../server/organizations';
+import { storage } from '../../server/storage';
+import { api } from '../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (!hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    // Access follows the lead the contact belongs to
+    const contact = await storage.getContact(Number(req.query.id));
+    if (!contact) {
+      return res.status(404).json({ message: 'Contact not found' });
+    }
+    const lead = await storage.getLead(contact.leadId);
+    if (!lead || lead.orgId !== org.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    if (req.method === 'PUT') {
+      const input = api.contacts.update.input.parse(req.body);
+      return res.status(200).json(await storage.updateContact(contact.id, input));
+    }
+
+    if (req.method === 'DELETE') {
+      await storage.deleteContact(contact.id);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Contact API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getActiveOrganization } from '../../_lib/organization';
+import { hasOrganizationRole, isAssignableMember } from '../../../server/organizations';
+import { storage } from '../../../server/storage';
+import { recordLeadChanges } from '../../../server/lead-events';
+import { notifyLeadAssigned } from '../../../server/notifications';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method !== 'PUT') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const org = await getActiveOrganization(req, userId);
+    if (!hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const existingLead = await storage.getLead(Number(req.query.id));
+    if (!existingLead) {
+      return res.status(404).json({ message: 'Lead not found' });
+    }
+
+    // Verify ownership
+    if (existingLead.orgId !== org.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const { assigneeId } = api.leads.assign.input.parse(req.body);
+
+    if (assigneeId && !(await isAssignableMember(org.id, assigneeId))) {
+      return res.status(400).json({ message: 'Assignee must be a member of this organization', field: 'assigneeId' });
+    }
+
+    const lead = await storage.assignLead(existingLead.id, assigneeId);
+    await recordLeadChanges(existingLead, lead, userId);
+    if (lead.assigneeId !== existingLead.assigneeId) await notifyLeadAssigned(lead, userId);
+    return res.status(200).json(lead);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Assign lead API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getActiveOrganization } from '../../_lib/organization';
+import { hasOrganizationRole } from '../../../server/organizations';
+import { storage } from '../../../server/storage';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (req.method !== 'GET' && !hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const lead = await storage.getLead(Number(req.query.id));
+    if (!lead) {
+      return res.status(404).json({ message: 'Lead not found' });
+    }
+
+    // Verify ownership
+    if (lead.orgId !== org.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await storage.getContacts(lead.id));
+    }
+
+    if (req.method === 'POST') {
+      const input = api.contacts.create.input.parse(req.body);
+      const contact = await storage.createContact(lead.id, input);
+      return res.status(201).json(contact);
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Contacts API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getActiveOrganization } from '../../_lib/organization';
+import { hasOrganizationRole } from '../../../server/organizations';
+import { storage } from '../../../server/storage';
+import { validateLeadStatus } from '../../../server/pipeline-stages';
+import { recordLeadChanges } from '../../../server/lead-events';
+import { rescoreLead } from '../../../server/lead-scoring';
+import { getStudioForOrganization } from '../../../server/studios';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,PUT,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (req.method !== 'GET' && !hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const leadId = parseInt(req.query.id as string, 10);
+
+    if (isNaN(leadId)) {
+      return res.status(400).json({ message: 'Invalid lead ID' });
+    }
+
+    if (req.method === 'GET') {
+      const lead = await storage.getLead(leadId);
+
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Verify ownership
+      if (lead.orgId !== org.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      return res.status(200).json(lead);
+    }
+
+    if (req.method === 'PUT') {
+      const lead = await storage.getLead(leadId);
+
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      if (lead.orgId !== org.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      // Only the lead's own fields; orgId, score and the like are not the client's to set
+      const input = api.leads.update.input.parse(req.body);
+
+      if (input.studioId && !(await getStudioForOrganization(input.studioId, org.id))) {
+        return res.status(400).json({ message: 'Studio not found', field: 'studioId' });
+      }
+
+      if (input.status !== undefined) {
+        const statusError = await validateLeadStatus(org.id, input.status);
+        if (statusError) {
+          return res.status(400).json({ message: statusError, field: 'status' });
+        }
+
+        if (input.status !== lead.status && input.position === undefined) {
+          input.position = await storage.getNextLeadPosition(org.id, input.status);
+        }
+      }
+
+      const updated = await storage.updateLead(leadId, input);
+      await recordLeadChanges(lead, updated, userId);
+      return res.status(200).json(await rescoreLead(updated));
+    }
+
+    if (req.method === 'DELETE') {
+      const lead = await storage.getLead(leadId);
+
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      if (lead.orgId !== org.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      await storage.deleteLead(leadId);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Lead API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getActiveOrganization } from '../../_lib/organization';
+import { hasOrganizationRole } from '../../../server/organizations';
+import { storage } from '../../../server/storage';
+import { buildMergedLead } from '../../../server/leads';
+import { recordLeadChanges, recordLeadMerged } from '../../../server/lead-events';
+import { rescoreLead } from '../../../server/lead-scoring';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const org = await getActiveOrganization(req, userId);
+    if (!hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const targetId = Number(req.query.id);
+    const { sourceId } = api.leads.merge.input.parse(req.body);
+
+    if (sourceId === targetId) {
+      return res.status(400).json({ message: 'Cannot merge a lead into itself', field: 'sourceId' });
+    }
+
+    const [target, source] = await Promise.all([
+      storage.getLead(targetId),
+      storage.getLead(sourceId),
+    ]);
+
+    if (!target || !source) {
+      return res.status(404).json({ message: 'Lead not found' });
+    }
+
+    // Verify ownership of both sides
+    if (target.orgId !== org.id || source.orgId !== org.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const lead = await storage.mergeLeads(targetId, sourceId, buildMergedLead(target, source));
+    await recordLeadMerged(lead, source, userId);
+    await recordLeadChanges(target, lead, userId);
+    return res.status(200).json(await rescoreLead(lead));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Merge leads API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getActiveOrganization } from '../../_lib/organization';
+import { hasOrganizationRole, isAssignableMember } from '../../../server/organizations';
+import { storage } from '../../../server/storage';
+import { notifyTaskAssigned } from '../../../server/notifications';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const org = await getActiveOrganization(req, userId);
+    if (!hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const lead = await storage.getLead(Number(req.query.id));
+    if (!lead) {
+      return res.status(404).json({ message: 'Lead not found' });
+    }
+
+    // Verify ownership
+    if (lead.orgId !== org.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const input = api.tasks.create.input.parse(req.body);
+    // Without an explicit assignee the follow-up goes to whoever works the lead
+    const assigneeId = input.assigneeId === undefined ? lead.assigneeId ?? userId : input.assigneeId;
+
+    if (assigneeId && !(await isAssignableMember(org.id, assigneeId))) {
+      return res.status(400).json({ message: 'Assignee must be a member of this organization', field: 'assigneeId' });
+    }
+
+    const task = await storage.createTask({
+      ...input,
+      assigneeId,
+      orgId: org.id,
+      leadId: lead.id,
+      createdById: userId,
+    });
+    await notifyTaskAssigned(task, lead.name, userId);
+    return res.status(201).json(task);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Create task API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
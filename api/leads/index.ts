@@ -1,6 +1,15 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
 import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization } from '../_lib/organization';
+import { hasOrganizationRole } from '../../server/organizations';
 import { storage } from '../../server/storage';
+import { findDuplicateLead, resolveLeadEngine } from '../../server/leads';
+import { getDefaultLeadStatus, validateLeadStatus } from '../../server/pipeline-stages';
+import { recordLeadCreated } from '../../server/lead-events';
+import { rescoreLead } from '../../server/lead-scoring';
+import { findOrCreateStudio, getStudioForOrganization } from '../../server/studios';
+import { api } from '../../shared/routes';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS headers
@@ -15,22 +24,69 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (req.method !== 'GET' && !hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
 
     if (req.method === 'GET') {
-      const leads = await storage.getLeads(userId);
+      const leads = await storage.getLeads(org.id);
       return res.status(200).json(leads);
     }
 
     if (req.method === 'POST') {
+      // Only the lead's own fields; orgId, assignee and score are set here
+      const input = api.leads.create.input.parse(req.body);
+
+      const duplicate = await findDuplicateLead(org.id, input);
+      if (duplicate) {
+        return res.status(409).json({
+          message: `Already in your pipeline as "${duplicate.name}"`,
+          lead: duplicate,
+        });
+      }
+
+      if (input.studioId && !(await getStudioForOrganization(input.studioId, org.id))) {
+        return res.status(400).json({ message: 'Studio not found', field: 'studioId' });
+      }
+
+      const status = input.status ?? await getDefaultLeadStatus(org.id);
+      const statusError = await validateLeadStatus(org.id, status);
+      if (statusError) {
+        return res.status(400).json({ message: statusError, field: 'status' });
+      }
+
+      // Leads are named after the developer, so that name identifies the studio
+      const studio = input.studioId
+        ? undefined
+        : await findOrCreateStudio(org.id, input.name, {
+            steamAppId: Number(input.steamAppId) || undefined,
+            website: input.website,
+          });
+
       const lead = await storage.createLead({
-        ...req.body,
+        ...input,
+        status,
+        position: input.position ?? await storage.getNextLeadPosition(org.id, status),
+        engine: await resolveLeadEngine(input),
+        studioId: input.studioId ?? studio?.id ?? null,
+        orgId: org.id,
         userId: userId,
+        assigneeId: userId,
       });
-      return res.status(201).json(lead);
+      await recordLeadCreated(lead, userId);
+      return res.status(201).json(await rescoreLead(lead));
     }
 
     return res.status(405).json({ message: 'Method not allowed' });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
     console.error('Leads API error:', error);
     return res.status(500).json({
       message: 'Internal server error',
@@ -0,0 +1,76 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization } from '../_lib/organization';
+import { hasOrganizationRole } from '../../server/organizations';
+import { storage } from '../../server/storage';
+import { validateLeadStatus } from '../../server/pipeline-stages';
+import { recordLeadsChanged } from '../../server/lead-events';
+import { rescoreLeads } from '../../server/lead-scoring';
+import { api } from '../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (req.method !== 'GET' && !hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    if (req.method === 'PUT') {
+      const { columns } = api.leads.reorder.input.parse(req.body);
+
+      const ids = columns.flatMap((column) => column.ids);
+      if (new Set(ids).size !== ids.length) {
+        return res.status(400).json({ message: 'A lead can only appear once in a reorder', field: 'columns' });
+      }
+
+      const before = await storage.getLeads(org.id);
+      const ownIds = new Set(before.map((lead) => lead.id));
+      if (!ids.every((id) => ownIds.has(id))) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      for (const column of columns) {
+        const statusError = await validateLeadStatus(org.id, column.status);
+        if (statusError) {
+          return res.status(400).json({ message: statusError, field: 'columns' });
+        }
+      }
+
+      await storage.reorderLeads(columns);
+      await rescoreLeads(org.id, ids);
+      const after = await storage.getLeads(org.id);
+      await recordLeadsChanged(
+        after.map((lead) => ({ before: before.find((b) => b.id === lead.id)!, after: lead })),
+        userId
+      );
+      return res.status(200).json(after);
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Reorder leads API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../../_lib/auth';
+import { getMembershipOrReject } from '../../../_lib/organization';
+import { storage } from '../../../../server/storage';
+import { api } from '../../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const targetUserId = req.query.userId as string;
+
+    if (req.method === 'PUT') {
+      const membership = await getMembershipOrReject(req, res, userId, 'owner');
+      if (!membership) return;
+
+      const { role } = api.organizations.updateMember.input.parse(req.body);
+      const target = await storage.getOrganizationMembership(membership.orgId, targetUserId);
+      if (!target) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+
+      if (target.role === 'owner' && role !== 'owner' && await storage.countOrganizationOwners(membership.orgId) === 1) {
+        return res.status(409).json({ message: 'An organization needs at least one owner' });
+      }
+
+      await storage.updateOrganizationMemberRole(membership.orgId, target.userId, role);
+      const members = await storage.getOrganizationMembers(membership.orgId);
+      return res.status(200).json(members.find((member) => member.userId === target.userId));
+    }
+
+    if (req.method === 'DELETE') {
+      // Owners remove anyone; everyone else may only leave
+      const isLeaving = targetUserId === userId;
+      const membership = await getMembershipOrReject(req, res, userId, isLeaving ? 'viewer' : 'owner');
+      if (!membership) return;
+
+      const target = await storage.getOrganizationMembership(membership.orgId, targetUserId);
+      if (!target) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+
+      if (target.role === 'owner' && await storage.countOrganizationOwners(membership.orgId) === 1) {
+        return res.status(409).json({ message: 'An organization needs at least one owner' });
+      }
+
+      await storage.removeOrganizationMember(membership.orgId, target.userId);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Organization member API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../../_lib/auth';
+import { getMembershipOrReject } from '../../../_lib/organization';
+import { storage } from '../../../../server/storage';
+import { api } from '../../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method === 'GET') {
+      const membership = await getMembershipOrReject(req, res, userId, 'viewer');
+      if (!membership) return;
+
+      return res.status(200).json(await storage.getOrganizationMembers(membership.orgId));
+    }
+
+    if (req.method === 'POST') {
+      const membership = await getMembershipOrReject(req, res, userId, 'owner');
+      if (!membership) return;
+
+      const { email, role } = api.organizations.addMember.input.parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(404).json({ message: `No account uses ${email} yet; ask them to sign in once first` });
+      }
+
+      if (await storage.getOrganizationMembership(membership.orgId, user.id)) {
+        return res.status(409).json({ message: `${email} is already a member` });
+      }
+
+      await storage.addOrganizationMember(membership.orgId, user.id, role);
+      const members = await storage.getOrganizationMembers(membership.orgId);
+      return res.status(201).json(members.find((member) => member.userId === user.id));
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Organization members API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getMembershipOrReject } from '../../_lib/organization';
+import { storage } from '../../../server/storage';
+import { getScoringConfig, rescoreLeads } from '../../../server/lead-scoring';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,PUT,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method === 'GET') {
+      const membership = await getMembershipOrReject(req, res, userId, 'viewer');
+      if (!membership) return;
+
+      return res.status(200).json(await getScoringConfig(membership.orgId));
+    }
+
+    if (req.method === 'PUT') {
+      const membership = await getMembershipOrReject(req, res, userId, 'owner');
+      if (!membership) return;
+
+      const config = api.organizations.updateScoring.input.parse(req.body);
+      await storage.setOrganizationScoringConfig(membership.orgId, config);
+      await rescoreLeads(membership.orgId);
+      return res.status(200).json(config);
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Scoring config API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
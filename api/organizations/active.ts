@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization, setActiveOrganizationCookie } from '../_lib/organization';
+import { storage } from '../../server/storage';
+import { api } from '../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,PUT,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await getActiveOrganization(req, userId));
+    }
+
+    if (req.method === 'PUT') {
+      const { organizationId } = api.organizations.switch.input.parse(req.body);
+      const organizations = await storage.getOrganizationsForUser(userId);
+      const organization = organizations.find((org) => org.id === organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: 'Organization not found' });
+      }
+
+      setActiveOrganizationCookie(res, organization.id);
+      return res.status(200).json(organization);
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Active organization API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
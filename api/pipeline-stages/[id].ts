@@ -0,0 +1,92 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization } from '../_lib/organization';
+import { hasOrganizationRole } from '../../server/organizations';
+import { storage } from '../../server/storage';
+import { getStagesForOrganization } from '../../server/pipeline-stages';
+import { recordLeadsChanged } from '../../server/lead-events';
+import { rescoreLeads } from '../../server/lead-scoring';
+import { api } from '../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (!hasOrganizationRole(org.role, 'owner')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const existingStage = await storage.getPipelineStage(Number(req.query.id));
+    if (!existingStage) {
+      return res.status(404).json({ message: 'Pipeline stage not found' });
+    }
+
+    // Verify ownership
+    if (existingStage.orgId !== org.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    if (req.method === 'PUT') {
+      const input = api.pipelineStages.update.input.parse(req.body);
+      const stage = await storage.updatePipelineStage(existingStage.id, input);
+      await rescoreLeads(org.id);
+      return res.status(200).json(stage);
+    }
+
+    if (req.method === 'DELETE') {
+      const { moveTo } = api.pipelineStages.delete.input.parse(req.query);
+      const stages = await getStagesForOrganization(org.id);
+
+      if (stages.length === 1) {
+        return res.status(409).json({ message: 'A pipeline needs at least one stage' });
+      }
+
+      const leadCount = await storage.countLeadsInStage(org.id, existingStage.key);
+      if (leadCount > 0) {
+        if (!moveTo) {
+          return res.status(409).json({
+            message: `${leadCount} lead${leadCount > 1 ? 's are' : ' is'} still in "${existingStage.label}"`,
+          });
+        }
+        if (moveTo === existingStage.key || !stages.some((stage) => stage.key === moveTo)) {
+          return res.status(400).json({ message: `Unknown pipeline stage "${moveTo}"`, field: 'moveTo' });
+        }
+        const moved = await storage.moveLeadsToStage(org.id, existingStage.key, moveTo);
+        await recordLeadsChanged(
+          moved.map((lead) => ({ before: { ...lead, status: existingStage.key }, after: lead })),
+          userId
+        );
+      }
+
+      await storage.deletePipelineStage(existingStage.id);
+      await rescoreLeads(org.id);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Pipeline stage API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
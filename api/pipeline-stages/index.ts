@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization } from '../_lib/organization';
+import { hasOrganizationRole } from '../../server/organizations';
+import { storage } from '../../server/storage';
+import { getStagesForOrganization } from '../../server/pipeline-stages';
+import { rescoreLeads } from '../../server/lead-scoring';
+import { api } from '../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    // Stages are organization-wide, so only owners change them
+    if (req.method !== 'GET' && !hasOrganizationRole(org.role, 'owner')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await getStagesForOrganization(org.id));
+    }
+
+    if (req.method === 'POST') {
+      const input = api.pipelineStages.create.input.parse(req.body);
+      const stages = await getStagesForOrganization(org.id);
+
+      if (stages.some((stage) => stage.key === input.key)) {
+        return res.status(409).json({ message: `A stage with key "${input.key}" already exists` });
+      }
+
+      // New stages go to the end of the board unless placed explicitly
+      const position = input.position ?? Math.max(-1, ...stages.map((stage) => stage.position)) + 1;
+      const [stage] = await storage.createPipelineStages(org.id, [{ ...input, position }], userId);
+      await rescoreLeads(org.id);
+      return res.status(201).json(stage);
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Pipeline stages API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
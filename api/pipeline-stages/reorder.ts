@@ -0,0 +1,59 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../_lib/auth';
+import { getActiveOrganization } from '../_lib/organization';
+import { hasOrganizationRole } from '../../server/organizations';
+import { storage } from '../../server/storage';
+import { getStagesForOrganization } from '../../server/pipeline-stages';
+import { rescoreLeads } from '../../server/lead-scoring';
+import { api } from '../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PUT,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method !== 'PUT') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const org = await getActiveOrganization(req, userId);
+    if (!hasOrganizationRole(org.role, 'owner')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const { ids } = api.pipelineStages.reorder.input.parse(req.body);
+    const stages = await getStagesForOrganization(org.id);
+
+    const ownIds = new Set(stages.map((stage) => stage.id));
+    if (ids.length !== stages.length || !ids.every((id) => ownIds.has(id))) {
+      return res.status(400).json({ message: 'Reorder must list each of your stages exactly once', field: 'ids' });
+    }
+
+    await Promise.all(ids.map((id, position) => storage.updatePipelineStage(id, { position })));
+    // Stage scores follow board order
+    await rescoreLeads(org.id);
+    return res.status(200).json(await storage.getPipelineStages(org.id));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Reorder pipeline stages API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
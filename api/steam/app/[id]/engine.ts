@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../../_lib/auth';
+import { detectAppEngine } from '../../../../server/steam/engine-detection';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  // Cache for 5 minutes, like the Express route; in the browser only, as the route needs a session
+  res.setHeader('Cache-Control', 'private, max-age=300');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    await requireAuth(req);
+
+    if (req.method !== 'GET') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const appId = Number(req.query.id);
+    if (!Number.isInteger(appId) || appId <= 0) {
+      return res.status(400).json({ message: 'Invalid app ID', field: 'id' });
+    }
+
+    return res.status(200).json(await detectAppEngine(appId));
+  } catch (error) {
+    console.error('Steam engine detection API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAuth } from '../../_lib/auth';
-import fetch from 'node-fetch';
+import { steam, toSteamAppDetails, recordSteamAppSnapshot } from '../../../server/steam';
+import { indexSteamApp } from '../../../server/steam/app-index';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS headers
@@ -22,47 +23,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const appId = req.query.id as string;
 
-    // Fetch App Details
-    const detailsResponse = await fetch(
-      `https://store.steampowered.com/api/appdetails?appids=${appId}`
-    );
-    const detailsData: any = await detailsResponse.json();
+    const appData = await steam.appDetails(Number(appId));
 
-    if (!detailsData[appId]?.success) {
+    if (!appData) {
       return res.status(404).json({ message: 'App not found on Steam' });
     }
 
-    const appData = detailsData[appId].data;
+    // Player count and reviews are optional and resolve to null when Steam has none
+    const [playerCount, reviews] = await Promise.all([
+      steam.currentPlayers(appData.steam_appid),
+      steam.reviews(appData.steam_appid),
+    ]);
+    await recordSteamAppSnapshot(appData, playerCount, reviews);
+    await indexSteamApp(appData, playerCount, reviews);
 
-    // Fetch Player Count (optional, can fail gracefully)
-    let playerCount = 0;
-    try {
-      const statsResponse = await fetch(
-        `https://api.steampowered.com/ISteamUserStats/GetNumberOfCurrentPlayers/v1/?appid=${appId}`
-      );
-      const statsData: any = await statsResponse.json();
-      playerCount = statsData.response?.player_count || 0;
-    } catch (e) {
-      console.warn('Failed to fetch player stats', e);
-    }
-
-    const result = {
-      steam_appid: appData.steam_appid,
-      name: appData.name,
-      short_description: appData.short_description,
-      header_image: appData.header_image,
-      website: appData.website,
-      developers: appData.developers || [],
-      publishers: appData.publishers || [],
-      price_overview: appData.price_overview,
-      genres: appData.genres,
-      release_date: appData.release_date,
-      metrics: {
-        player_count: playerCount,
-        review_score: appData.metacritic?.score,
-        total_reviews: appData.recommendations?.total
-      }
-    };
+    const result = toSteamAppDetails(appData, playerCount, reviews);
 
     return res.status(200).json(result);
   } catch (error) {
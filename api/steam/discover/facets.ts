@@ -0,0 +1,31 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../_lib/auth';
+import { storage } from '../../../server/storage';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    await requireAuth(req);
+
+    if (req.method !== 'GET') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    return res.status(200).json(await storage.getSteamAppIndexFacets());
+  } catch (error) {
+    console.error('Steam discover facets error:', error);
+    return res.status(500).json({
+      message: 'Failed to fetch filter options',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
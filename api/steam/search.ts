@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
 import { requireAuth } from '../_lib/auth';
-import fetch from 'node-fetch';
+import { searchSteamApps } from '../../server/steam/catalog';
+import { api } from '../../shared/routes';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS headers
@@ -20,31 +22,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(405).json({ message: 'Method not allowed' });
     }
 
-    const term = req.query.term as string;
-
-    if (!term) {
-      return res.status(400).json({ message: 'Search term required' });
-    }
-
-    // Unofficial Store Search API
-    const response = await fetch(
-      `https://store.steampowered.com/api/storesearch/?term=${encodeURIComponent(term)}&l=english&cc=US`
-    );
-
-    const data: any = await response.json();
-
-    const results = data.items?.map((item: any) => ({
-      appid: item.id,
-      name: item.name,
-      logo: item.tiny_image,
-      icon: item.tiny_image
-    })) || [];
-
-    return res.status(200).json(results);
+    const search = api.steam.search.input.parse(req.query);
+    return res.status(200).json(await searchSteamApps(search));
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
     console.error('Steam search error:', error);
     return res.status(500).json({
-      message: 'Failed to fetch from Steam',
+      message: 'Failed to search Steam apps',
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
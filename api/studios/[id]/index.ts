@@ -0,0 +1,76 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { requireAuth } from '../../_lib/auth';
+import { getActiveOrganization } from '../../_lib/organization';
+import { hasOrganizationRole } from '../../../server/organizations';
+import { storage } from '../../../server/storage';
+import { getStudioForOrganization, normalizeStudioName } from '../../../server/studios';
+import { api } from '../../../shared/routes';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,PUT,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+    const org = await getActiveOrganization(req, userId);
+
+    if (req.method !== 'GET' && !hasOrganizationRole(org.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const studio = await getStudioForOrganization(Number(req.query.id), org.id);
+    if (!studio) {
+      return res.status(404).json({ message: 'Studio not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json(studio);
+    }
+
+    // Shared studios from before organizations had their own are read-only
+    if (studio.orgId !== org.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    if (req.method === 'PUT') {
+      const input = api.studios.update.input.parse(req.body);
+      const normalizedName = input.name ? normalizeStudioName(input.name) : undefined;
+
+      if (normalizedName && normalizedName !== studio.normalizedName) {
+        const clash = await storage.getStudioByNormalizedName(org.id, normalizedName);
+        if (clash) {
+          return res.status(409).json({ message: `Studio "${clash.name}" already exists` });
+        }
+      }
+
+      return res.status(200).json(await storage.updateStudio(studio.id, { ...input, normalizedName }));
+    }
+
+    if (req.method === 'DELETE') {
+      await storage.deleteStudio(studio.id);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors[0].message,
+        field: error.errors[0].path.join('.'),
+      });
+    }
+    console.error('Studio API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../_lib/auth';
+import { storage } from '../../../server/storage';
+import { getOwnWatchlist } from '../../../server/watchlists';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const userId = await requireAuth(req);
+
+    if (req.method !== 'DELETE') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const watchlist = await getOwnWatchlist(Number(req.query.id), userId);
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    await storage.deleteWatchlist(watchlist.id);
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Delete watchlist API error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -9,6 +9,7 @@
  * - Offline fallback page
  * - Background sync for failed requests
  * - Push notifications support (future)
+ * - Follow-up task reminders posted from the app
  */
 
 const CACHE_NAME = 'steam-scout-v1';
@@ -313,8 +314,25 @@ self.addEventListener('message', (event) => {
   if (event.data.type === 'GET_VERSION') {
     event.ports[0].postMessage({ version: CACHE_NAME });
   }
+
+  if (event.data.type === 'SHOW_NOTIFICATION') {
+    event.waitUntil(showReminder(event.data.notification));
+  }
 });
 
+/**
+ * Show a reminder the app asked for, e.g. a follow-up task coming due.
+ * The tag keeps one notification per task even if the app asks twice.
+ */
+function showReminder({ title, body, tag, url }) {
+  return self.registration.showNotification(title, {
+    body,
+    tag,
+    icon: '/favicon.png',
+    data: { url, dateOfArrival: Date.now() },
+  });
+}
+
 /**
  * Push Event
  * Handles push notifications (for future implementation)
@@ -356,11 +374,22 @@ self.addEventListener('notificationclick', (event) => {
 
   event.notification.close();
 
-  if (event.action === 'view') {
-    event.waitUntil(
-      clients.openWindow('/')
-    );
+  if (event.action === 'close') {
+    return;
   }
+
+  // Reminders carry the page they're about; focus an open tab before opening a new one
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      const client = windowClients.find((c) => 'focus' in c);
+      if (client) {
+        return client.navigate(url).then((navigated) => (navigated || client).focus());
+      }
+      return clients.openWindow(url);
+    })
+  );
 });
 
 console.log('[Service Worker] Loaded successfully');
@@ -4,17 +4,24 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useClerkAuth } from "@/hooks/use-clerk-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { Loader2 } from "lucide-react";
 import { SidebarProvider } from "@/components/layout/Sidebar";
 import { ClerkProvider } from '@clerk/clerk-react';
 import { GDPRConsent } from '@/components/GDPRConsent';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { TaskReminders } from '@/components/tasks/TaskReminders';
 import '@/lib/i18n';
 
 import AuthPage from "@/pages/AuthPage";
 import Dashboard from "@/pages/Dashboard";
 import Discover from "@/pages/Discover";
 import MyLeads from "@/pages/MyLeads";
+import LeadDetail from "@/pages/LeadDetail";
+import Studio from "@/pages/Studio";
+import Team from "@/pages/Team";
+import Watchlist from "@/pages/Watchlist";
+import Alerts from "@/pages/Alerts";
 import NotFound from "@/pages/not-found";
 
 const clerkPubKey = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY || '';
@@ -34,11 +41,18 @@ function ProtectedRoute({ component: Component, ...rest }: any) {
     return <Redirect to="/auth" />;
   }
 
-  return <Component {...rest} />;
+  return (
+    <>
+      <TaskReminders />
+      <Component {...rest} />
+    </>
+  );
 }
 
 function Router() {
   const { isAuthenticated, isLoading } = useClerkAuth();
+  // Here rather than in ProtectedRoute so navigating doesn't reopen the stream
+  useLiveUpdates(!!isAuthenticated);
 
   if (isLoading) {
     return (
@@ -61,9 +75,24 @@ function Router() {
       <Route path="/discover">
         {() => <ProtectedRoute component={Discover} />}
       </Route>
+      <Route path="/leads/:id">
+        {() => <ProtectedRoute component={LeadDetail} />}
+      </Route>
       <Route path="/leads">
         {() => <ProtectedRoute component={MyLeads} />}
       </Route>
+      <Route path="/team">
+        {() => <ProtectedRoute component={Team} />}
+      </Route>
+      <Route path="/watchlist">
+        {() => <ProtectedRoute component={Watchlist} />}
+      </Route>
+      <Route path="/alerts">
+        {() => <ProtectedRoute component={Alerts} />}
+      </Route>
+      <Route path="/studios/:id">
+        {() => <ProtectedRoute component={Studio} />}
+      </Route>
       <Route path="/">
         {() => <ProtectedRoute component={Dashboard} />}
       </Route>
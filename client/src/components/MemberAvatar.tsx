@@ -0,0 +1,24 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { type OrganizationMemberProfile } from "@shared/schema";
+
+export function getMemberName(member: Pick<OrganizationMemberProfile, "firstName" | "lastName" | "email">): string {
+  return [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email || "Unknown user";
+}
+
+export function MemberAvatar({ member, className }: { member: OrganizationMemberProfile; className?: string }) {
+  const name = getMemberName(member);
+  const initials = name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("");
+
+  return (
+    <Avatar className={cn("h-8 w-8", className)} title={name}>
+      {member.profileImageUrl && <AvatarImage src={member.profileImageUrl} alt={name} />}
+      <AvatarFallback className="text-[10px]">{initials}</AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,20 @@
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { LucideIcon } from "lucide-react";
+
+export function StatCard({ icon: Icon, label, value, valueClassName }: {
+  icon: LucideIcon;
+  label: string;
+  value: string;
+  valueClassName?: string;
+}) {
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wide mb-1">
+        <Icon className="w-3 h-3" />
+        {label}
+      </div>
+      <div className={cn("text-2xl font-mono font-bold", valueClassName)}>{value}</div>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useSteamDiscoverFacets, type SteamDiscoverQuery } from "@/hooks/use-steam";
+import { LEAD_ENGINES } from "@shared/schema";
+import { subMonths } from "date-fns";
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+// Release windows offered, in months back from today
+const RELEASE_WINDOWS = [6, 12, 18, 24, 60];
+
+interface DiscoverFiltersProps {
+  value: SteamDiscoverQuery;
+  onChange: (value: SteamDiscoverQuery) => void;
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-muted-foreground">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Facets for searching the local index of Steam apps. Genre and tag options
+ * come from the apps indexed so far.
+ */
+export function DiscoverFilters({ value, onChange }: DiscoverFiltersProps) {
+  const { data: facets } = useSteamDiscoverFacets();
+  const set = (key: keyof SteamDiscoverQuery, next: string) => onChange({ ...value, [key]: next || undefined });
+
+  // The window is stored as a date, so map it back to the option it came from
+  const releaseWindow = RELEASE_WINDOWS.find(
+    (months) => value.releasedAfter === subMonths(new Date(), months).toISOString().slice(0, 10)
+  );
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-3 p-4 rounded-2xl border border-white/10 bg-card/30">
+      <Field label="Genre">
+        <select className={selectClassName} value={value.genre ?? ""} onChange={(e) => set("genre", e.target.value)} data-testid="select-discover-genre">
+          <option value="">Any genre</option>
+          {facets?.genres.map((genre) => <option key={genre} value={genre}>{genre}</option>)}
+        </select>
+      </Field>
+      <Field label="Tag">
+        <select className={selectClassName} value={value.tag ?? ""} onChange={(e) => set("tag", e.target.value)} data-testid="select-discover-tag">
+          <option value="">Any tag</option>
+          {facets?.tags.map((tag) => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+      </Field>
+      <Field label="Engine">
+        <select className={selectClassName} value={value.engine ?? ""} onChange={(e) => set("engine", e.target.value)} data-testid="select-discover-engine">
+          <option value="">Any engine</option>
+          {LEAD_ENGINES.map((engine) => <option key={engine} value={engine}>{engine}</option>)}
+        </select>
+      </Field>
+      <Field label="Released">
+        <select
+          className={selectClassName}
+          value={releaseWindow ?? ""}
+          onChange={(e) => set("releasedAfter", e.target.value ? subMonths(new Date(), Number(e.target.value)).toISOString().slice(0, 10) : "")}
+          data-testid="select-discover-released"
+        >
+          <option value="">Any time</option>
+          {RELEASE_WINDOWS.map((months) => (
+            <option key={months} value={months}>Last {months < 24 ? `${months} months` : `${months / 12} years`}</option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Price ($)">
+        <div className="flex gap-1">
+          <Input type="number" min={0} className="h-9" placeholder="Min" value={value.minPrice ?? ""} onChange={(e) => set("minPrice", e.target.value)} />
+          <Input type="number" min={0} className="h-9" placeholder="Max" value={value.maxPrice ?? ""} onChange={(e) => set("maxPrice", e.target.value)} />
+        </div>
+      </Field>
+      <Field label="Website">
+        <select className={selectClassName} value={value.hasWebsite ?? ""} onChange={(e) => set("hasWebsite", e.target.value)}>
+          <option value="">Either</option>
+          <option value="true">Has a website</option>
+          <option value="false">No website</option>
+        </select>
+      </Field>
+      <Field label="Min reviews">
+        <Input type="number" min={0} className="h-9" value={value.minReviews ?? ""} onChange={(e) => set("minReviews", e.target.value)} data-testid="input-discover-min-reviews" />
+      </Field>
+      <Field label="Min players online">
+        <Input type="number" min={0} className="h-9" value={value.minPlayers ?? ""} onChange={(e) => set("minPlayers", e.target.value)} />
+      </Field>
+      <Field label="Sort by">
+        <select className={selectClassName} value={value.sort ?? "reviews"} onChange={(e) => set("sort", e.target.value)}>
+          <option value="reviews">Most reviews</option>
+          <option value="players">Most players</option>
+          <option value="newest">Newest</option>
+        </select>
+      </Field>
+      <div className="flex items-end">
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange({})}>
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  );
+}
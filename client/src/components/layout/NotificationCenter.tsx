@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Bell, BellRing, CheckCheck, Clock, FileUp, Loader2, UserPlus } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { useMarkAllNotificationsRead, useMarkNotificationRead, useNotifications } from "@/hooks/use-notifications";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { type Notification, type NotificationType } from "@shared/schema";
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  assignment: UserPlus,
+  alert: BellRing,
+  task_due: Clock,
+  import: FileUp,
+};
+
+function NotificationRow({ notification, onOpen }: { notification: Notification; onOpen: (notification: Notification) => void }) {
+  const Icon = TYPE_ICONS[notification.type as NotificationType] ?? Bell;
+  const unread = !notification.readAt;
+
+  return (
+    <button
+      onClick={() => onOpen(notification)}
+      className={cn(
+        "w-full flex items-start gap-3 p-3 rounded-lg text-left hover:bg-secondary/50 transition-colors",
+        unread && "bg-secondary/30"
+      )}
+      data-testid={`notification-${notification.id}`}
+    >
+      <Icon className={cn("w-4 h-4 mt-0.5 flex-shrink-0", unread ? "text-primary" : "text-muted-foreground")} />
+      <div className="flex-1 min-w-0">
+        <p className={cn("text-sm truncate", unread && "font-medium")}>{notification.title}</p>
+        {notification.body && <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>}
+        <p className="text-[10px] text-muted-foreground mt-1">
+          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+      {unread && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary flex-shrink-0" />}
+    </button>
+  );
+}
+
+/**
+ * Sidebar entry with the unread count, opening a drawer of the user's
+ * notifications in the active organization.
+ */
+export function NotificationCenter({ isCollapsed }: { isCollapsed: boolean }) {
+  const [, setLocation] = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const { data, isLoading } = useNotifications();
+  const { mutate: markRead } = useMarkNotificationRead();
+  const { mutate: markAllRead, isPending: isMarkingAll } = useMarkAllNotificationsRead();
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) markRead({ id: notification.id, read: true });
+    if (notification.link) {
+      setIsOpen(false);
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        data-testid="button-notifications"
+        title={isCollapsed ? "Notifications" : undefined}
+        className={cn(
+          "relative w-full flex items-center gap-3 py-3 rounded-xl text-muted-foreground hover:text-foreground hover:bg-secondary/50 transition-all duration-200",
+          isCollapsed ? "justify-center px-2" : "px-4"
+        )}
+      >
+        <Bell className="w-5 h-5 flex-shrink-0" />
+        {!isCollapsed && <span className="flex-1 text-left font-medium">Notifications</span>}
+        {unreadCount > 0 && (
+          <span
+            className={cn(
+              "min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center",
+              isCollapsed && "absolute top-1 right-1"
+            )}
+            data-testid="badge-unread-notifications"
+          >
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Notifications</SheetTitle>
+            <SheetDescription>Assignments, alerts, due tasks and imports.</SheetDescription>
+          </SheetHeader>
+
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="self-end text-xs"
+              onClick={() => markAllRead()}
+              disabled={isMarkingAll}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Mark all as read
+            </Button>
+          )}
+
+          <div className="flex-1 overflow-y-auto -mx-2 space-y-1">
+            {isLoading ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : data?.notifications.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+                <Bell className="w-10 h-10 mb-3 opacity-20" />
+                <p className="text-sm">You're all caught up.</p>
+              </div>
+            ) : (
+              data?.notifications.map((notification) => (
+                <NotificationRow key={notification.id} notification={notification} onOpen={handleOpen} />
+              ))
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
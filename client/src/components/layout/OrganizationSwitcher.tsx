@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, Plus, Building2, Loader2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useActiveOrganization, useCreateOrganization, useOrganizations, useSwitchOrganization } from "@/hooks/use-organizations";
+import { cn } from "@/lib/utils";
+
+export function OrganizationSwitcher({ isCollapsed }: { isCollapsed: boolean }) {
+  const { data: organizations } = useOrganizations();
+  const { data: active } = useActiveOrganization();
+  const { mutate: switchOrganization } = useSwitchOrganization();
+  const [isCreating, setIsCreating] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            data-testid="button-organization-switcher"
+            title={isCollapsed ? active?.name : undefined}
+            className={cn(
+              "w-full flex items-center gap-2 py-2 rounded-lg text-sm border border-border/50 hover:bg-secondary/50 transition-colors",
+              isCollapsed ? "justify-center px-2" : "px-3"
+            )}
+          >
+            <Building2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            {!isCollapsed && (
+              <>
+                <span className="flex-1 text-left truncate font-medium">{active?.name ?? "Loading..."}</span>
+                <ChevronsUpDown className="w-3 h-3 text-muted-foreground" />
+              </>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Organizations</DropdownMenuLabel>
+          {organizations?.map((org) => (
+            <DropdownMenuItem
+              key={org.id}
+              onClick={() => org.id !== active?.id && switchOrganization(org.id)}
+              data-testid={`menu-organization-${org.id}`}
+            >
+              <span className="flex-1 truncate">{org.name}</span>
+              <span className="text-[10px] text-muted-foreground uppercase ml-2">{org.role}</span>
+              {org.id === active?.id && <Check className="w-4 h-4 ml-2" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setIsCreating(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New organization
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateOrganizationDialog open={isCreating} onOpenChange={setIsCreating} />
+    </>
+  );
+}
+
+function CreateOrganizationDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { mutate: createOrganization, isPending } = useCreateOrganization();
+  const [name, setName] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createOrganization(name, {
+      onSuccess: () => {
+        setName("");
+        onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">New Organization</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Name</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Acme Publishing" autoFocus />
+            <p className="text-xs text-muted-foreground">
+              You'll be its owner and can add teammates from the Team page.
+            </p>
+          </div>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
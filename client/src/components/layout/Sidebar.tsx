@@ -8,14 +8,22 @@ import {
   UserCircle,
   ChevronLeft,
   ChevronRight,
-  TrendingUp
+  TrendingUp,
+  Users,
+  Eye,
+  BellRing
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { OrganizationSwitcher } from "@/components/layout/OrganizationSwitcher";
+import { NotificationCenter } from "@/components/layout/NotificationCenter";
 
 const NAV_ITEMS = [
   { label: "Dashboard", href: "/", icon: TrendingUp },
   { label: "Discover", href: "/discover", icon: Search },
   { label: "My Leads", href: "/leads", icon: LayoutDashboard },
+  { label: "Watchlist", href: "/watchlist", icon: Eye },
+  { label: "Alerts", href: "/alerts", icon: BellRing },
+  { label: "Team", href: "/team", icon: Users },
 ];
 
 interface SidebarContextType {
@@ -85,10 +93,15 @@ export function Sidebar() {
         </button>
       </div>
 
+      <div className={cn("mt-2", isCollapsed ? "px-2" : "px-4")}>
+        <OrganizationSwitcher isCollapsed={isCollapsed} />
+      </div>
+
       <nav className={cn("flex-1 space-y-2 mt-4", isCollapsed ? "px-2" : "px-4")}>
         {NAV_ITEMS.map((item) => {
           const Icon = item.icon;
-          const isActive = location === item.href;
+          // Detail pages such as /leads/42 keep their section highlighted
+          const isActive = location === item.href || (item.href !== "/" && location.startsWith(`${item.href}/`));
           
           return (
             <Link key={item.href} href={item.href}>
@@ -108,6 +121,7 @@ export function Sidebar() {
             </Link>
           );
         })}
+        <NotificationCenter isCollapsed={isCollapsed} />
       </nav>
 
       <div className={cn("p-4 border-t border-border/50 bg-secondary/20", isCollapsed && "px-2")}>
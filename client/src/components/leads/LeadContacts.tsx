@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useContacts, useCreateContact, useUpdateContact, useDeleteContact } from "@/hooks/use-contacts";
+import { useCanEditPipeline } from "@/hooks/use-organizations";
+import { type Contact, type InsertContact } from "@shared/schema";
+import { Linkedin, Loader2, Mail, MessageCircle, Pencil, Trash2, Twitter, UserPlus } from "lucide-react";
+
+const EMPTY_FORM = { name: "", role: "", email: "", twitter: "", discord: "", linkedin: "", notes: "" };
+
+type ContactForm = typeof EMPTY_FORM;
+
+function toForm(contact: Contact): ContactForm {
+  return {
+    name: contact.name,
+    role: contact.role || "",
+    email: contact.email || "",
+    twitter: contact.twitter || "",
+    discord: contact.discord || "",
+    linkedin: contact.linkedin || "",
+    notes: contact.notes || "",
+  };
+}
+
+// Blank optional fields are stored as null rather than ""
+function toContact(form: ContactForm): InsertContact {
+  const value = (field: string) => field.trim() || null;
+  return {
+    name: form.name.trim(),
+    role: value(form.role),
+    email: value(form.email),
+    twitter: value(form.twitter),
+    discord: value(form.discord),
+    linkedin: value(form.linkedin),
+    notes: value(form.notes),
+  };
+}
+
+function twitterUrl(handle: string): string {
+  return /^https?:\/\//.test(handle) ? handle : `https://x.com/${handle.replace(/^@/, "")}`;
+}
+
+function linkedinUrl(profile: string): string {
+  return /^https?:\/\//.test(profile) ? profile : `https://www.linkedin.com/in/${profile}`;
+}
+
+interface ContactFormFieldsProps {
+  form: ContactForm;
+  onChange: (form: ContactForm) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  isPending: boolean;
+  submitLabel: string;
+}
+
+function ContactFormFields({ form, onChange, onSubmit, onCancel, isPending, submitLabel }: ContactFormFieldsProps) {
+  const set = (field: keyof ContactForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    onChange({ ...form, [field]: e.target.value });
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit();
+      }}
+      className="space-y-2 rounded-lg border border-white/10 p-3"
+    >
+      <div className="grid grid-cols-2 gap-2">
+        <Input value={form.name} onChange={set("name")} placeholder="Name" data-testid="input-contact-name" />
+        <Input value={form.role} onChange={set("role")} placeholder="Role, e.g. Producer" />
+        <Input type="email" value={form.email} onChange={set("email")} placeholder="Email" />
+        <Input value={form.twitter} onChange={set("twitter")} placeholder="Twitter/X @handle" />
+        <Input value={form.discord} onChange={set("discord")} placeholder="Discord username" />
+        <Input value={form.linkedin} onChange={set("linkedin")} placeholder="LinkedIn URL" />
+      </div>
+      <textarea
+        className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        value={form.notes}
+        onChange={set("notes")}
+        placeholder="Notes about this person..."
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" size="sm" disabled={isPending || !form.name.trim()} data-testid="button-save-contact">
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface LeadContactsProps {
+  leadId: number;
+}
+
+export function LeadContacts({ leadId }: LeadContactsProps) {
+  const { data: contacts, isLoading } = useContacts(leadId);
+  const { mutate: createContact, isPending: isCreating } = useCreateContact();
+  const { mutate: updateContact, isPending: isUpdating } = useUpdateContact();
+  const { mutate: deleteContact } = useDeleteContact();
+  const canEdit = useCanEditPipeline();
+  // null: no form open, "new": adding, otherwise the id of the contact being edited
+  const [editing, setEditing] = useState<number | "new" | null>(null);
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const startAdding = () => {
+    setForm(EMPTY_FORM);
+    setEditing("new");
+  };
+
+  const startEditing = (contact: Contact) => {
+    setForm(toForm(contact));
+    setEditing(contact.id);
+  };
+
+  const handleSubmit = () => {
+    const onSuccess = () => setEditing(null);
+    if (editing === "new") {
+      createContact({ leadId, ...toContact(form) }, { onSuccess });
+    } else if (editing !== null) {
+      updateContact({ id: editing, ...toContact(form) }, { onSuccess });
+    }
+  };
+
+  const formFields = (submitLabel: string) => (
+    <ContactFormFields
+      form={form}
+      onChange={setForm}
+      onSubmit={handleSubmit}
+      onCancel={() => setEditing(null)}
+      isPending={isCreating || isUpdating}
+      submitLabel={submitLabel}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      {!contacts?.length && editing !== "new" && (
+        <p className="text-sm text-muted-foreground">No contacts yet. Add the people you talk to at this studio.</p>
+      )}
+
+      {contacts?.map((contact) =>
+        editing === contact.id ? (
+          <div key={contact.id}>{formFields("Save")}</div>
+        ) : (
+          <div key={contact.id} className="group rounded-lg bg-white/5 p-3" data-testid={`contact-${contact.id}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{contact.name}</p>
+                {contact.role && <p className="text-xs text-muted-foreground truncate">{contact.role}</p>}
+              </div>
+              {canEdit && (
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Edit contact" onClick={() => startEditing(contact)}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    title="Remove contact"
+                    onClick={() => deleteContact(contact.id)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-muted-foreground">
+              {contact.email && (
+                <a href={`mailto:${contact.email}`} className="inline-flex items-center gap-1 hover:text-primary">
+                  <Mail className="w-3 h-3" />
+                  {contact.email}
+                </a>
+              )}
+              {contact.twitter && (
+                <a href={twitterUrl(contact.twitter)} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 hover:text-primary">
+                  <Twitter className="w-3 h-3" />
+                  {contact.twitter}
+                </a>
+              )}
+              {contact.discord && (
+                <span className="inline-flex items-center gap-1">
+                  <MessageCircle className="w-3 h-3" />
+                  {contact.discord}
+                </span>
+              )}
+              {contact.linkedin && (
+                <a href={linkedinUrl(contact.linkedin)} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 hover:text-primary">
+                  <Linkedin className="w-3 h-3" />
+                  LinkedIn
+                </a>
+              )}
+            </div>
+            {contact.notes && <p className="text-xs text-muted-foreground mt-2 whitespace-pre-line">{contact.notes}</p>}
+          </div>
+        )
+      )}
+
+      {editing === "new" ? (
+        formFields("Add Contact")
+      ) : (
+        canEdit && (
+          <Button size="sm" variant="outline" className="w-full" onClick={startAdding} data-testid="button-add-contact">
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add Contact
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,15 @@ import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LeadContacts } from "@/components/leads/LeadContacts";
+import { LeadTasks } from "@/components/leads/LeadTasks";
+import { LeadTimeline } from "@/components/leads/LeadTimeline";
 import { useUpdateLead } from "@/hooks/use-leads";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useSteamAppEngine } from "@/hooks/use-steam";
 import { type Lead } from "@shared/schema";
-import { Loader2 } from "lucide-react";
+import { Loader2, Wand2 } from "lucide-react";
 
 interface LeadEditDialogProps {
   lead: Lead;
@@ -14,6 +20,9 @@ interface LeadEditDialogProps {
 
 export function LeadEditDialog({ lead, open, onOpenChange }: LeadEditDialogProps) {
   const { mutate: updateLead, isPending } = useUpdateLead();
+  const { data: stages } = usePipelineStages();
+  const { refetch: detectEngine, isFetching: isDetecting } = useSteamAppEngine(Number(lead.steamAppId) || undefined);
+  const [detectionNote, setDetectionNote] = useState("");
   const [formData, setFormData] = useState({
     name: lead.name,
     website: lead.website || "",
@@ -30,8 +39,23 @@ export function LeadEditDialog({ lead, open, onOpenChange }: LeadEditDialogProps
       notes: lead.notes || "",
       status: lead.status
     });
+    setDetectionNote("");
   }, [lead]);
 
+  const handleDetectEngine = async () => {
+    const { data: detection } = await detectEngine();
+    if (!detection) {
+      setDetectionNote("Couldn't reach Steam, try again later.");
+      return;
+    }
+    if (detection.engine === "Unknown") {
+      setDetectionNote("Nothing on Steam points to an engine.");
+      return;
+    }
+    setFormData(prev => ({ ...prev, engine: detection.engine }));
+    setDetectionNote(`${Math.round(detection.confidence * 100)}% confident, from ${detection.evidence.join(", ")}`);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     updateLead(
@@ -46,66 +70,93 @@ export function LeadEditDialog({ lead, open, onOpenChange }: LeadEditDialogProps
         <DialogHeader>
           <DialogTitle className="text-xl font-display">Edit Lead Details</DialogTitle>
         </DialogHeader>
-        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Studio Name</label>
-            <Input 
-              value={formData.name} 
-              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-            />
-          </div>
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Website</label>
-            <Input 
-              value={formData.website} 
-              onChange={(e) => setFormData(prev => ({ ...prev, website: e.target.value }))}
-              placeholder="https://..."
-            />
-          </div>
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Game Engine</label>
-            <select 
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-              value={formData.engine}
-              onChange={(e) => setFormData(prev => ({ ...prev, engine: e.target.value }))}
-            >
-              <option value="Unknown">Unknown</option>
-              <option value="Unity">Unity</option>
-              <option value="Unreal">Unreal Engine</option>
-              <option value="Godot">Godot</option>
-              <option value="Custom">Custom / Other</option>
-            </select>
-          </div>
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Status</label>
-            <select 
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-              value={formData.status}
-              onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value }))}
-            >
-              <option value="new">New Lead</option>
-              <option value="contacted">Contacted</option>
-              <option value="interested">Interested</option>
-              <option value="closed">Closed / Won</option>
-            </select>
-          </div>
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Notes</label>
-            <textarea 
-              className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              value={formData.notes}
-              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
-              placeholder="Add internal notes..."
-            />
-          </div>
-          <div className="flex justify-end gap-3 pt-4">
-            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
-            <Button type="submit" disabled={isPending}>
-              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Save Changes
-            </Button>
-          </div>
-        </form>
+        <Tabs defaultValue="details" className="mt-2">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="tasks" data-testid="tab-lead-tasks">Tasks</TabsTrigger>
+            <TabsTrigger value="contacts" data-testid="tab-lead-contacts">Contacts</TabsTrigger>
+            <TabsTrigger value="activity" data-testid="tab-lead-activity">Activity</TabsTrigger>
+          </TabsList>
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Studio Name</label>
+                <Input 
+                  value={formData.name} 
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Website</label>
+                <Input 
+                  value={formData.website} 
+                  onChange={(e) => setFormData(prev => ({ ...prev, website: e.target.value }))}
+                  placeholder="https://..."
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Game Engine</label>
+                  {lead.steamAppId && (
+                    <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={handleDetectEngine} disabled={isDetecting} data-testid="button-detect-engine">
+                      {isDetecting ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Wand2 className="mr-1 h-3 w-3" />}
+                      Detect
+                    </Button>
+                  )}
+                </div>
+                <select 
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={formData.engine}
+                  onChange={(e) => setFormData(prev => ({ ...prev, engine: e.target.value }))}
+                >
+                  <option value="Unknown">Unknown</option>
+                  <option value="Unity">Unity</option>
+                  <option value="Unreal">Unreal Engine</option>
+                  <option value="Godot">Godot</option>
+                  <option value="Custom">Custom / Other</option>
+                </select>
+                {detectionNote && <p className="text-xs text-muted-foreground">{detectionNote}</p>}
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Status</label>
+                <select 
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={formData.status}
+                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value }))}
+                >
+                  {stages?.map((stage) => (
+                    <option key={stage.key} value={stage.key}>{stage.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Notes</label>
+                <textarea 
+                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  placeholder="Add internal notes..."
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-4">
+                <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button type="submit" disabled={isPending}>
+                  {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Changes
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+          <TabsContent value="tasks" className="max-h-[60vh] overflow-y-auto pr-1 pt-2">
+            <LeadTasks leadId={lead.id} />
+          </TabsContent>
+          <TabsContent value="contacts" className="max-h-[60vh] overflow-y-auto pr-1 pt-2">
+            <LeadContacts leadId={lead.id} />
+          </TabsContent>
+          <TabsContent value="activity" className="max-h-[60vh] overflow-y-auto pr-1 pt-2">
+            <LeadTimeline lead={lead} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useExportLeads, type LeadExportOptions } from "@/hooks/use-leads";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { endOfDay, startOfDay } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import { LEAD_ENGINES, type LeadEngine } from "@shared/schema";
+
+const FORMATS: { value: LeadExportOptions["format"]; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "json", label: "JSON" },
+];
+
+const ENGINE_LABELS: Record<LeadEngine, string> = {
+  Unknown: "Unknown",
+  Unity: "Unity",
+  Unreal: "Unreal Engine",
+  Godot: "Godot",
+  Custom: "Custom / Other",
+};
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+interface LeadExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LeadExportDialog({ open, onOpenChange }: LeadExportDialogProps) {
+  const { mutate: exportLeads, isPending } = useExportLeads();
+  const { data: stages } = usePipelineStages();
+  const [format, setFormat] = useState<LeadExportOptions["format"]>("csv");
+  const [status, setStatus] = useState("");
+  const [engine, setEngine] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    exportLeads(
+      {
+        format,
+        status: status || undefined,
+        engine: engine || undefined,
+        // Whole days in the user's timezone
+        from: from ? startOfDay(new Date(`${from}T00:00`)) : undefined,
+        to: to ? endOfDay(new Date(`${to}T00:00`)) : undefined,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">Export Pipeline</DialogTitle>
+          <DialogDescription>Download leads with their Steam metrics as columns.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Format</label>
+            <select className={selectClassName} value={format} onChange={(e) => setFormat(e.target.value as LeadExportOptions["format"])} data-testid="select-export-format">
+              {FORMATS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Stage</label>
+              <select className={selectClassName} value={status} onChange={(e) => setStatus(e.target.value)}>
+                <option value="">All stages</option>
+                {stages?.map((stage) => (
+                  <option key={stage.key} value={stage.key}>{stage.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Engine</label>
+              <select className={selectClassName} value={engine} onChange={(e) => setEngine(e.target.value)}>
+                <option value="">All engines</option>
+                {LEAD_ENGINES.map((value) => <option key={value} value={value}>{ENGINE_LABELS[value]}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Added from</label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Added until</label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending} data-testid="button-export-download">
+              {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Download
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useImportLeads } from "@/hooks/use-leads";
+import { parseCsvRecords } from "@shared/csv";
+import { LEAD_IMPORT_FIELDS, type LeadImportField, type LeadImportMapping, type LeadImportResult } from "@shared/schema";
+import { CheckCircle2, FileUp, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const FIELD_LABELS: Record<LeadImportField, string> = {
+  name: "Name",
+  steamAppId: "Steam app ID",
+  website: "Website",
+  status: "Status",
+  engine: "Engine",
+  notes: "Notes",
+};
+
+// Header spellings we recognise when pre-filling the mapping, compared without case or punctuation
+const HEADER_ALIASES: Record<LeadImportField, string[]> = {
+  name: ["name", "studio", "developer", "company", "lead"],
+  steamAppId: ["steamappid", "appid", "steamid", "steam"],
+  website: ["website", "url", "site", "homepage"],
+  status: ["status", "stage"],
+  engine: ["engine", "gameengine"],
+  notes: ["notes", "note", "comments"],
+};
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+type Step = "upload" | "map" | "review" | "done";
+
+function guessMapping(headers: string[]): Partial<LeadImportMapping> {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const mapping: Partial<LeadImportMapping> = {};
+  LEAD_IMPORT_FIELDS.forEach((field) => {
+    const header = headers.find((h) => HEADER_ALIASES[field].includes(normalize(h)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+}
+
+interface LeadImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LeadImportDialog({ open, onOpenChange }: LeadImportDialogProps) {
+  const { mutate: importLeads, isPending } = useImportLeads();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<Partial<LeadImportMapping>>({});
+  const [result, setResult] = useState<LeadImportResult | null>(null);
+  const [fileError, setFileError] = useState("");
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setCsv("");
+    setHeaders([]);
+    setRecords([]);
+    setMapping({});
+    setResult(null);
+    setFileError("");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    const parsed = parseCsvRecords(text);
+    if (parsed.headers.length === 0 || parsed.records.length === 0) {
+      setFileError("That file has no rows below the header.");
+      return;
+    }
+    setFileError("");
+    setFileName(file.name);
+    setCsv(text);
+    setHeaders(parsed.headers);
+    setRecords(parsed.records);
+    setMapping(guessMapping(parsed.headers));
+    setStep("map");
+  };
+
+  const run = (dryRun: boolean) => {
+    if (!mapping.name) return;
+    importLeads(
+      { csv, mapping: { ...mapping, name: mapping.name }, dryRun },
+      {
+        onSuccess: (data) => {
+          setResult(data);
+          setStep(dryRun ? "review" : "done");
+        },
+      }
+    );
+  };
+
+  const mappedFields = LEAD_IMPORT_FIELDS.filter((field) => mapping[field]);
+  const problemRows = result?.rows.filter((row) => row.outcome === "invalid" || row.outcome === "duplicate") ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] bg-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">Import Leads</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV exported from your spreadsheet."}
+            {step === "map" && `Match the columns in ${fileName} to lead fields.`}
+            {step === "review" && "Nothing has been imported yet. Check the rows below, then import."}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <label className="flex flex-col items-center justify-center gap-2 h-40 border-2 border-dashed border-white/10 rounded-xl cursor-pointer hover:border-primary/40 text-muted-foreground">
+            <FileUp className="w-8 h-8" />
+            <span className="text-sm">Choose a .csv file</span>
+            {fileError && <span className="text-xs text-destructive">{fileError}</span>}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-import-file"
+            />
+          </label>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {LEAD_IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <label className="text-sm font-medium">
+                    {FIELD_LABELS[field]}
+                    {field === "name" && <span className="text-destructive"> *</span>}
+                  </label>
+                  <select
+                    className={selectClassName}
+                    value={mapping[field] ?? ""}
+                    onChange={(e) => setMapping((prev) => ({ ...prev, [field]: e.target.value || undefined }))}
+                    data-testid={`select-import-${field}`}
+                  >
+                    <option value="">{field === "name" ? "Choose a column" : "Don't import"}</option>
+                    {headers.map((header) => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {mappedFields.length > 0 && (
+              <div className="overflow-x-auto rounded-lg border border-white/10">
+                <table className="w-full text-xs">
+                  <thead className="bg-white/5 text-muted-foreground">
+                    <tr>
+                      {mappedFields.map((field) => (
+                        <th key={field} className="px-2 py-1 text-left font-medium">{FIELD_LABELS[field]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {records.slice(0, 3).map((record, index) => (
+                      <tr key={index} className="border-t border-white/5">
+                        {mappedFields.map((field) => (
+                          <td key={field} className="px-2 py-1 truncate max-w-[160px]">{record[mapping[field]!]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {records.length} row{records.length === 1 ? "" : "s"} found. Statuses may be a stage key or its label; blank ones land in the first stage.
+            </p>
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={reset}>Choose another file</Button>
+              <Button onClick={() => run(true)} disabled={isPending || !mapping.name} data-testid="button-import-check">
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check Rows
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "review" && result && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge variant="outline" className="border-green-500/40 text-green-500">{result.valid} ready</Badge>
+              <Badge variant="outline" className="border-yellow-500/40 text-yellow-500">{result.duplicates} already tracked</Badge>
+              <Badge variant="outline" className="border-destructive/40 text-destructive">{result.invalid} with errors</Badge>
+            </div>
+
+            {problemRows.length > 0 && (
+              <div className="max-h-64 overflow-y-auto space-y-1 rounded-lg border border-white/10 p-2">
+                {problemRows.map((row) => (
+                  <div key={row.row} className="text-xs flex gap-2" data-testid={`import-row-${row.row}`}>
+                    <span className="font-mono text-muted-foreground w-12 flex-shrink-0">Row {row.row}</span>
+                    <span className="truncate w-32 flex-shrink-0">{row.name || "—"}</span>
+                    <span className={cn(row.outcome === "invalid" ? "text-destructive" : "text-yellow-500")}>
+                      {row.outcome === "duplicate"
+                        ? "Already in the pipeline, skipped"
+                        : row.errors.map((error) => `${FIELD_LABELS[error.field as LeadImportField] ?? error.field}: ${error.message}`).join("; ")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setStep("map")}>Back to mapping</Button>
+              <Button onClick={() => run(false)} disabled={isPending || result.valid === 0} data-testid="button-import-confirm">
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {result.valid} Lead{result.valid === 1 ? "" : "s"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && result && (
+          <div className="space-y-4 text-center py-4">
+            <CheckCircle2 className="w-10 h-10 text-green-500 mx-auto" />
+            <p className="text-sm">
+              Added {result.imported} lead{result.imported === 1 ? "" : "s"}.
+              {result.total > result.imported && ` ${result.total - result.imported} row${result.total - result.imported === 1 ? " was" : "s were"} skipped.`}
+            </p>
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
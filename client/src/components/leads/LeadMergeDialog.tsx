@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useMergeLeads } from "@/hooks/use-leads";
+import { type Lead } from "@shared/schema";
+import { Loader2, ArrowRight } from "lucide-react";
+
+interface LeadMergeDialogProps {
+  source: Lead;
+  leads: Lead[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function isLikelyDuplicate(a: Lead, b: Lead) {
+  return (!!a.steamAppId && a.steamAppId === b.steamAppId) ||
+    a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
+
+export function LeadMergeDialog({ source, leads, open, onOpenChange }: LeadMergeDialogProps) {
+  const { mutate: mergeLeads, isPending } = useMergeLeads();
+
+  // Likely duplicates first, so the usual target is preselected
+  const candidates = leads
+    .filter((lead) => lead.id !== source.id)
+    .sort((a, b) => Number(isLikelyDuplicate(b, source)) - Number(isLikelyDuplicate(a, source)));
+
+  const [targetId, setTargetId] = useState<number | undefined>(candidates[0]?.id);
+
+  useEffect(() => {
+    setTargetId(candidates[0]?.id);
+  }, [source.id]);
+
+  const target = candidates.find((lead) => lead.id === targetId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target) return;
+    mergeLeads(
+      { targetId: target.id, sourceId: source.id },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">Merge Lead</DialogTitle>
+          <DialogDescription>
+            Notes and metrics are combined into the lead you keep. "{source.name}" is removed afterwards.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Merge into</label>
+            <select
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              value={targetId ?? ""}
+              onChange={(e) => setTargetId(Number(e.target.value))}
+              data-testid="select-merge-target"
+            >
+              {candidates.map((lead) => (
+                <option key={lead.id} value={lead.id}>
+                  {lead.name}{lead.steamAppId ? ` (App ${lead.steamAppId})` : ""}{isLikelyDuplicate(lead, source) ? " - likely duplicate" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {target && (
+            <div className="flex items-center gap-3 rounded-lg bg-white/5 p-3 text-sm">
+              <span className="truncate text-muted-foreground line-through">{source.name}</span>
+              <ArrowRight className="w-4 h-4 flex-shrink-0 text-primary" />
+              <span className="truncate font-medium">{target.name}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending || !target} data-testid="button-confirm-merge">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge Leads
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { type Lead, type LeadScoreBreakdown, type LeadScoreFactor } from "@shared/schema";
+import { Gauge } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export const SCORE_FACTOR_LABELS: Record<LeadScoreFactor, string> = {
+  ccu: "Players online",
+  reviews: "Review count",
+  reviewRatio: "Review ratio",
+  recency: "Release recency",
+  engine: "Engine match",
+  stage: "Pipeline stage",
+};
+
+function getScoreColor(score: number) {
+  if (score >= 70) return "text-green-400 border-green-400/30 bg-green-400/10";
+  if (score >= 40) return "text-yellow-400 border-yellow-400/30 bg-yellow-400/10";
+  return "text-muted-foreground border-white/10 bg-white/5";
+}
+
+/**
+ * The lead's 0-100 score, with a tooltip listing what each factor added,
+ * biggest contribution first.
+ */
+export function LeadScoreBadge({ lead }: { lead: Lead }) {
+  if (lead.score === null) return null;
+  const breakdown = lead.scoreBreakdown as LeadScoreBreakdown | null;
+  const factors = [...(breakdown?.factors ?? [])].sort((a, b) => b.points - a.points);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn("text-[10px] py-0.5 px-1.5 font-mono cursor-help", getScoreColor(lead.score))}
+          data-testid={`badge-score-${lead.id}`}
+        >
+          <Gauge className="w-3 h-3 mr-1" />
+          {lead.score}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent side="right" className="w-64 p-3">
+        <p className="text-xs font-medium mb-2">Score {lead.score} / 100</p>
+        <div className="space-y-1.5">
+          {factors.map((factor) => (
+            <div key={factor.factor} className="text-xs">
+              <div className="flex justify-between gap-2">
+                <span>{SCORE_FACTOR_LABELS[factor.factor]}</span>
+                <span className="font-mono">+{factor.points}</span>
+              </div>
+              <div className="text-muted-foreground">{factor.detail}</div>
+            </div>
+          ))}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
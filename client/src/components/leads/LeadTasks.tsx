@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { MemberAvatar, getMemberName } from "@/components/MemberAvatar";
+import { useTasks, useCreateTask, useCompleteTask, useDeleteTask, getTaskDueState } from "@/hooks/use-tasks";
+import { useActiveOrganizationMembers, useCanEditPipeline } from "@/hooks/use-organizations";
+import { addDays, format, setHours, startOfDay } from "date-fns";
+import { cn } from "@/lib/utils";
+import { CalendarClock, Loader2, Plus, Trash2 } from "lucide-react";
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+// Tomorrow morning, the usual "follow up" default
+function defaultDueAt(): string {
+  return format(setHours(startOfDay(addDays(new Date(), 1)), 9), "yyyy-MM-dd'T'HH:mm");
+}
+
+interface LeadTasksProps {
+  leadId: number;
+}
+
+export function LeadTasks({ leadId }: LeadTasksProps) {
+  const { data: tasks, isLoading } = useTasks({ leadId, status: "all" });
+  const { data: members } = useActiveOrganizationMembers();
+  const { mutate: createTask, isPending: isCreating } = useCreateTask();
+  const { mutate: completeTask } = useCompleteTask();
+  const { mutate: deleteTask } = useDeleteTask();
+  const canEdit = useCanEditPipeline();
+  const [title, setTitle] = useState("");
+  const [dueAt, setDueAt] = useState(defaultDueAt);
+  // "" leaves it to the server, which picks whoever works the lead
+  const [assigneeId, setAssigneeId] = useState("");
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createTask(
+      { leadId, title, dueAt: new Date(dueAt), ...(assigneeId ? { assigneeId } : {}) },
+      {
+        onSuccess: () => {
+          setTitle("");
+          setDueAt(defaultDueAt());
+        },
+      }
+    );
+  };
+
+  const memberFor = (userId: string | null) => members?.find((member) => member.userId === userId);
+
+  return (
+    <div className="space-y-3">
+      {!tasks?.length && <p className="text-sm text-muted-foreground">No follow-ups scheduled.</p>}
+
+      {tasks?.map((task) => {
+        const state = getTaskDueState(task);
+        const assignee = memberFor(task.assigneeId);
+        return (
+          <div key={task.id} className="group flex items-start gap-3 rounded-lg bg-white/5 p-3" data-testid={`task-${task.id}`}>
+            <Checkbox
+              className="mt-0.5"
+              checked={!!task.completedAt}
+              disabled={!canEdit}
+              onCheckedChange={(checked) => completeTask({ id: task.id, completed: checked === true })}
+              data-testid={`checkbox-task-${task.id}`}
+            />
+            <div className="flex-1 min-w-0">
+              <p className={cn("text-sm", state === "done" && "line-through text-muted-foreground")}>{task.title}</p>
+              <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                <CalendarClock className="w-3 h-3" />
+                {format(new Date(task.dueAt), "MMM d, HH:mm")}
+                {state === "overdue" && <Badge variant="destructive" className="text-[10px] px-1.5 py-0">Overdue</Badge>}
+                {state === "today" && <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-yellow-500/40 text-yellow-500">Today</Badge>}
+                {assignee && (
+                  <span className="inline-flex items-center gap-1">
+                    <MemberAvatar member={assignee} className="h-4 w-4" />
+                    {getMemberName(assignee)}
+                  </span>
+                )}
+              </div>
+            </div>
+            {canEdit && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+                title="Delete task"
+                onClick={() => deleteTask(task.id)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {canEdit && (
+        <form onSubmit={handleSubmit} className="space-y-2 rounded-lg border border-white/10 p-3">
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Follow up about..." data-testid="input-task-title" />
+          <div className="grid grid-cols-2 gap-2">
+            <Input type="datetime-local" value={dueAt} onChange={(e) => setDueAt(e.target.value)} required />
+            <select className={selectClassName} value={assigneeId} onChange={(e) => setAssigneeId(e.target.value)}>
+              <option value="">Lead's assignee</option>
+              {members?.filter((member) => member.role !== "viewer").map((member) => (
+                <option key={member.userId} value={member.userId}>{getMemberName(member)}</option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit" size="sm" className="w-full" disabled={isCreating || !title.trim() || !dueAt} data-testid="button-add-task">
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Task
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
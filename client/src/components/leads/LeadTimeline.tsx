@@ -0,0 +1,181 @@
+import { useLeadEvents } from "@/hooks/use-leads";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useActiveOrganizationMembers } from "@/hooks/use-organizations";
+import { getMemberName } from "@/components/MemberAvatar";
+import { formatNumber } from "@/lib/utils";
+import { type Lead, type LeadEventWithActor, type PipelineStage } from "@shared/schema";
+import { format, formatDistanceToNow } from "date-fns";
+import { Activity, ArrowRight, Loader2, Merge, Pencil, PlusCircle, StickyNote, UserCheck } from "lucide-react";
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "name",
+  website: "website",
+  engine: "engine",
+  steamAppId: "Steam app",
+  studioId: "studio",
+};
+
+const EVENT_ICONS: Record<string, typeof Activity> = {
+  created: PlusCircle,
+  status_changed: ArrowRight,
+  field_updated: Pencil,
+  note: StickyNote,
+  assigned: UserCheck,
+  metrics_refreshed: Activity,
+  merged: Merge,
+};
+
+type MetricsValue = { ccu?: number; reviews?: number; reviewScore?: number } | null;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+function formatMetricChange(label: string, next?: number, previous?: number, suffix = ""): string | null {
+  if (next === undefined) return null;
+  const value = suffix ? `${next}${suffix}` : formatNumber(next);
+  if (previous === undefined || previous === next) return `${label} ${value}`;
+  const delta = next - previous;
+  return `${label} ${value} (${delta > 0 ? "+" : ""}${suffix ? delta + suffix : formatNumber(delta)})`;
+}
+
+function describeEvent(
+  event: LeadEventWithActor,
+  stageLabel: (key: unknown) => string,
+  memberName: (userId: unknown) => string
+): string {
+  switch (event.type) {
+    case "created":
+      return `Added to ${stageLabel(event.newValue)}`;
+    case "status_changed":
+      return `Moved from ${stageLabel(event.oldValue)} to ${stageLabel(event.newValue)}`;
+    case "field_updated": {
+      const label = FIELD_LABELS[event.field ?? ""] ?? event.field;
+      if (event.newValue === null || event.newValue === "") return `Cleared ${label}`;
+      if (event.field === "studioId") return "Linked to a studio";
+      return `Changed ${label} to "${event.newValue}"`;
+    }
+    case "note":
+      return event.newValue ? "Updated notes" : "Cleared notes";
+    case "assigned":
+      return event.newValue ? `Assigned to ${memberName(event.newValue)}` : `Unassigned from ${memberName(event.oldValue)}`;
+    case "metrics_refreshed": {
+      const next = event.newValue as MetricsValue;
+      const previous = event.oldValue as MetricsValue;
+      const parts = [
+        formatMetricChange("CCU", next?.ccu, previous?.ccu),
+        formatMetricChange("reviews", next?.reviews, previous?.reviews),
+        formatMetricChange("positive", next?.reviewScore, previous?.reviewScore, "%"),
+      ].filter(Boolean);
+      return parts.length ? `Steam metrics refreshed: ${parts.join(", ")}` : "Steam metrics refreshed";
+    }
+    case "merged": {
+      const source = event.oldValue as { name?: string } | null;
+      return `Merged in "${source?.name ?? "another lead"}"`;
+    }
+    default:
+      return event.type;
+  }
+}
+
+/**
+ * Total time the lead has spent in each stage, replayed from its status
+ * history. Leads created before the timeline existed start in whatever stage
+ * their first recorded move left from.
+ */
+export function getTimeInStages(lead: Lead, events: LeadEventWithActor[]): { key: string; ms: number }[] {
+  const chronological = [...events].reverse();
+  const created = chronological.find((e) => e.type === "created");
+  const moves = chronological.filter((e) => e.type === "status_changed");
+
+  let current = String(created?.newValue ?? moves[0]?.oldValue ?? lead.status);
+  let since = new Date(created?.createdAt ?? lead.createdAt ?? Date.now()).getTime();
+  const totals = new Map<string, number>();
+
+  const close = (until: number) => totals.set(current, (totals.get(current) ?? 0) + Math.max(0, until - since));
+
+  moves.forEach((move) => {
+    const at = new Date(move.createdAt).getTime();
+    close(at);
+    current = String(move.newValue);
+    since = at;
+  });
+  close(Date.now());
+
+  return Array.from(totals.entries()).map(([key, ms]) => ({ key, ms }));
+}
+
+interface LeadTimelineProps {
+  lead: Lead;
+}
+
+export function LeadTimeline({ lead }: LeadTimelineProps) {
+  const { data: events, isLoading } = useLeadEvents(lead.id);
+  const { data: stages } = usePipelineStages();
+  const { data: members } = useActiveOrganizationMembers();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const stageByKey = new Map<string, PipelineStage>((stages ?? []).map((stage) => [stage.key, stage]));
+  const stageLabel = (key: unknown) => stageByKey.get(String(key))?.label ?? String(key);
+  const timeInStages = getTimeInStages(lead, events ?? []);
+  const memberName = (userId: unknown) => {
+    const member = members?.find((m) => m.userId === userId);
+    return member ? getMemberName(member) : "a former member";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">Time in stage</h4>
+        <div className="flex flex-wrap gap-2">
+          {timeInStages.map(({ key, ms }) => (
+            <div key={key} className="flex items-center gap-2 bg-white/5 rounded px-2 py-1 text-xs">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: stageByKey.get(key)?.color ?? "#64748b" }} />
+              <span>{stageLabel(key)}</span>
+              <span className="font-mono text-muted-foreground">{formatDuration(ms)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">Activity</h4>
+        {!events?.length ? (
+          <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-white/10 ml-2 space-y-4">
+            {events.map((event) => {
+              const Icon = EVENT_ICONS[event.type] ?? Activity;
+              return (
+                <li key={event.id} className="ml-5" data-testid={`lead-event-${event.id}`}>
+                  <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-card border border-white/10">
+                    <Icon className="w-3 h-3 text-muted-foreground" />
+                  </span>
+                  <p className="text-sm">{describeEvent(event, stageLabel, memberName)}</p>
+                  {event.type === "note" && typeof event.newValue === "string" && (
+                    <p className="text-xs text-muted-foreground mt-1 line-clamp-2 whitespace-pre-line">{event.newValue}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-0.5" title={format(new Date(event.createdAt), "PPpp")}>
+                    {event.userId ? event.actorName ?? "Unknown user" : "System"} · {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { useSteamAppHistory } from "@/hooks/use-steam";
+import { formatNumber } from "@/lib/utils";
+
+const RANGES = [7, 30, 90] as const;
+
+const SERIES = {
+  playerCount: { label: "Players", color: "#22c55e" },
+  totalReviews: { label: "Reviews", color: "#3b82f6" },
+} satisfies ChartConfig;
+
+type Series = keyof typeof SERIES;
+
+/**
+ * Collected snapshots for one Steam app. Only as dense as the collector
+ * runs, so short ranges on a freshly tracked app may show a few points.
+ */
+export function MetricsHistoryChart({ appId }: { appId: number }) {
+  const [days, setDays] = useState<number>(30);
+  const [series, setSeries] = useState<Series>("playerCount");
+  const { data: snapshots, isLoading } = useSteamAppHistory(appId, days);
+
+  const points = (snapshots ?? [])
+    .filter((snapshot) => snapshot[series] !== null)
+    .map((snapshot) => ({
+      capturedAt: new Date(snapshot.capturedAt).getTime(),
+      [series]: snapshot[series],
+    }));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex gap-1">
+          {(Object.keys(SERIES) as Series[]).map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={series === key ? "secondary" : "ghost"}
+              className="h-7 text-xs"
+              onClick={() => setSeries(key)}
+            >
+              {SERIES[key].label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map((range) => (
+            <Button
+              key={range}
+              size="sm"
+              variant={days === range ? "secondary" : "ghost"}
+              className="h-7 text-xs font-mono"
+              onClick={() => setDays(range)}
+            >
+              {range}d
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-48 flex items-center justify-center">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : points.length < 2 ? (
+        <div className="h-48 border-2 border-dashed border-white/5 rounded-xl flex items-center justify-center text-muted-foreground/50 text-sm">
+          Not enough history yet
+        </div>
+      ) : (
+        <ChartContainer config={SERIES} className="h-48 w-full aspect-auto">
+          <LineChart data={points} margin={{ left: 0, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="capturedAt"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value) => format(new Date(value), "MMM d")}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis tickFormatter={(value) => formatNumber(value)} tickLine={false} axisLine={false} width={48} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, payload) => format(new Date(payload[0]?.payload.capturedAt), "PPp")} />}
+            />
+            <Line dataKey={series} stroke={`var(--color-${series})`} strokeWidth={2} dot={false} type="monotone" />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
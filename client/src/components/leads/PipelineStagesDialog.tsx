@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  useCreatePipelineStage,
+  useDeletePipelineStage,
+  useReorderPipelineStages,
+  useUpdatePipelineStage,
+} from "@/hooks/use-pipeline-stages";
+import { type Lead, type PipelineStage, type StageOutcome } from "@shared/schema";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface PipelineStagesDialogProps {
+  stages: PipelineStage[];
+  leads: Lead[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const selectClassName = "flex h-9 rounded-md border border-input bg-background px-2 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+function toStageKey(label: string) {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+}
+
+export function PipelineStagesDialog({ stages, leads, open, onOpenChange }: PipelineStagesDialogProps) {
+  const { mutate: createStage, isPending: isCreating } = useCreatePipelineStage();
+  const { mutate: updateStage } = useUpdatePipelineStage();
+  const { mutate: reorderStages } = useReorderPipelineStages();
+  const { mutate: deleteStage } = useDeletePipelineStage();
+  const [newLabel, setNewLabel] = useState("");
+
+  const move = (index: number, offset: number) => {
+    const ids = stages.map((stage) => stage.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderStages(ids);
+  };
+
+  const handleDelete = (stage: PipelineStage) => {
+    const hasLeads = leads.some((lead) => lead.status === stage.key);
+    // Leads in a removed stage fall back to the first remaining column
+    const moveTo = hasLeads ? stages.find((s) => s.id !== stage.id)?.key : undefined;
+    deleteStage({ id: stage.id, moveTo });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = toStageKey(newLabel);
+    if (!key) return;
+    createStage(
+      { key, label: newLabel.trim(), color: "#64748b", outcome: "open" },
+      { onSuccess: () => setNewLabel("") }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">Pipeline Stages</DialogTitle>
+          <DialogDescription>
+            Columns on your board, left to right. Deleting a stage moves its leads to the first remaining stage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 mt-4">
+          {stages.map((stage, index) => (
+            <div key={stage.id} className="flex items-center gap-2" data-testid={`row-stage-${stage.key}`}>
+              <input
+                type="color"
+                className="h-9 w-9 flex-shrink-0 cursor-pointer rounded border border-input bg-transparent"
+                defaultValue={stage.color}
+                onBlur={(e) => e.target.value !== stage.color && updateStage({ id: stage.id, color: e.target.value })}
+                aria-label={`${stage.label} color`}
+              />
+              <Input
+                className="h-9"
+                defaultValue={stage.label}
+                onBlur={(e) => e.target.value.trim() && e.target.value !== stage.label && updateStage({ id: stage.id, label: e.target.value })}
+                aria-label="Stage label"
+              />
+              <select
+                className={selectClassName}
+                value={stage.outcome}
+                onChange={(e) => updateStage({ id: stage.id, outcome: e.target.value as StageOutcome })}
+                aria-label={`${stage.label} outcome`}
+              >
+                <option value="open">Open</option>
+                <option value="won">Won</option>
+                <option value="lost">Lost</option>
+              </select>
+              <Button size="icon" variant="ghost" className="h-9 w-9" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-9 w-9" disabled={index === stages.length - 1} onClick={() => move(index, 1)}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-9 w-9 text-destructive hover:text-destructive"
+                disabled={stages.length === 1}
+                onClick={() => handleDelete(stage)}
+                data-testid={`button-delete-stage-${stage.key}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex items-center gap-2 pt-4 border-t border-white/5">
+          <Input
+            className="h-9"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="New stage, e.g. Demo Scheduled"
+            data-testid="input-new-stage"
+          />
+          <Button type="submit" size="sm" disabled={isCreating || !toStageKey(newLabel)}>
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
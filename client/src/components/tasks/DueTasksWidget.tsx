@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { endOfDay, format, formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useTasks, useCompleteTask, getTaskDueState } from "@/hooks/use-tasks";
+import { useCanEditPipeline } from "@/hooks/use-organizations";
+import { requestNotificationPermission } from "@/lib/service-worker-registration";
+import { Bell, CalendarClock, Loader2 } from "lucide-react";
+import { type TaskWithLead } from "@shared/schema";
+
+function TaskRow({ task, canEdit }: { task: TaskWithLead; canEdit: boolean }) {
+  const { mutate: completeTask } = useCompleteTask();
+  const dueAt = new Date(task.dueAt);
+
+  return (
+    <div className="flex items-start gap-3 py-2" data-testid={`due-task-${task.id}`}>
+      <Checkbox
+        className="mt-0.5"
+        checked={false}
+        disabled={!canEdit}
+        onCheckedChange={() => completeTask({ id: task.id, completed: true })}
+      />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm truncate">{task.title}</p>
+        <Link href={`/leads/${task.leadId}`} className="text-xs text-muted-foreground hover:text-primary truncate block">
+          {task.leadName}
+        </Link>
+      </div>
+      <span className="text-xs text-muted-foreground flex-shrink-0" title={format(dueAt, "PPpp")}>
+        {formatDistanceToNow(dueAt, { addSuffix: true })}
+      </span>
+    </div>
+  );
+}
+
+export function DueTasksWidget() {
+  const { data: tasks, isLoading } = useTasks({ dueBefore: endOfDay(new Date()) });
+  const canEdit = useCanEditPipeline();
+  const [permission, setPermission] = useState(() => ("Notification" in window ? Notification.permission : "denied"));
+
+  const overdue = tasks?.filter((task) => getTaskDueState(task) === "overdue") ?? [];
+  const dueToday = tasks?.filter((task) => getTaskDueState(task) === "today") ?? [];
+
+  return (
+    <Card className="p-4" data-testid="card-due-tasks">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">Follow-ups</h2>
+        </div>
+        {permission === "default" && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => requestNotificationPermission().then(setPermission)}
+            data-testid="button-enable-reminders"
+          >
+            <Bell className="w-3 h-3 mr-1" />
+            Enable reminders
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      ) : overdue.length === 0 && dueToday.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing due today.</p>
+      ) : (
+        <div className="space-y-3">
+          {overdue.length > 0 && (
+            <div>
+              <Badge variant="destructive" className="text-[10px] mb-1">Overdue · {overdue.length}</Badge>
+              <div className="divide-y divide-white/5">
+                {overdue.map((task) => <TaskRow key={task.id} task={task} canEdit={canEdit} />)}
+              </div>
+            </div>
+          )}
+          {dueToday.length > 0 && (
+            <div>
+              <Badge variant="outline" className="text-[10px] mb-1 border-yellow-500/40 text-yellow-500">Due today · {dueToday.length}</Badge>
+              <div className="divide-y divide-white/5">
+                {dueToday.map((task) => <TaskRow key={task.id} task={task} canEdit={canEdit} />)}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
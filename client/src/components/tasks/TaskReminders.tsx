@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { endOfDay } from "date-fns";
+import { useTasks } from "@/hooks/use-tasks";
+import { useClerkAuth } from "@/hooks/use-clerk-auth";
+import { showReminderNotification } from "@/lib/service-worker-registration";
+
+const NOTIFIED_KEY = "steam-scout:reminded-tasks";
+const CHECK_INTERVAL = 60 * 1000;
+
+function loadNotified(): number[] {
+  try {
+    return JSON.parse(localStorage.getItem(NOTIFIED_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Notifies the signed-in user once when each of their follow-up tasks comes
+ * due. Renders nothing; mounted on every protected page.
+ */
+export function TaskReminders() {
+  const { user } = useClerkAuth();
+  const { data: tasks } = useTasks({ dueBefore: endOfDay(new Date()) }, { refetchInterval: 5 * 60 * 1000 });
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!tasks || !user) return;
+
+    const notified = loadNotified();
+    const due = tasks.filter((task) =>
+      task.assigneeId === user.id &&
+      new Date(task.dueAt).getTime() <= now &&
+      !notified.includes(task.id)
+    );
+    if (due.length === 0) return;
+
+    Promise.all(due.map((task) =>
+      showReminderNotification({
+        title: `Follow up: ${task.leadName}`,
+        body: task.title,
+        tag: `task-${task.id}`,
+        url: `/leads/${task.leadId}`,
+      })
+    )).then((shown) => {
+      // Only remember tasks we actually surfaced, so granting permission later still reminds
+      const ids = due.filter((_, index) => shown[index]).map((task) => task.id);
+      if (ids.length === 0) return;
+      // Open tasks only, so the list doesn't grow forever
+      const openIds = new Set(tasks.map((task) => task.id));
+      const kept = notified.filter((id) => openIds.has(id));
+      localStorage.setItem(NOTIFIED_KEY, JSON.stringify(kept.concat(ids)));
+    });
+  }, [tasks, user, now]);
+
+  return null;
+}
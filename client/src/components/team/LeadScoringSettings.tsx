@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SCORE_FACTOR_LABELS } from "@/components/leads/LeadScoreBadge";
+import { useScoringConfig, useUpdateScoringConfig } from "@/hooks/use-organizations";
+import { DEFAULT_LEAD_SCORING, LEAD_ENGINES, LEAD_SCORE_FACTORS, type LeadScoringConfig } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+interface LeadScoringSettingsProps {
+  organizationId: number;
+  canEdit: boolean;
+}
+
+/**
+ * Factor weights and target engines behind lead scores. Everyone can see
+ * them; only owners can change them.
+ */
+export function LeadScoringSettings({ organizationId, canEdit }: LeadScoringSettingsProps) {
+  const { data: saved, isLoading } = useScoringConfig(organizationId);
+  const { mutate: saveConfig, isPending } = useUpdateScoringConfig();
+  const [config, setConfig] = useState<LeadScoringConfig>(DEFAULT_LEAD_SCORING);
+
+  useEffect(() => {
+    if (saved) setConfig(saved);
+  }, [saved]);
+
+  if (isLoading) {
+    return <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />;
+  }
+
+  const setWeight = (factor: keyof LeadScoringConfig["weights"], value: string) => {
+    const weight = Math.min(10, Math.max(0, Number(value) || 0));
+    setConfig((prev) => ({ ...prev, weights: { ...prev.weights, [factor]: weight } }));
+  };
+
+  const toggleEngine = (engine: LeadScoringConfig["targetEngines"][number], checked: boolean) => {
+    setConfig((prev) => ({
+      ...prev,
+      targetEngines: checked ? [...prev.targetEngines, engine] : prev.targetEngines.filter((e) => e !== engine),
+    }));
+  };
+
+  const totalWeight = LEAD_SCORE_FACTORS.reduce((sum, factor) => sum + config.weights[factor], 0);
+  const isDirty = JSON.stringify(config) !== JSON.stringify(saved);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveConfig({ id: organizationId, config });
+  };
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          {LEAD_SCORE_FACTORS.map((factor) => (
+            <div key={factor} className="flex items-center gap-3">
+              <label className="text-sm flex-1">{SCORE_FACTOR_LABELS[factor]}</label>
+              <span className="text-xs text-muted-foreground font-mono w-10 text-right">
+                {totalWeight > 0 ? Math.round((config.weights[factor] / totalWeight) * 100) : 0}%
+              </span>
+              <Input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                className="w-20 h-8"
+                value={config.weights[factor]}
+                onChange={(e) => setWeight(factor, e.target.value)}
+                disabled={!canEdit}
+                data-testid={`input-weight-${factor}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Target engines</label>
+          <div className="grid grid-cols-2 gap-2">
+            {LEAD_ENGINES.filter((engine) => engine !== "Unknown").map((engine) => (
+              <label key={engine} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={config.targetEngines.includes(engine)}
+                  onCheckedChange={(checked) => toggleEngine(engine, checked === true)}
+                  disabled={!canEdit}
+                />
+                {engine}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Leads on an unknown engine get half marks for engine match.</p>
+        </div>
+
+        {canEdit && (
+          <Button
+            type="submit"
+            variant="outline"
+            className="w-full"
+            disabled={isPending || !isDirty || totalWeight === 0 || config.targetEngines.length === 0}
+            data-testid="button-save-scoring"
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save and Rescore
+          </Button>
+        )}
+      </form>
+    </Card>
+  );
+}
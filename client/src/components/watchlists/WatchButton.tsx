@@ -0,0 +1,74 @@
+import { Check, Eye, Loader2, Plus } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { useCreateWatchlist, useUnwatchApp, useWatchApp, useWatchlists } from "@/hooks/use-watchlists";
+
+const DEFAULT_WATCHLIST_NAME = "My Watchlist";
+
+/**
+ * Adds or removes a Steam app on the user's watchlists. Users without a
+ * watchlist get one created on their first watch.
+ */
+export function WatchButton({ steamAppId }: { steamAppId: number }) {
+  const { data: watchlists } = useWatchlists();
+  const { mutate: createWatchlist, isPending: isCreating } = useCreateWatchlist();
+  const { mutate: watchApp, isPending: isWatching } = useWatchApp();
+  const { mutate: unwatchApp } = useUnwatchApp();
+
+  const watchedOn = new Set(
+    (watchlists ?? [])
+      .filter((list) => list.items.some((item) => item.steamAppId === steamAppId))
+      .map((list) => list.id)
+  );
+
+  const handleCreateAndWatch = () => {
+    createWatchlist(
+      { name: DEFAULT_WATCHLIST_NAME },
+      { onSuccess: (watchlist) => watchApp({ watchlistId: watchlist.id, steamAppId }) }
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="icon"
+          variant={watchedOn.size > 0 ? "secondary" : "outline"}
+          title="Watch"
+          disabled={isCreating || isWatching}
+          data-testid={`button-watch-${steamAppId}`}
+        >
+          {isCreating || isWatching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Watch on</DropdownMenuLabel>
+        {watchlists?.map((list) => (
+          <DropdownMenuItem
+            key={list.id}
+            onClick={() =>
+              watchedOn.has(list.id)
+                ? unwatchApp({ watchlistId: list.id, steamAppId })
+                : watchApp({ watchlistId: list.id, steamAppId })
+            }
+          >
+            <span className="flex-1 truncate">{list.name}</span>
+            {watchedOn.has(list.id) && <Check className="w-4 h-4 ml-2" />}
+          </DropdownMenuItem>
+        ))}
+        {watchlists?.length === 0 && (
+          <DropdownMenuItem onClick={handleCreateAndWatch}>
+            <Plus className="w-4 h-4 mr-2" />
+            New "{DEFAULT_WATCHLIST_NAME}"
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type InsertAlertRule } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export function useAlertRules() {
+  return useQuery({
+    queryKey: [api.alerts.listRules.path],
+    queryFn: async () => {
+      const res = await fetch(api.alerts.listRules.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch alert rules");
+      return api.alerts.listRules.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useAlertEvents() {
+  return useQuery({
+    queryKey: [api.alerts.events.path],
+    queryFn: async () => {
+      const res = await fetch(api.alerts.events.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch alerts");
+      return api.alerts.events.responses[200].parse(await res.json());
+    },
+    refetchInterval: 1000 * 60 * 5, // New alerts only land after a collector run
+  });
+}
+
+export function useCreateAlertRule() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: InsertAlertRule) => {
+      const res = await fetch(api.alerts.createRule.path, {
+        method: api.alerts.createRule.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to create alert rule");
+      return api.alerts.createRule.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.alerts.listRules.path] });
+      toast({ title: "Alert Created", description: "It is checked after each Steam data refresh." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useToggleAlertRule() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      const res = await fetch(buildUrl(api.alerts.updateRule.path, { id }), {
+        method: api.alerts.updateRule.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to update alert rule");
+      return api.alerts.updateRule.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.alerts.listRules.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.alerts.deleteRule.path, { id }), {
+        method: api.alerts.deleteRule.method,
+        credentials: "include",
+      });
+      if (!res.ok) await throwResponseError(res, "Failed to delete alert rule");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.alerts.listRules.path] });
+      queryClient.invalidateQueries({ queryKey: [api.alerts.events.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type InsertContact, type UpdateContactRequest } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export function useContacts(leadId: number) {
+  return useQuery({
+    queryKey: [api.contacts.list.path, leadId],
+    queryFn: async () => {
+      const url = buildUrl(api.contacts.list.path, { leadId });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch contacts");
+      return api.contacts.list.responses[200].parse(await res.json());
+    },
+    enabled: !!leadId,
+  });
+}
+
+export function useCreateContact() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ leadId, ...contact }: { leadId: number } & InsertContact) => {
+      const url = buildUrl(api.contacts.create.path, { leadId });
+      const res = await fetch(url, {
+        method: api.contacts.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(contact),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to add contact");
+      return api.contacts.create.responses[201].parse(await res.json());
+    },
+    onSuccess: (contact) => {
+      queryClient.invalidateQueries({ queryKey: [api.contacts.list.path] });
+      toast({ title: "Contact Added", description: `${contact.name} is now on this lead` });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdateContact() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: { id: number } & UpdateContactRequest) => {
+      const url = buildUrl(api.contacts.update.path, { id });
+      const res = await fetch(url, {
+        method: api.contacts.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to update contact");
+      return api.contacts.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.contacts.list.path] });
+      toast({ title: "Contact Updated", description: "Changes saved successfully" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteContact() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.contacts.delete.path, { id });
+      const res = await fetch(url, {
+        method: api.contacts.delete.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to remove contact");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.contacts.list.path] });
+      toast({ title: "Contact Removed", description: "Contact has been deleted from this lead" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
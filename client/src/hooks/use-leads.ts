@@ -1,8 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
-import { type CreateLeadRequest, type UpdateLeadRequest, type Lead } from "@shared/schema";
+import { type CreateLeadRequest, type UpdateLeadRequest, type Lead, type LeadImportMapping } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
+// The server found an existing lead for the same Steam app or studio
+export class DuplicateLeadError extends Error {}
+
 export function useLeads() {
   return useQuery({
     queryKey: [api.leads.list.path],
@@ -27,6 +30,19 @@ export function useLead(id: number) {
   });
 }
 
+export function useLeadEvents(id: number) {
+  return useQuery({
+    queryKey: [api.leads.events.path, id],
+    queryFn: async () => {
+      const url = buildUrl(api.leads.events.path, { id });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch lead activity");
+      return api.leads.events.responses[200].parse(await res.json());
+    },
+    enabled: !!id,
+  });
+}
+
 export function useCreateLead() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -40,6 +56,10 @@ export function useCreateLead() {
         credentials: "include",
       });
 
+      if (res.status === 409) {
+        const { message } = api.leads.create.responses[409].parse(await res.json());
+        throw new DuplicateLeadError(message);
+      }
       if (!res.ok) {
         const error = await res.json().catch(() => ({}));
         throw new Error(error.message || "Failed to create lead");
@@ -50,6 +70,87 @@ export function useCreateLead() {
       queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
       toast({ title: "Lead Added", description: "Successfully added to your pipeline" });
     },
+    onError: (err) => {
+      if (err instanceof DuplicateLeadError) {
+        toast({ title: "Already Tracked", description: err.message });
+        return;
+      }
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useImportLeads() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (input: { csv: string; mapping: LeadImportMapping; dryRun: boolean }) => {
+      const res = await fetch(api.leads.import.path, {
+        method: api.leads.import.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to import leads");
+      }
+      return api.leads.import.responses[200].parse(await res.json());
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) return;
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+      toast({
+        title: "Leads Imported",
+        description: `${result.imported} of ${result.total} rows added to your pipeline`,
+      });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export type LeadExportOptions = {
+  format: "csv" | "xlsx" | "json";
+  status?: string;
+  engine?: string;
+  from?: Date;
+  to?: Date;
+};
+
+// Downloads through fetch so the session cookie goes along, then saves the blob
+export function useExportLeads() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ format, status, engine, from, to }: LeadExportOptions) => {
+      const params = new URLSearchParams({ format });
+      if (status) params.set("status", status);
+      if (engine) params.set("engine", engine);
+      if (from) params.set("from", from.toISOString());
+      if (to) params.set("to", to.toISOString());
+
+      const res = await fetch(`${api.leads.export.path}?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to export leads");
+      }
+
+      const disposition = res.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `leads.${format}`;
+      return { blob: await res.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
     onError: (err) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
     },
@@ -75,11 +176,48 @@ export function useUpdateLead() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.events.path] });
       toast({ title: "Lead Updated", description: "Changes saved successfully" });
     },
   });
 }
 
+export function useAssignLead() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, assigneeId }: { id: number; assigneeId: string | null }) => {
+      const url = buildUrl(api.leads.assign.path, { id });
+      const res = await fetch(url, {
+        method: api.leads.assign.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ assigneeId }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to assign lead");
+      }
+      return api.leads.assign.responses[200].parse(await res.json());
+    },
+    onSuccess: (lead) => {
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.events.path] });
+      toast({
+        title: lead.assigneeId ? "Lead Assigned" : "Lead Unassigned",
+        description: lead.assigneeId ? `${lead.name} has a new owner` : `Nobody is working ${lead.name} now`,
+      });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
 export function useDeleteLead() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -96,7 +234,99 @@ export function useDeleteLead() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.tasks.list.path] });
       toast({ title: "Lead Removed", description: "Lead has been deleted from your pipeline" });
     },
   });
 }
+
+export function useMergeLeads() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ targetId, sourceId }: { targetId: number; sourceId: number }) => {
+      const url = buildUrl(api.leads.merge.path, { id: targetId });
+      const res = await fetch(url, {
+        method: api.leads.merge.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sourceId }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to merge leads");
+      }
+      return api.leads.merge.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.events.path] });
+      queryClient.invalidateQueries({ queryKey: [api.contacts.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.tasks.list.path] });
+      toast({ title: "Leads Merged", description: "Notes, contacts, tasks and metrics were combined into one lead" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export type LeadColumnOrder = { status: string; ids: number[] };
+
+// Applies a reorder to the cached list the same way the server will
+function applyLeadOrder(leads: Lead[], columns: LeadColumnOrder[]): Lead[] {
+  const placement = new Map<number, { status: string; position: number }>();
+  columns.forEach(({ status, ids }) => ids.forEach((id, position) => placement.set(id, { status, position })));
+
+  return leads
+    .map((lead) => {
+      const placed = placement.get(lead.id);
+      return placed ? { ...lead, ...placed } : lead;
+    })
+    .sort((a, b) => a.position - b.position || a.id - b.id);
+}
+
+export function useReorderLeads() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (columns: LeadColumnOrder[]) => {
+      const res = await fetch(api.leads.reorder.path, {
+        method: api.leads.reorder.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ columns }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to move lead");
+      }
+      return api.leads.reorder.responses[200].parse(await res.json());
+    },
+    // Move the card immediately; the board snaps back if the server rejects it
+    onMutate: async (columns) => {
+      await queryClient.cancelQueries({ queryKey: [api.leads.list.path] });
+      const previous = queryClient.getQueryData<Lead[]>([api.leads.list.path]);
+      if (previous) {
+        queryClient.setQueryData([api.leads.list.path], applyLeadOrder(previous, columns));
+      }
+      return { previous };
+    },
+    onError: (err, _columns, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData([api.leads.list.path], context.previous);
+      }
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+    onSuccess: (leads) => {
+      queryClient.setQueryData([api.leads.list.path], leads);
+      queryClient.invalidateQueries({ queryKey: [api.leads.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.events.path] });
+    },
+  });
+}
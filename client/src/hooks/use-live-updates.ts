@@ -0,0 +1,54 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import { type LiveEvent } from "@shared/schema";
+
+// Query keys to refetch for each kind of live event
+const PIPELINE_KEYS = [
+  api.leads.list.path,
+  api.leads.get.path,
+  api.leads.events.path,
+  api.contacts.list.path,
+  api.tasks.list.path,
+  api.pipelineStages.list.path,
+];
+// Alert notifications are created right after the alert itself
+const NOTIFICATION_KEYS = [api.notifications.list.path, api.alerts.events.path];
+const SNAPSHOT_KEYS = [
+  api.steam.topGames.path,
+  api.steam.discover.path,
+  api.watchlists.list.path,
+  api.leads.list.path,
+  api.leads.get.path,
+];
+
+/**
+ * Listens to the server's live updates stream and invalidates the queries an
+ * event makes stale. EventSource reconnects on its own after a dropped
+ * connection; where the stream isn't served (Vercel) it gives up and the
+ * queries' own refetch intervals apply.
+ */
+export function useLiveUpdates(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(api.events.stream.path, { withCredentials: true });
+    const invalidate = (keys: unknown[][]) => {
+      keys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+    };
+
+    source.addEventListener("leads", () => invalidate(PIPELINE_KEYS.map((path) => [path])));
+    source.addEventListener("notifications", () => invalidate(NOTIFICATION_KEYS.map((path) => [path])));
+    source.addEventListener("snapshots", (message) => {
+      const event = JSON.parse((message as MessageEvent<string>).data) as Extract<LiveEvent, { type: "snapshots" }>;
+      invalidate([
+        ...SNAPSHOT_KEYS.map((path) => [path]),
+        ...event.steamAppIds.map((appId) => [api.steam.history.path, appId]),
+      ]);
+    });
+
+    return () => source.close();
+  }, [enabled, queryClient]);
+}
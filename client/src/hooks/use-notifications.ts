@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "@/hooks/use-toast";
+
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export function useNotifications() {
+  return useQuery({
+    queryKey: [api.notifications.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.notifications.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch notifications");
+      return api.notifications.list.responses[200].parse(await res.json());
+    },
+    refetchInterval: 1000 * 60, // Keeps the sidebar badge current
+  });
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, read }: { id: number; read: boolean }) => {
+      const res = await fetch(buildUrl(api.notifications.markRead.path, { id }), {
+        method: api.notifications.markRead.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ read }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to update notification");
+      return api.notifications.markRead.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.notifications.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch(api.notifications.markAllRead.path, {
+        method: api.notifications.markAllRead.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to update notifications");
+      return api.notifications.markAllRead.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.notifications.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,266 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type LeadScoringConfig, type OrganizationRole } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export function useOrganizations() {
+  return useQuery({
+    queryKey: [api.organizations.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.organizations.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch organizations");
+      return api.organizations.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useActiveOrganization() {
+  return useQuery({
+    queryKey: [api.organizations.active.path],
+    queryFn: async () => {
+      const res = await fetch(api.organizations.active.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch active organization");
+      return api.organizations.active.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// Viewers can look at the pipeline but not change it
+export function useCanEditPipeline() {
+  const { data: organization } = useActiveOrganization();
+  return !!organization && organization.role !== "viewer";
+}
+
+// The board's stages are organization-wide, so only owners change them
+export function useCanManageStages() {
+  const { data: organization } = useActiveOrganization();
+  return organization?.role === "owner";
+}
+
+export function useSwitchOrganization() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (organizationId: number) => {
+      const res = await fetch(api.organizations.switch.path, {
+        method: api.organizations.switch.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ organizationId }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to switch organization");
+      return api.organizations.switch.responses[200].parse(await res.json());
+    },
+    onSuccess: (organization) => {
+      // Leads, stages and everything else now come from another pipeline
+      queryClient.invalidateQueries();
+      toast({ title: "Switched Organization", description: `Now working in ${organization.name}` });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useCreateOrganization() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const res = await fetch(api.organizations.create.path, {
+        method: api.organizations.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to create organization");
+      return api.organizations.create.responses[201].parse(await res.json());
+    },
+    onSuccess: (organization) => {
+      // The server makes the new organization active
+      queryClient.invalidateQueries();
+      toast({ title: "Organization Created", description: `Now working in ${organization.name}` });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdateOrganization() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const url = buildUrl(api.organizations.update.path, { id });
+      const res = await fetch(url, {
+        method: api.organizations.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to rename organization");
+      return api.organizations.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.organizations.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.organizations.active.path] });
+      toast({ title: "Organization Updated", description: "Changes saved successfully" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useScoringConfig(id: number | undefined) {
+  return useQuery({
+    queryKey: [api.organizations.scoring.path, id],
+    queryFn: async () => {
+      const url = buildUrl(api.organizations.scoring.path, { id: id! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch scoring weights");
+      return api.organizations.scoring.responses[200].parse(await res.json());
+    },
+    enabled: !!id,
+  });
+}
+
+export function useUpdateScoringConfig() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, config }: { id: number; config: LeadScoringConfig }) => {
+      const url = buildUrl(api.organizations.updateScoring.path, { id });
+      const res = await fetch(url, {
+        method: api.organizations.updateScoring.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(config),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to save scoring weights");
+      return api.organizations.updateScoring.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.organizations.scoring.path] });
+      // Every lead was rescored with the new weights
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.get.path] });
+      toast({ title: "Scoring Updated", description: "Leads have been rescored" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useOrganizationMembers(id: number | undefined) {
+  return useQuery({
+    queryKey: [api.organizations.members.path, id],
+    queryFn: async () => {
+      const url = buildUrl(api.organizations.members.path, { id: id! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch members");
+      return api.organizations.members.responses[200].parse(await res.json());
+    },
+    enabled: !!id,
+  });
+}
+
+// Members of the organization the user is working in, e.g. for assignee pickers
+export function useActiveOrganizationMembers() {
+  const { data: organization } = useActiveOrganization();
+  return useOrganizationMembers(organization?.id);
+}
+
+export function useAddOrganizationMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, email, role }: { id: number; email: string; role: OrganizationRole }) => {
+      const url = buildUrl(api.organizations.addMember.path, { id });
+      const res = await fetch(url, {
+        method: api.organizations.addMember.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to add member");
+      return api.organizations.addMember.responses[201].parse(await res.json());
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: [api.organizations.members.path] });
+      toast({ title: "Member Added", description: `${member.email ?? "They"} can now open this pipeline` });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdateOrganizationMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, userId, role }: { id: number; userId: string; role: OrganizationRole }) => {
+      const url = buildUrl(api.organizations.updateMember.path, { id, userId });
+      const res = await fetch(url, {
+        method: api.organizations.updateMember.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to change role");
+      return api.organizations.updateMember.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.organizations.members.path] });
+      queryClient.invalidateQueries({ queryKey: [api.organizations.active.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useRemoveOrganizationMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, userId }: { id: number; userId: string }) => {
+      const url = buildUrl(api.organizations.removeMember.path, { id, userId });
+      const res = await fetch(url, {
+        method: api.organizations.removeMember.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to remove member");
+    },
+    onSuccess: () => {
+      // Leaving an organization may change which one is active
+      queryClient.invalidateQueries();
+      toast({ title: "Member Removed", description: "They no longer have access to this pipeline" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
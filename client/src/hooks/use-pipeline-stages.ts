@@ -0,0 +1,129 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type InsertPipelineStage, type UpdatePipelineStageRequest } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function usePipelineStages() {
+  return useQuery({
+    queryKey: [api.pipelineStages.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.pipelineStages.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch pipeline stages");
+      return api.pipelineStages.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export function useCreatePipelineStage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: InsertPipelineStage) => {
+      const res = await fetch(api.pipelineStages.create.path, {
+        method: api.pipelineStages.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to create stage");
+      return api.pipelineStages.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.pipelineStages.list.path] });
+      // Lead scores depend on the stages
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdatePipelineStage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: { id: number } & UpdatePipelineStageRequest) => {
+      const url = buildUrl(api.pipelineStages.update.path, { id });
+      const res = await fetch(url, {
+        method: api.pipelineStages.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to update stage");
+      return api.pipelineStages.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.pipelineStages.list.path] });
+      // Lead scores depend on the stages
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useReorderPipelineStages() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await fetch(api.pipelineStages.reorder.path, {
+        method: api.pipelineStages.reorder.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to reorder stages");
+      return api.pipelineStages.reorder.responses[200].parse(await res.json());
+    },
+    onSuccess: (stages) => {
+      queryClient.setQueryData([api.pipelineStages.list.path], stages);
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeletePipelineStage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, moveTo }: { id: number; moveTo?: string }) => {
+      const url = buildUrl(api.pipelineStages.delete.path, { id }) +
+        (moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : "");
+      const res = await fetch(url, {
+        method: api.pipelineStages.delete.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to delete stage");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.pipelineStages.list.path] });
+      // Leads may have moved to another stage
+      queryClient.invalidateQueries({ queryKey: [api.leads.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.leads.events.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
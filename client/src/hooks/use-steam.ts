@@ -1,14 +1,20 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
 import { useDebounce } from "@/hooks/use-debounce"; // We'll assume a standard debounce hook or implement inline if critical, but for now I'll use standard query with enabled
+import type { SteamDiscoverFilters, TopGameCategory } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
 
-export function useSteamSearch(term: string) {
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export function useSteamSearch(term: string, page = 1) {
   return useQuery({
-    queryKey: [api.steam.search.path, term],
+    queryKey: [api.steam.search.path, term, page],
     queryFn: async () => {
-      if (!term || term.length < 2) return [];
-      const url = `${api.steam.search.path}?term=${encodeURIComponent(term)}`;
-      const res = await fetch(url, { credentials: "include" });
+      const params = new URLSearchParams({ term, page: String(page) });
+      const res = await fetch(`${api.steam.search.path}?${params}`, { credentials: "include" });
       if (!res.ok) throw new Error("Steam search failed");
       return api.steam.search.responses[200].parse(await res.json());
     },
@@ -17,6 +23,41 @@ export function useSteamSearch(term: string) {
   });
 }
 
+// Discover filters as query-string values; empty ones are left out
+export type SteamDiscoverQuery = Partial<Record<keyof SteamDiscoverFilters, string>>;
+
+export function useSteamDiscover(query: SteamDiscoverQuery, enabled = true) {
+  const params = new URLSearchParams(
+    Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+
+  return useQuery({
+    queryKey: [api.steam.discover.path, params],
+    queryFn: async () => {
+      const res = await fetch(`${api.steam.discover.path}?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to search indexed apps");
+      }
+      return api.steam.discover.responses[200].parse(await res.json());
+    },
+    enabled,
+    staleTime: 1000 * 60,
+  });
+}
+
+export function useSteamDiscoverFacets() {
+  return useQuery({
+    queryKey: [api.steam.discoverFacets.path],
+    queryFn: async () => {
+      const res = await fetch(api.steam.discoverFacets.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch filter options");
+      return api.steam.discoverFacets.responses[200].parse(await res.json());
+    },
+    staleTime: 1000 * 60 * 10,
+  });
+}
+
 export function useSteamAppDetails(appId: number | undefined) {
   return useQuery({
     queryKey: [api.steam.details.path, appId],
@@ -32,11 +73,27 @@ export function useSteamAppDetails(appId: number | undefined) {
   });
 }
 
-export function useSteamTopGames() {
+// Fetched on demand (enabled: false) since detection may call Steam twice
+export function useSteamAppEngine(appId: number | undefined) {
+  return useQuery({
+    queryKey: [api.steam.engine.path, appId],
+    queryFn: async () => {
+      if (!appId) throw new Error("App ID required");
+      const url = buildUrl(api.steam.engine.path, { id: appId });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to detect engine");
+      return api.steam.engine.responses[200].parse(await res.json());
+    },
+    enabled: false,
+    staleTime: 1000 * 60 * 60,
+  });
+}
+
+export function useSteamTopGames(category: TopGameCategory = "tracked") {
   return useQuery({
-    queryKey: [api.steam.topGames.path],
+    queryKey: [api.steam.topGames.path, category],
     queryFn: async () => {
-      const res = await fetch(api.steam.topGames.path, { credentials: "include" });
+      const res = await fetch(`${api.steam.topGames.path}?category=${category}`, { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch top games");
       return api.steam.topGames.responses[200].parse(await res.json());
     },
@@ -44,3 +101,76 @@ export function useSteamTopGames() {
     refetchInterval: 1000 * 60 * 2, // Auto-refresh every 2 mins
   });
 }
+
+export function useTrackedApps() {
+  return useQuery({
+    queryKey: [api.steam.trackedApps.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.steam.trackedApps.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch tracked apps");
+      return api.steam.trackedApps.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useTrackApp() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (steamAppId: number) => {
+      const res = await fetch(api.steam.trackedApps.add.path, {
+        method: api.steam.trackedApps.add.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ steamAppId }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to track app");
+      return api.steam.trackedApps.add.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.steam.trackedApps.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.steam.topGames.path, "tracked"] });
+      toast({ title: "Tracking Game", description: "It now shows under Tracked on the dashboard." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUntrackApp() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (steamAppId: number) => {
+      const url = buildUrl(api.steam.trackedApps.remove.path, { appId: steamAppId });
+      const res = await fetch(url, { method: api.steam.trackedApps.remove.method, credentials: "include" });
+      if (!res.ok) await throwResponseError(res, "Failed to untrack app");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.steam.trackedApps.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.steam.topGames.path, "tracked"] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useSteamAppHistory(appId: number | undefined, days = 30) {
+  return useQuery({
+    queryKey: [api.steam.history.path, appId, days],
+    queryFn: async () => {
+      if (!appId) throw new Error("App ID required");
+      const url = `${buildUrl(api.steam.history.path, { id: appId })}?days=${days}`;
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch app history");
+      return api.steam.history.responses[200].parse(await res.json());
+    },
+    enabled: !!appId,
+    staleTime: 1000 * 60 * 5, // Snapshots only change when a new fetch lands
+  });
+}
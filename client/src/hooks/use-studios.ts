@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type InsertStudio } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function useStudios() {
+  return useQuery({
+    queryKey: [api.studios.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.studios.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch studios");
+      return api.studios.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useStudioOverview(id: number) {
+  return useQuery({
+    queryKey: [api.studios.overview.path, id],
+    queryFn: async () => {
+      const url = buildUrl(api.studios.overview.path, { id });
+      const res = await fetch(url, { credentials: "include" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch studio");
+      return api.studios.overview.responses[200].parse(await res.json());
+    },
+    enabled: !!id,
+    staleTime: 1000 * 60 * 5, // Live CCU per game, same cadence as Steam details
+  });
+}
+
+export function useUpdateStudio() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: { id: number } & Partial<InsertStudio>) => {
+      const url = buildUrl(api.studios.update.path, { id });
+      const res = await fetch(url, {
+        method: api.studios.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update studio");
+      }
+      return api.studios.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.studios.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.studios.overview.path] });
+      toast({ title: "Studio Updated", description: "Changes saved successfully" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
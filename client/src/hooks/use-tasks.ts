@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type InsertTask, type Task } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { endOfDay, isPast } from "date-fns";
+
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export type TaskDueState = "overdue" | "today" | "upcoming" | "done";
+
+// Judged in the browser's timezone, which is what "today" means to the user
+export function getTaskDueState(task: Pick<Task, "dueAt" | "completedAt">, now = new Date()): TaskDueState {
+  if (task.completedAt) return "done";
+  const dueAt = new Date(task.dueAt);
+  if (isPast(dueAt)) return "overdue";
+  return dueAt <= endOfDay(now) ? "today" : "upcoming";
+}
+
+type TaskFilters = {
+  leadId?: number;
+  dueBefore?: Date;
+  status?: "open" | "completed" | "all";
+};
+
+export function useTasks(filters: TaskFilters = {}, options: { refetchInterval?: number } = {}) {
+  return useQuery({
+    queryKey: [api.tasks.list.path, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters.leadId) params.set("leadId", String(filters.leadId));
+      if (filters.dueBefore) params.set("dueBefore", filters.dueBefore.toISOString());
+      if (filters.status) params.set("status", filters.status);
+
+      const query = params.toString();
+      const res = await fetch(query ? `${api.tasks.list.path}?${query}` : api.tasks.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch tasks");
+      return api.tasks.list.responses[200].parse(await res.json());
+    },
+    refetchInterval: options.refetchInterval,
+  });
+}
+
+export function useCreateTask() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ leadId, ...task }: { leadId: number } & InsertTask) => {
+      const url = buildUrl(api.tasks.create.path, { leadId });
+      const res = await fetch(url, {
+        method: api.tasks.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(task),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to add task");
+      return api.tasks.create.responses[201].parse(await res.json());
+    },
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: [api.tasks.list.path] });
+      toast({ title: "Task Added", description: task.title });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useCompleteTask() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, completed }: { id: number; completed: boolean }) => {
+      const url = buildUrl(api.tasks.complete.path, { id });
+      const res = await fetch(url, {
+        method: api.tasks.complete.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ completed }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to update task");
+      return api.tasks.complete.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.tasks.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteTask() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.tasks.delete.path, { id });
+      const res = await fetch(url, {
+        method: api.tasks.delete.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to delete task");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.tasks.list.path] });
+      toast({ title: "Task Removed", description: "The follow-up has been deleted" });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
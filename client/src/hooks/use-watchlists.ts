@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type InsertWatchlist } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  const error = await res.json().catch(() => ({}));
+  throw new Error(error.message || fallback);
+}
+
+export function useWatchlists() {
+  return useQuery({
+    queryKey: [api.watchlists.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.watchlists.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch watchlists");
+      return api.watchlists.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateWatchlist() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: InsertWatchlist) => {
+      const res = await fetch(api.watchlists.create.path, {
+        method: api.watchlists.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to create watchlist");
+      return api.watchlists.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.watchlists.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteWatchlist() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.watchlists.delete.path, { id });
+      const res = await fetch(url, { method: api.watchlists.delete.method, credentials: "include" });
+      if (!res.ok) await throwResponseError(res, "Failed to delete watchlist");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.watchlists.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useWatchApp() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ watchlistId, steamAppId }: { watchlistId: number; steamAppId: number }) => {
+      const url = buildUrl(api.watchlists.addItem.path, { id: watchlistId });
+      const res = await fetch(url, {
+        method: api.watchlists.addItem.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ steamAppId }),
+        credentials: "include",
+      });
+
+      if (!res.ok) await throwResponseError(res, "Failed to watch app");
+      return api.watchlists.addItem.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.watchlists.list.path] });
+      toast({ title: "Watching Game", description: "Player counts are tracked from now on." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUnwatchApp() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ watchlistId, steamAppId }: { watchlistId: number; steamAppId: number }) => {
+      const url = buildUrl(api.watchlists.removeItem.path, { id: watchlistId, appId: steamAppId });
+      const res = await fetch(url, { method: api.watchlists.removeItem.method, credentials: "include" });
+      if (!res.ok) await throwResponseError(res, "Failed to remove app from watchlist");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.watchlists.list.path] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+}
@@ -366,3 +366,43 @@ export async function getServiceWorkerVersion(): Promise<string | null> {
 
   return null;
 }
+
+/**
+ * Ask once for permission to show reminders as system notifications
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!('Notification' in window)) {
+    return 'denied';
+  }
+
+  if (Notification.permission !== 'default') {
+    return Notification.permission;
+  }
+
+  return await Notification.requestPermission();
+}
+
+/**
+ * Show a reminder through the service worker so clicking it opens `url`.
+ * Falls back to a plain notification where no worker is running (development).
+ */
+export async function showReminderNotification(notification: {
+  title: string;
+  body: string;
+  tag: string;
+  url: string;
+}): Promise<boolean> {
+  if (!('Notification' in window) || Notification.permission !== 'granted') {
+    return false;
+  }
+
+  const controller = 'serviceWorker' in navigator ? navigator.serviceWorker.controller : null;
+
+  if (controller) {
+    controller.postMessage({ type: 'SHOW_NOTIFICATION', notification });
+  } else {
+    new Notification(notification.title, { body: notification.body, tag: notification.tag });
+  }
+
+  return true;
+}
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { CSSProperties } from "react";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -11,6 +12,15 @@ export function formatNumber(num: number): string {
   return num.toString();
 }
 
+// Older leads may hold a website that isn't a full URL; show it as entered
+export function getWebsiteHostname(website: string): string {
+  try {
+    return new URL(website).hostname;
+  } catch {
+    return website;
+  }
+}
+
 export function getEngineColor(engine: string) {
   switch(engine.toLowerCase()) {
     case 'unity': return 'bg-white text-black border-white';
@@ -21,9 +31,14 @@ export function getEngineColor(engine: string) {
   }
 }
 
-export const STATUS_COLUMNS = [
-  { id: 'new', label: 'New Lead', color: 'bg-blue-500/10 text-blue-500 border-blue-500/20' },
-  { id: 'contacted', label: 'Contacted', color: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20' },
-  { id: 'interested', label: 'Interested', color: 'bg-green-500/10 text-green-500 border-green-500/20' },
-  { id: 'closed', label: 'Closed', color: 'bg-purple-500/10 text-purple-500 border-purple-500/20' },
-];
+// Mirrors Steam's own review colouring: positive, mixed, negative
+export function getReviewScoreColor(positivePercent: number) {
+  if (positivePercent >= 70) return 'text-green-500';
+  if (positivePercent >= 40) return 'text-yellow-500';
+  return 'text-red-500';
+}
+
+// Stage colors are user-picked hex values, so they are applied inline rather than as Tailwind classes
+export function getStageBadgeStyle(color: string): CSSProperties {
+  return { backgroundColor: `${color}1a`, color, borderColor: `${color}33` };
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { Sidebar, useSidebar } from "@/components/layout/Sidebar";
+import { useAlertEvents, useAlertRules, useCreateAlertRule, useDeleteAlertRule, useToggleAlertRule } from "@/hooks/use-alerts";
+import { useCanEditPipeline } from "@/hooks/use-organizations";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { BellRing, Loader2, Plus, Trash2, Webhook } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ALERT_METRIC_COMPARATORS,
+  ALERT_METRICS,
+  ALERT_SCOPES,
+  type AlertComparator,
+  type AlertEventWithRule,
+  type AlertMetric,
+  type AlertRule,
+  type AlertScope,
+} from "@shared/schema";
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+const SCOPE_LABELS: Record<AlertScope, string> = {
+  app: "One Steam app",
+  leads: "Every lead",
+  watchlists: "My watchlists",
+};
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  player_count: "Players online",
+  review_count: "Review count",
+  release_date: "Release date",
+  price: "Price ($)",
+};
+
+const COMPARATOR_LABELS: Record<AlertComparator, string> = {
+  above: "rises above",
+  below: "drops below",
+  increase_pct: "grows by % within",
+  decrease_pct: "falls by % within",
+  changed: "changes",
+};
+
+function isPercentComparator(comparator: AlertComparator) {
+  return comparator === "increase_pct" || comparator === "decrease_pct";
+}
+
+function describeRule(rule: AlertRule) {
+  const comparator = rule.comparator as AlertComparator;
+  const target = rule.scope === "app" ? `app ${rule.steamAppId}` : SCOPE_LABELS[rule.scope as AlertScope].toLowerCase();
+  const condition = comparator === "changed"
+    ? "changes"
+    : isPercentComparator(comparator)
+      ? `${comparator === "increase_pct" ? "grows" : "falls"} by ${rule.threshold}% within ${rule.windowDays} days`
+      : `${COMPARATOR_LABELS[comparator]} ${rule.threshold}`;
+  return `${METRIC_LABELS[rule.metric as AlertMetric]} ${condition}, on ${target}`;
+}
+
+function Field({ label, className, children }: { label: string; className?: string; children: React.ReactNode }) {
+  return (
+    <div className={cn("space-y-1", className)}>
+      <label className="text-xs font-medium text-muted-foreground">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+function CreateAlertRuleForm() {
+  const { mutate: createRule, isPending } = useCreateAlertRule();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<AlertScope>("leads");
+  const [steamAppId, setSteamAppId] = useState("");
+  const [metric, setMetric] = useState<AlertMetric>("player_count");
+  const [comparator, setComparator] = useState<AlertComparator>("above");
+  const [threshold, setThreshold] = useState("");
+  const [windowDays, setWindowDays] = useState("7");
+  const [webhookUrl, setWebhookUrl] = useState("");
+
+  const comparators = ALERT_METRIC_COMPARATORS[metric];
+
+  const handleMetricChange = (next: AlertMetric) => {
+    setMetric(next);
+    if (!ALERT_METRIC_COMPARATORS[next].includes(comparator)) setComparator(ALERT_METRIC_COMPARATORS[next][0]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createRule({
+      name,
+      scope,
+      steamAppId: scope === "app" ? Number(steamAppId) : null,
+      metric,
+      comparator,
+      threshold: comparator === "changed" ? null : Number(threshold),
+      windowDays: Number(windowDays),
+      webhookUrl: webhookUrl.trim() || null,
+    }, {
+      onSuccess: () => {
+        setName("");
+        setThreshold("");
+        setWebhookUrl("");
+      },
+    });
+  };
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <Field label="Name">
+          <Input className="h-9" placeholder="Breakout on a lead" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-alert-name" />
+        </Field>
+        <Field label="Watch">
+          <select className={selectClassName} value={scope} onChange={(e) => setScope(e.target.value as AlertScope)} data-testid="select-alert-scope">
+            {ALERT_SCOPES.map((s) => <option key={s} value={s}>{SCOPE_LABELS[s]}</option>)}
+          </select>
+        </Field>
+        {scope === "app" && (
+          <Field label="Steam app ID">
+            <Input type="number" min={1} className="h-9" value={steamAppId} onChange={(e) => setSteamAppId(e.target.value)} data-testid="input-alert-app" />
+          </Field>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="When">
+            <select className={selectClassName} value={metric} onChange={(e) => handleMetricChange(e.target.value as AlertMetric)} data-testid="select-alert-metric">
+              {ALERT_METRICS.map((m) => <option key={m} value={m}>{METRIC_LABELS[m]}</option>)}
+            </select>
+          </Field>
+          <Field label="Condition">
+            <select className={selectClassName} value={comparator} onChange={(e) => setComparator(e.target.value as AlertComparator)} data-testid="select-alert-comparator">
+              {comparators.map((c) => <option key={c} value={c}>{COMPARATOR_LABELS[c]}</option>)}
+            </select>
+          </Field>
+        </div>
+        {comparator !== "changed" && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label={isPercentComparator(comparator) ? "Percent" : "Threshold"} className={cn(!isPercentComparator(comparator) && "col-span-2")}>
+              <Input type="number" min={0} step="any" className="h-9" value={threshold} onChange={(e) => setThreshold(e.target.value)} data-testid="input-alert-threshold" />
+            </Field>
+            {isPercentComparator(comparator) && (
+              <Field label="Days">
+                <Input type="number" min={1} max={90} className="h-9" value={windowDays} onChange={(e) => setWindowDays(e.target.value)} />
+              </Field>
+            )}
+          </div>
+        )}
+        <Field label="Webhook URL (optional)">
+          <Input type="url" className="h-9" placeholder="https://hooks.slack.com/..." value={webhookUrl} onChange={(e) => setWebhookUrl(e.target.value)} />
+        </Field>
+        <Button type="submit" variant="outline" className="w-full" disabled={isPending || !name.trim()} data-testid="button-create-alert">
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Create Alert
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+function AlertEventRow({ event }: { event: AlertEventWithRule }) {
+  return (
+    <div className="flex items-start gap-3 py-3 border-b border-border/50 last:border-0" data-testid={`alert-event-${event.id}`}>
+      <BellRing className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm">{event.message}</p>
+        <p className="text-xs text-muted-foreground">
+          {event.ruleName} · {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+      {event.webhookStatus !== null && (
+        <Badge
+          variant="outline"
+          className={cn("text-[10px] shrink-0", event.webhookStatus >= 200 && event.webhookStatus < 300 ? "text-green-400" : "text-red-400")}
+          title={event.webhookStatus === 0 ? "Webhook couldn't be reached" : `Webhook responded ${event.webhookStatus}`}
+        >
+          <Webhook className="w-3 h-3 mr-1" />
+          {event.webhookStatus || "failed"}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+export default function Alerts() {
+  const { isCollapsed } = useSidebar();
+  const canEdit = useCanEditPipeline();
+  const { data: rules, isLoading: rulesLoading } = useAlertRules();
+  const { data: events, isLoading: eventsLoading } = useAlertEvents();
+  const { mutate: toggleRule } = useToggleAlertRule();
+  const { mutate: deleteRule } = useDeleteAlertRule();
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar />
+      <main className={`flex-1 p-8 transition-all duration-300 ${isCollapsed ? 'ml-16' : 'ml-64'}`}>
+        <header className="mb-8">
+          <h1 className="text-3xl font-display font-bold mb-2">Alerts</h1>
+          <p className="text-muted-foreground">Get told when a game you follow moves. Rules are checked after each Steam data refresh.</p>
+        </header>
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">Rules</h2>
+            {canEdit && <CreateAlertRuleForm />}
+
+            {rulesLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            ) : rules?.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No alert rules yet.</p>
+            ) : (
+              rules?.map((rule) => (
+                <Card key={rule.id} className="p-4" data-testid={`card-alert-rule-${rule.id}`}>
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <h3 className={cn("font-semibold truncate", !rule.enabled && "text-muted-foreground")}>{rule.name}</h3>
+                      <p className="text-xs text-muted-foreground">{describeRule(rule)}</p>
+                      {rule.webhookUrl && (
+                        <p className="text-xs text-muted-foreground truncate mt-1">
+                          <Webhook className="w-3 h-3 inline mr-1" />
+                          {rule.webhookUrl}
+                        </p>
+                      )}
+                    </div>
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) => toggleRule({ id: rule.id, enabled })}
+                      disabled={!canEdit}
+                      data-testid={`switch-alert-rule-${rule.id}`}
+                    />
+                    {canEdit && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6 text-muted-foreground"
+                        title="Delete rule"
+                        onClick={() => deleteRule(rule.id)}
+                        data-testid={`button-delete-alert-rule-${rule.id}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </Card>
+              ))
+            )}
+          </div>
+
+          <div className="xl:col-span-2 space-y-4">
+            <h2 className="text-xl font-semibold">Recent Alerts</h2>
+            {eventsLoading ? (
+              <div className="flex justify-center py-20">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : events?.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-20 text-muted-foreground border border-dashed border-white/10 rounded-3xl bg-card/20">
+                <BellRing className="w-12 h-12 mb-4 opacity-20" />
+                <p>No alerts have fired yet.</p>
+              </div>
+            ) : (
+              <Card className="px-4">
+                {events?.map((event) => <AlertEventRow key={event.id} event={event} />)}
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,33 +1,95 @@
+import { useState } from "react";
 import { Sidebar, useSidebar } from "@/components/layout/Sidebar";
-import { useSteamTopGames } from "@/hooks/use-steam";
+import { useSteamTopGames, useTrackApp, useUntrackApp } from "@/hooks/use-steam";
 import { useCreateLead } from "@/hooks/use-leads";
+import { useCanEditPipeline } from "@/hooks/use-organizations";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, Plus, Users, Trophy, Building2, TrendingUp, RefreshCw } from "lucide-react";
-import { formatNumber, cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { DueTasksWidget } from "@/components/tasks/DueTasksWidget";
+import { Loader2, Plus, Users, Trophy, Building2, TrendingUp, RefreshCw, X } from "lucide-react";
+import { formatNumber, getReviewScoreColor, cn } from "@/lib/utils";
+import { type TopGameCategory } from "@shared/schema";
 import { z } from "zod";
 import { api } from "@shared/routes";
 
 type TopGamesResponse = z.infer<typeof api.steam.topGames.responses[200]>;
 type TopGame = TopGamesResponse["games"][number];
 
+const CATEGORIES: { value: TopGameCategory; label: string; heading: string; empty: string }[] = [
+  {
+    value: "tracked",
+    label: "Tracked",
+    heading: "Tracked Games by Player Count",
+    empty: "No tracked games yet. Add a Steam app ID to follow it here.",
+  },
+  {
+    value: "most-played",
+    label: "Most played",
+    heading: "Most Played Right Now",
+    empty: "No recent player counts yet. Rankings fill in as leads and tracked games are collected.",
+  },
+  {
+    value: "fastest-growing",
+    label: "Fastest growing",
+    heading: "Fastest Growing This Week",
+    empty: "Not enough snapshots yet to measure growth over the past week.",
+  },
+  {
+    value: "new-releases",
+    label: "New releases",
+    heading: "Top New Releases",
+    empty: "No games released in the last 90 days have been collected yet.",
+  },
+];
+
+function TrackAppForm() {
+  const [appId, setAppId] = useState("");
+  const { mutate: trackApp, isPending } = useTrackApp();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    trackApp(Number(appId), { onSuccess: () => setAppId("") });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2 max-w-sm">
+      <Input
+        type="number"
+        min={1}
+        placeholder="Steam app ID, e.g. 413150"
+        value={appId}
+        onChange={(e) => setAppId(e.target.value)}
+        data-testid="input-track-app"
+      />
+      <Button type="submit" variant="outline" disabled={isPending || !appId} data-testid="button-track-app">
+        {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+        Track
+      </Button>
+    </form>
+  );
+}
+
 export default function Dashboard() {
   const { isCollapsed } = useSidebar();
-  const { data, isLoading, isFetching, refetch } = useSteamTopGames();
+  const [category, setCategory] = useState<TopGameCategory>("tracked");
+  const { data, isLoading, isFetching, refetch } = useSteamTopGames(category);
   const { mutate: addLead, isPending } = useCreateLead();
+  const { mutate: untrackApp } = useUntrackApp();
+  const canEdit = useCanEditPipeline();
+  const current = CATEGORIES.find((c) => c.value === category)!;
 
   const handleAddLead = (game: TopGame) => {
     addLead({
       name: game.developers[0] || game.name,
       steamAppId: game.appid.toString(),
-      status: "new",
-      engine: "Unknown",
       notes: `Added from Dashboard - ${game.name} (${formatNumber(game.playerCount)} players)`,
       metrics: {
-        playerCount: game.playerCount,
+        ccu: game.playerCount,
+        reviews: game.totalReviews,
         reviewScore: game.reviewScore,
-        totalReviews: game.totalReviews,
+        reviewScoreDesc: game.reviewScoreDesc,
       },
     });
   };
@@ -53,6 +115,25 @@ export default function Dashboard() {
           </Button>
         </header>
 
+        <div className="mb-8">
+          <DueTasksWidget />
+        </div>
+
+        <div className="flex rounded-md border border-border/50 p-0.5 w-fit mb-6">
+          {CATEGORIES.map((c) => (
+            <Button
+              key={c.value}
+              variant={category === c.value ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setCategory(c.value)}
+              data-testid={`button-category-${c.value}`}
+            >
+              {c.label}
+            </Button>
+          ))}
+        </div>
+
         {isLoading ? (
           <div className="flex justify-center py-20">
             <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -62,8 +143,16 @@ export default function Dashboard() {
             <div className="xl:col-span-2 space-y-6">
               <div className="flex items-center gap-2 mb-4">
                 <TrendingUp className="w-5 h-5 text-primary" />
-                <h2 className="text-xl font-semibold">Top Games by Player Count</h2>
+                <h2 className="text-xl font-semibold">{current.heading}</h2>
               </div>
+
+              {category === "tracked" && canEdit && <TrackAppForm />}
+
+              {data?.games.length === 0 && (
+                <p className="text-sm text-muted-foreground py-8 text-center border border-dashed border-white/10 rounded-xl">
+                  {current.empty}
+                </p>
+              )}
               
               <div className="space-y-4">
                 {data?.games.map((game, index) => (
@@ -111,14 +200,24 @@ export default function Dashboard() {
                           </div>
                           <p className="text-xs text-muted-foreground">playing now</p>
                         </div>
-                        
-                        {game.reviewScore && (
+
+                        {game.playerGrowth !== undefined && (
                           <div className="text-right">
-                            <div className="flex items-center gap-1 text-yellow-500">
+                            <div className="flex items-center gap-1 text-primary">
+                              <TrendingUp className="w-4 h-4" />
+                              <span className="font-bold" data-testid={`text-player-growth-${game.appid}`}>+{game.playerGrowth}%</span>
+                            </div>
+                            <p className="text-xs text-muted-foreground">this week</p>
+                          </div>
+                        )}
+                        
+                        {game.reviewScore !== undefined && (
+                          <div className="text-right" title={`${formatNumber(game.positiveReviews ?? 0)} positive / ${formatNumber(game.negativeReviews ?? 0)} negative`}>
+                            <div className={cn("flex items-center gap-1", getReviewScoreColor(game.reviewScore))}>
                               <Trophy className="w-4 h-4" />
-                              <span className="font-bold">{game.reviewScore}</span>
+                              <span className="font-bold" data-testid={`text-review-score-${game.appid}`}>{game.reviewScore}%</span>
                             </div>
-                            <p className="text-xs text-muted-foreground">metacritic</p>
+                            <p className="text-xs text-muted-foreground">{game.reviewScoreDesc || 'reviews'}</p>
                           </div>
                         )}
                         
@@ -131,6 +230,18 @@ export default function Dashboard() {
                         >
                           <Plus className="w-4 h-4" />
                         </Button>
+
+                        {category === "tracked" && canEdit && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => untrackApp(game.appid)}
+                            title="Stop tracking"
+                            data-testid={`button-untrack-${game.appid}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </Card>
@@ -4,17 +4,28 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useSteamSearch, useSteamAppDetails } from "@/hooks/use-steam";
+import { DiscoverFilters } from "@/components/discover/DiscoverFilters";
+import { WatchButton } from "@/components/watchlists/WatchButton";
+import { useSteamSearch, useSteamAppDetails, useSteamDiscover, type SteamDiscoverQuery } from "@/hooks/use-steam";
 import { useCreateLead } from "@/hooks/use-leads";
 import { useDebounce } from "@/hooks/use-debounce";
-import { Loader2, Plus, Search, Trophy, Users, Globe, ExternalLink } from "lucide-react";
-import { formatNumber } from "@/lib/utils";
+import { Loader2, Plus, Search, Trophy, Users, Globe, ExternalLink, SlidersHorizontal, ChevronLeft, ChevronRight } from "lucide-react";
+import { formatNumber, getReviewScoreColor, getEngineColor, cn } from "@/lib/utils";
+import { type SteamAppIndexEntry } from "@shared/schema";
+import { format } from "date-fns";
 import { motion, AnimatePresence } from "framer-motion";
 
 export default function Discover() {
   const [searchTerm, setSearchTerm] = useState("");
   const debouncedSearch = useDebounce(searchTerm, 500);
-  const { data: results, isLoading } = useSteamSearch(debouncedSearch);
+  const [page, setPage] = useState(1);
+  const { data: searchPage, isLoading } = useSteamSearch(debouncedSearch, page);
+  const results = searchPage?.results;
+  const pageCount = searchPage ? Math.ceil(searchPage.total / searchPage.limit) : 0;
+  const [mode, setMode] = useState<"search" | "filter">("search");
+  const [filters, setFilters] = useState<SteamDiscoverQuery>({});
+  const debouncedFilters = useDebounce(filters, 400);
+  const { data: indexed, isLoading: isLoadingIndexed, error: indexError } = useSteamDiscover(debouncedFilters, mode === "filter");
   const { isCollapsed } = useSidebar();
 
   return (
@@ -26,13 +37,48 @@ export default function Discover() {
           <p className="text-muted-foreground">Search the Steam database to find high-potential game studios.</p>
         </header>
 
+        <div className="flex rounded-md border border-border/50 p-0.5 w-fit mb-6">
+          <Button
+            variant={mode === "search" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setMode("search")}
+          >
+            <Search className="w-3 h-3 mr-1.5" />
+            Search Steam
+          </Button>
+          <Button
+            variant={mode === "filter" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setMode("filter")}
+            data-testid="button-discover-filter-mode"
+          >
+            <SlidersHorizontal className="w-3 h-3 mr-1.5" />
+            Filter known games
+          </Button>
+        </div>
+
+        {mode === "filter" ? (
+          <IndexedResults
+            filters={filters}
+            onFiltersChange={setFilters}
+            apps={indexed}
+            isLoading={isLoadingIndexed}
+            error={indexError}
+          />
+        ) : (
+        <>
         <div className="relative max-w-2xl mb-12">
           <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground w-5 h-5" />
           <Input 
             className="pl-12 h-14 text-lg bg-card/50 border-white/10 rounded-2xl focus:ring-primary/20"
             placeholder="Search games (e.g. 'Hollow Knight', 'Among Us')..."
             value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setPage(1);
+            }}
           />
         </div>
 
@@ -62,11 +108,189 @@ export default function Discover() {
             </div>
           )}
         </div>
+
+        {searchPage && pageCount > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-8 text-sm text-muted-foreground">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            <span data-testid="text-search-page">
+              Page {page} of {pageCount} · {formatNumber(searchPage.total)} matches
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
+        </>
+        )}
       </main>
     </div>
   );
 }
 
+interface IndexedResultsProps {
+  filters: SteamDiscoverQuery;
+  onFiltersChange: (filters: SteamDiscoverQuery) => void;
+  apps: SteamAppIndexEntry[] | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+function IndexedResults({ filters, onFiltersChange, apps, isLoading, error }: IndexedResultsProps) {
+  return (
+    <div className="space-y-8">
+      <DiscoverFilters value={filters} onChange={onFiltersChange} />
+
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+        <AnimatePresence mode="popLayout">
+          {apps?.map((app) => (
+            <IndexedAppCard key={app.steamAppId} app={app} />
+          ))}
+        </AnimatePresence>
+
+        {!isLoading && apps?.length === 0 && (
+          <div className="col-span-full flex flex-col items-center justify-center py-20 text-muted-foreground border border-dashed border-white/10 rounded-3xl bg-card/20">
+            <SlidersHorizontal className="w-12 h-12 mb-4 opacity-20" />
+            <p>No known games match these filters</p>
+            <p className="text-xs mt-1">Games are added here once they have been looked up or collected</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function IndexedAppCard({ app }: { app: SteamAppIndexEntry }) {
+  const { mutate: addLead, isPending } = useCreateLead();
+
+  const handleAddLead = () => {
+    // No engine here either: detection on create also checks launch files
+    addLead({
+      name: app.developers[0] || app.name,
+      steamAppId: app.steamAppId.toString(),
+      website: app.website,
+      notes: `Discovered via Steam filters for "${app.name}"`,
+      metrics: {
+        followers: app.totalReviews || 0,
+        reviews: app.totalReviews || 0,
+        reviewScore: app.positivePercent ?? undefined,
+        ccu: app.playerCount || 0,
+        releaseDate: app.releaseDate ? format(new Date(app.releaseDate), "d MMM, yyyy") : undefined,
+        comingSoon: app.comingSoon,
+      },
+    });
+  };
+
+  const price = app.isFree ? "Free" : app.priceCents !== null ? `$${(app.priceCents / 100).toFixed(2)}` : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      layout
+    >
+      <Card className="h-full flex flex-col overflow-hidden group hover:border-primary/50 bg-card/40 backdrop-blur-sm" data-testid={`card-indexed-app-${app.steamAppId}`}>
+        <div className="h-32 w-full relative overflow-hidden bg-black/50">
+          {app.headerImage && (
+            <img
+              src={app.headerImage}
+              alt={app.name}
+              className="w-full h-full object-cover opacity-80 group-hover:opacity-100 group-hover:scale-105 transition-all duration-500"
+            />
+          )}
+          <div className="absolute inset-0 bg-gradient-to-t from-card via-transparent to-transparent" />
+        </div>
+
+        <div className="p-5 flex-1 flex flex-col">
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <h3 className="font-display font-bold text-lg leading-tight line-clamp-1">{app.name}</h3>
+            {app.engine !== "Unknown" && (
+              <Badge variant="outline" className={cn("text-[10px] shrink-0", getEngineColor(app.engine))}>
+                {app.engine}
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex-1 space-y-4 mt-2">
+            <div className="text-sm text-muted-foreground">
+              <span className="block text-xs uppercase tracking-wider opacity-60 mb-0.5">Developer</span>
+              {app.developers.join(", ") || "Unknown"}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mt-4">
+              <div className="bg-white/5 rounded-lg p-2 text-center border border-white/5">
+                <Users className="w-4 h-4 mx-auto mb-1 text-primary" />
+                <div className="text-xs text-muted-foreground">Players</div>
+                <div className="font-mono font-bold text-sm">
+                  {app.playerCount ? formatNumber(app.playerCount) : '-'}
+                </div>
+              </div>
+              <div className="bg-white/5 rounded-lg p-2 text-center border border-white/5">
+                <Trophy className="w-4 h-4 mx-auto mb-1 text-yellow-500" />
+                <div className="text-xs text-muted-foreground">Reviews</div>
+                <div className="font-mono font-bold text-sm">
+                  {app.totalReviews ? formatNumber(app.totalReviews) : '-'}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {app.comingSoon ? "Coming soon" : app.releaseDate ? format(new Date(app.releaseDate), "MMM yyyy") : "Release date unknown"}
+                {price && ` · ${price}`}
+              </span>
+              {app.positivePercent !== null && (
+                <span className={cn("font-mono", getReviewScoreColor(app.positivePercent))}>
+                  {app.positivePercent}% positive
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {[...app.genres, ...app.tags.filter((tag) => !app.genres.includes(tag))].slice(0, 6).map((label) => (
+                <Badge key={label} variant="secondary" className="text-[10px] font-normal">
+                  {label}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-6 flex items-center gap-2">
+            <Button className="flex-1" onClick={handleAddLead} disabled={isPending}>
+              {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add to Pipeline
+            </Button>
+            {app.website && (
+              <Button size="icon" variant="outline" asChild>
+                <a href={app.website} target="_blank" rel="noopener noreferrer">
+                  <Globe className="w-4 h-4" />
+                </a>
+              </Button>
+            )}
+            <Button size="icon" variant="ghost" asChild>
+              <a href={`https://store.steampowered.com/app/${app.steamAppId}`} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+}
+
 function GameResultCard({ game }: { game: { appid: number, name: string, logo: string } }) {
   // We fetch details for each card individually to get developer info
   const { data: details, isLoading } = useSteamAppDetails(game.appid);
@@ -75,18 +299,19 @@ function GameResultCard({ game }: { game: { appid: number, name: string, logo: s
   const handleAddLead = () => {
     if (!details) return;
     
-    // Attempt to guess engine or default to Unknown
+    // No engine here: the server detects it from the Steam app
     const leadData = {
       name: details.developers?.[0] || game.name, // Use developer name if avail, else game name
       steamAppId: game.appid.toString(),
       website: details.website,
-      status: "new",
-      engine: "Unknown", 
       notes: `Discovered via Steam search for "${game.name}"`,
       metrics: {
-        followers: details.metrics?.total_reviews || 0, // Using reviews as proxy for popularity
-        reviews: details.metrics?.total_reviews || 0,
-        ccu: details.metrics?.player_count || 0
+        followers: details.reviews?.total || 0, // Using reviews as proxy for popularity
+        reviews: details.reviews?.total || 0,
+        reviewScore: details.reviews?.positivePercent,
+        reviewScoreDesc: details.reviews?.scoreDesc,
+        ccu: details.metrics?.player_count || 0,
+        releaseDate: details.release_date?.date,
       }
     };
     
@@ -138,10 +363,21 @@ function GameResultCard({ game }: { game: { appid: number, name: string, logo: s
                     <Trophy className="w-4 h-4 mx-auto mb-1 text-yellow-500" />
                     <div className="text-xs text-muted-foreground">Reviews</div>
                     <div className="font-mono font-bold text-sm">
-                      {details.metrics?.total_reviews ? formatNumber(details.metrics.total_reviews) : '-'}
+                      {details.reviews ? formatNumber(details.reviews.total) : '-'}
                     </div>
                   </div>
                 </div>
+
+                {details.reviews && (
+                  <div className="flex items-center justify-between text-xs" data-testid={`text-review-summary-${game.appid}`}>
+                    <span className={cn("font-medium", getReviewScoreColor(details.reviews.positivePercent))}>
+                      {details.reviews.scoreDesc}
+                    </span>
+                    <span className="text-muted-foreground font-mono">
+                      {details.reviews.positivePercent}% of {formatNumber(details.reviews.total)}
+                    </span>
+                  </div>
+                )}
               </>
             ) : (
               <p className="text-xs text-muted-foreground italic">Failed to load details</p>
@@ -157,6 +393,7 @@ function GameResultCard({ game }: { game: { appid: number, name: string, logo: s
               {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
               Add to Pipeline
             </Button>
+            <WatchButton steamAppId={game.appid} />
             {details?.website && (
               <Button size="icon" variant="outline" asChild>
                 <a href={details.website} target="_blank" rel="noopener noreferrer">
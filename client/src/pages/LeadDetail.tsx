@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { Sidebar, useSidebar } from "@/components/layout/Sidebar";
+import { useLead, useAssignLead } from "@/hooks/use-leads";
+import { useActiveOrganizationMembers, useCanEditPipeline } from "@/hooks/use-organizations";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useSteamAppDetails } from "@/hooks/use-steam";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { StatCard } from "@/components/StatCard";
+import { MemberAvatar, getMemberName } from "@/components/MemberAvatar";
+import { LeadEditDialog } from "@/components/leads/LeadEditDialog";
+import { LeadContacts } from "@/components/leads/LeadContacts";
+import { LeadTasks } from "@/components/leads/LeadTasks";
+import { LeadTimeline } from "@/components/leads/LeadTimeline";
+import { MetricsHistoryChart } from "@/components/leads/MetricsHistoryChart";
+import { Loader2, ArrowLeft, Globe, Users, Trophy, Tag, Calendar, ExternalLink, Pencil, Link2, Building2 } from "lucide-react";
+import { format } from "date-fns";
+import { formatNumber, getEngineColor, getReviewScoreColor, getStageBadgeStyle, getWebsiteHostname, cn } from "@/lib/utils";
+import { type LeadMetrics } from "@shared/schema";
+
+export default function LeadDetail() {
+  const params = useParams<{ id: string }>();
+  const leadId = Number(params.id);
+  const { data: lead, isLoading, isError } = useLead(leadId);
+  const { data: stages } = usePipelineStages();
+  const appId = Number(lead?.steamAppId) || undefined;
+  const { data: details, isLoading: isLoadingDetails } = useSteamAppDetails(appId);
+  const { data: members } = useActiveOrganizationMembers();
+  const { mutate: assignLead } = useAssignLead();
+  const canEdit = useCanEditPipeline();
+  const [isEditing, setIsEditing] = useState(false);
+  const { toast } = useToast();
+  const { isCollapsed } = useSidebar();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen bg-background items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const stage = stages?.find((s) => s.key === lead?.status);
+  const assignee = members?.find((member) => member.userId === lead?.assigneeId);
+  const metrics = lead?.metrics as LeadMetrics | null;
+  // Live Steam numbers when we have them, otherwise the collector's last refresh
+  const playerCount = details?.metrics?.player_count ?? metrics?.ccu;
+  const totalReviews = details?.reviews?.total ?? metrics?.reviews;
+  const positivePercent = details?.reviews?.positivePercent ?? metrics?.reviewScore;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link Copied", description: "Share it with anyone on your team" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar />
+      <main className={`flex-1 p-8 transition-all duration-300 ${isCollapsed ? 'ml-16' : 'ml-64'}`}>
+        <Link href="/leads" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Pipeline
+        </Link>
+
+        {isError || !lead ? (
+          <div className="text-center py-20 text-muted-foreground">Lead not found</div>
+        ) : (
+          <>
+            {details?.header_image && (
+              <img
+                src={details.header_image}
+                alt={details.name}
+                className="w-full max-h-56 object-cover rounded-xl mb-6 border border-white/5"
+                data-testid="img-lead-header"
+              />
+            )}
+
+            <header className="mb-8 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-2">
+                  <Badge variant="outline" className="text-[10px] border" style={stage ? getStageBadgeStyle(stage.color) : undefined}>
+                    {stage?.label || lead.status}
+                  </Badge>
+                  <Badge variant="outline" className={cn("text-[10px] uppercase tracking-wider font-mono border", getEngineColor(lead.engine || 'Unknown'))}>
+                    {lead.engine || 'Unknown'}
+                  </Badge>
+                </div>
+                <h1 className="text-3xl font-display font-bold mb-2" data-testid="text-lead-name">{lead.name}</h1>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                  {lead.website && (
+                    <a href={lead.website} target="_blank" rel="noreferrer" className="hover:text-primary inline-flex items-center gap-1">
+                      <Globe className="w-4 h-4" />
+                      {getWebsiteHostname(lead.website)}
+                    </a>
+                  )}
+                  {lead.studioId && (
+                    <Link href={`/studios/${lead.studioId}`} className="hover:text-primary inline-flex items-center gap-1">
+                      <Building2 className="w-4 h-4" />
+                      Studio
+                    </Link>
+                  )}
+                  <span className="inline-flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    Added {format(new Date(lead.createdAt || new Date()), 'MMM d, yyyy')}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <div className="flex items-center gap-2 mr-2">
+                  {assignee && <MemberAvatar member={assignee} className="h-7 w-7" />}
+                  <select
+                    className="h-9 rounded-md border border-input bg-background px-3 text-sm disabled:opacity-50"
+                    value={lead.assigneeId ?? ""}
+                    disabled={!canEdit}
+                    onChange={(e) => assignLead({ id: lead.id, assigneeId: e.target.value || null })}
+                    data-testid="select-lead-assignee"
+                  >
+                    <option value="">Unassigned</option>
+                    {members?.filter((member) => member.role !== "viewer" || member.userId === lead.assigneeId).map((member) => (
+                      <option key={member.userId} value={member.userId}>{getMemberName(member)}</option>
+                    ))}
+                  </select>
+                </div>
+                <Button variant="outline" size="sm" onClick={copyLink} data-testid="button-copy-lead-link">
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Copy Link
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} disabled={!canEdit} data-testid="button-edit-lead">
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Edit
+                </Button>
+              </div>
+            </header>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+              <StatCard icon={Users} label="Playing now" value={playerCount !== undefined ? formatNumber(playerCount) : '-'} />
+              <StatCard icon={Trophy} label="Total reviews" value={totalReviews !== undefined ? formatNumber(totalReviews) : '-'} />
+              <StatCard
+                icon={Trophy}
+                label="Positive"
+                value={positivePercent !== undefined ? `${positivePercent}%` : '-'}
+                valueClassName={positivePercent !== undefined ? getReviewScoreColor(positivePercent) : undefined}
+              />
+              <StatCard icon={Tag} label="Price" value={details?.price_overview?.final_formatted ?? (details ? 'Free' : '-')} />
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+              <div className="xl:col-span-2 space-y-8">
+                {appId ? (
+                  <section>
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-xl font-semibold">Steam</h2>
+                      <Button size="sm" variant="ghost" asChild>
+                        <a href={`https://store.steampowered.com/app/${appId}`} target="_blank" rel="noopener noreferrer">
+                          Store page <ExternalLink className="w-3 h-3 ml-1" />
+                        </a>
+                      </Button>
+                    </div>
+                    <Card className="p-6 space-y-6">
+                      {isLoadingDetails ? (
+                        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                      ) : details && (
+                        <div className="space-y-3">
+                          <p className="text-sm text-muted-foreground">{details.short_description}</p>
+                          <div className="flex flex-wrap gap-2">
+                            {details.genres?.map((genre) => (
+                              <Badge key={genre.description} variant="secondary" className="text-xs">{genre.description}</Badge>
+                            ))}
+                          </div>
+                          <dl className="grid grid-cols-2 gap-2 text-sm">
+                            <dt className="text-muted-foreground">Developer</dt>
+                            <dd>{details.developers.join(", ") || '-'}</dd>
+                            <dt className="text-muted-foreground">Publisher</dt>
+                            <dd>{details.publishers.join(", ") || '-'}</dd>
+                            <dt className="text-muted-foreground">Released</dt>
+                            <dd>{details.release_date?.date || '-'}</dd>
+                            {details.reviews && (
+                              <>
+                                <dt className="text-muted-foreground">User reviews</dt>
+                                <dd className={getReviewScoreColor(details.reviews.positivePercent)}>{details.reviews.scoreDesc}</dd>
+                              </>
+                            )}
+                          </dl>
+                        </div>
+                      )}
+                      <MetricsHistoryChart appId={appId} />
+                    </Card>
+                  </section>
+                ) : (
+                  <div className="h-32 border-2 border-dashed border-white/5 rounded-xl flex items-center justify-center text-muted-foreground/50 text-sm">
+                    No Steam app linked to this lead
+                  </div>
+                )}
+
+                <section>
+                  <h2 className="text-xl font-semibold mb-4">Notes</h2>
+                  <Card className="p-6">
+                    {lead.notes ? (
+                      <p className="text-sm whitespace-pre-line">{lead.notes}</p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        No notes yet.{" "}
+                        <button className="text-primary hover:underline" onClick={() => setIsEditing(true)}>Add some</button>
+                      </p>
+                    )}
+                  </Card>
+                </section>
+              </div>
+
+              <div className="space-y-8">
+                <section>
+                  <h2 className="text-xl font-semibold mb-4">Follow-ups</h2>
+                  <Card className="p-6">
+                    <LeadTasks leadId={lead.id} />
+                  </Card>
+                </section>
+
+                <section>
+                  <h2 className="text-xl font-semibold mb-4">Contacts</h2>
+                  <Card className="p-6">
+                    <LeadContacts leadId={lead.id} />
+                  </Card>
+                </section>
+
+                <section>
+                  <h2 className="text-xl font-semibold mb-4">Activity</h2>
+                  <Card className="p-6">
+                    <LeadTimeline lead={lead} />
+                  </Card>
+                </section>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+
+      {lead && (
+        <LeadEditDialog lead={lead} open={isEditing} onOpenChange={setIsEditing} />
+      )}
+    </div>
+  );
+}
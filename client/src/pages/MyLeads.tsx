@@ -1,28 +1,137 @@
-import { useState } from "react";
+import { useState, type DragEvent } from "react";
 import { Sidebar, useSidebar } from "@/components/layout/Sidebar";
-import { useLeads, useDeleteLead } from "@/hooks/use-leads";
+import { useLeads, useDeleteLead, useReorderLeads, useAssignLead, type LeadColumnOrder } from "@/hooks/use-leads";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { LeadEditDialog } from "@/components/leads/LeadEditDialog";
-import { Loader2, MoreHorizontal, Trash2, Globe, Calendar, ExternalLink } from "lucide-react";
+import { LeadMergeDialog } from "@/components/leads/LeadMergeDialog";
+import { LeadImportDialog } from "@/components/leads/LeadImportDialog";
+import { LeadExportDialog } from "@/components/leads/LeadExportDialog";
+import { LeadScoreBadge } from "@/components/leads/LeadScoreBadge";
+import { PipelineStagesDialog } from "@/components/leads/PipelineStagesDialog";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useActiveOrganizationMembers, useCanEditPipeline, useCanManageStages } from "@/hooks/use-organizations";
+import { useTasks, getTaskDueState } from "@/hooks/use-tasks";
+import { useClerkAuth } from "@/hooks/use-clerk-auth";
+import { MemberAvatar, getMemberName } from "@/components/MemberAvatar";
+import { Loader2, MoreHorizontal, Trash2, Globe, Calendar, ExternalLink, Merge, Settings2, Trophy, XCircle, UserCheck, UserX, AlarmClock, Upload, Download } from "lucide-react";
 import { format } from "date-fns";
-import { getEngineColor, STATUS_COLUMNS, cn } from "@/lib/utils";
+import { getEngineColor, getWebsiteHostname, cn } from "@/lib/utils";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { type Lead } from "@shared/schema";
+import { type Lead, type LeadMetrics, type OrganizationMemberProfile } from "@shared/schema";
 import { motion } from "framer-motion";
+import { Link } from "wouter";
 
 export default function MyLeads() {
   const { data: leads, isLoading } = useLeads();
+  const { data: stages, isLoading: isLoadingStages } = usePipelineStages();
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [mergingLead, setMergingLead] = useState<Lead | null>(null);
+  const [isManagingStages, setIsManagingStages] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: string; index: number } | null>(null);
+  const { mutate: reorderLeads } = useReorderLeads();
+  const canEdit = useCanEditPipeline();
+  const canManageStages = useCanManageStages();
+  const { data: members } = useActiveOrganizationMembers();
+  const { user } = useClerkAuth();
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [sortBy, setSortBy] = useState<"score" | "manual">("score");
+  const { data: openTasks } = useTasks();
   const { isCollapsed } = useSidebar();
 
-  if (isLoading) {
+  const overdueLeadIds = new Set(
+    openTasks?.filter((task) => getTaskDueState(task) === "overdue").map((task) => task.leadId)
+  );
+
+  // Viewers can't be assigned leads, so they're left out of the picker
+  const assignableMembers = members?.filter((member) => member.role !== "viewer") ?? [];
+  const allLeadsIn = (status: string) => leads?.filter((lead) => lead.status === status) ?? [];
+  // Unscored leads sink to the bottom; ties keep their manual order
+  const leadsIn = (status: string) => {
+    const visible = allLeadsIn(status).filter((lead) => !onlyMine || lead.assigneeId === user?.id);
+    return sortBy === "score" ? [...visible].sort((a, b) => (b.score ?? -1) - (a.score ?? -1)) : visible;
+  };
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  // Hovering the top half of a card drops before it, the bottom half after it
+  const handleCardDragOver = (e: DragEvent<HTMLDivElement>, status: string, index: number) => {
+    // Sorted by score, a card can only change column, so the column handles it
+    if (draggingId === null || sortBy === "score") return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dropIndex = e.clientY < rect.top + rect.height / 2 ? index : index + 1;
+    if (dropTarget?.status !== status || dropTarget.index !== dropIndex) {
+      setDropTarget({ status, index: dropIndex });
+    }
+  };
+
+  const handleColumnDragOver = (e: DragEvent<HTMLDivElement>, status: string) => {
+    if (draggingId === null) return;
+    e.preventDefault();
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: leadsIn(status).length });
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const lead = leads?.find((l) => l.id === draggingId);
+    const target = dropTarget;
+    endDrag();
+    if (!lead || !target) return;
+
+    if (sortBy === "score") {
+      if (lead.status === target.status) return;
+      reorderLeads([
+        { status: target.status, ids: [...allLeadsIn(target.status).map((l) => l.id), lead.id] },
+        { status: lead.status, ids: allLeadsIn(lead.status).filter((l) => l.id !== lead.id).map((l) => l.id) },
+      ]);
+      return;
+    }
+
+    const visibleIds = leadsIn(target.status).map((l) => l.id);
+    const fromIndex = visibleIds.indexOf(lead.id);
+    // Removing the card from above its drop point shifts that point up by one
+    const index = fromIndex !== -1 && fromIndex < target.index ? target.index - 1 : target.index;
+    if (fromIndex === index) return;
+
+    // With "Assigned to me" on, hidden leads keep their places around the drop point
+    const otherVisibleIds = visibleIds.filter((id) => id !== lead.id);
+    const ids = allLeadsIn(target.status).map((l) => l.id).filter((id) => id !== lead.id);
+    const insertAt = index < otherVisibleIds.length
+      ? ids.indexOf(otherVisibleIds[index])
+      : otherVisibleIds.length > 0 ? ids.indexOf(otherVisibleIds[otherVisibleIds.length - 1]) + 1 : ids.length;
+    ids.splice(insertAt, 0, lead.id);
+
+    const columns: LeadColumnOrder[] = [{ status: target.status, ids }];
+    if (lead.status !== target.status) {
+      columns.push({
+        status: lead.status,
+        ids: allLeadsIn(lead.status).filter((l) => l.id !== lead.id).map((l) => l.id),
+      });
+    }
+    reorderLeads(columns);
+  };
+
+  if (isLoading || isLoadingStages) {
     return (
       <div className="flex min-h-screen bg-background items-center justify-center">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -40,44 +149,131 @@ export default function MyLeads() {
             <p className="text-muted-foreground">Manage your relationships with game studios.</p>
           </div>
           <div className="flex items-center gap-2">
+            <div className="flex rounded-md border border-border/50 p-0.5">
+              <Button
+                variant={onlyMine ? "ghost" : "secondary"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setOnlyMine(false)}
+              >
+                All leads
+              </Button>
+              <Button
+                variant={onlyMine ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setOnlyMine(true)}
+                data-testid="button-filter-assigned-to-me"
+              >
+                Assigned to me
+              </Button>
+            </div>
+            <div className="flex rounded-md border border-border/50 p-0.5">
+              <Button
+                variant={sortBy === "score" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSortBy("score")}
+                data-testid="button-sort-score"
+              >
+                By score
+              </Button>
+              <Button
+                variant={sortBy === "manual" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSortBy("manual")}
+                data-testid="button-sort-manual"
+              >
+                Manual
+              </Button>
+            </div>
             <span className="text-sm text-muted-foreground font-mono bg-secondary px-3 py-1 rounded-full">
               {leads?.length || 0} Total Leads
             </span>
+            <Button variant="outline" size="sm" onClick={() => setIsExporting(true)} data-testid="button-export-leads">
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsImporting(true)} disabled={!canEdit} data-testid="button-import-leads">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsManagingStages(true)} disabled={!canManageStages} data-testid="button-manage-stages">
+              <Settings2 className="w-4 h-4 mr-2" />
+              Stages
+            </Button>
           </div>
         </header>
 
-        <div className="flex gap-6 pb-8 min-w-[1200px]">
-          {STATUS_COLUMNS.map((column) => (
-            <div key={column.id} className="flex-1 min-w-[300px]">
-              <div className="flex items-center justify-between mb-4 px-1">
-                <h3 className="font-medium flex items-center gap-2">
-                  <span className={cn("w-2 h-2 rounded-full", column.color.split(" ")[1].replace("text-", "bg-"))} />
-                  {column.label}
-                </h3>
-                <span className="text-xs text-muted-foreground font-mono">
-                  {leads?.filter(l => l.status === column.id).length || 0}
-                </span>
-              </div>
-              
-              <div className="space-y-4">
-                {leads
-                  ?.filter((lead) => lead.status === column.id)
-                  .map((lead) => (
-                    <LeadCard 
-                      key={lead.id} 
-                      lead={lead} 
-                      onEdit={() => setEditingLead(lead)} 
-                    />
+        <div className="flex gap-6 pb-8" style={{ minWidth: `${(stages?.length || 1) * 300}px` }}>
+          {stages?.map((column) => {
+            const columnLeads = leadsIn(column.key);
+            const isDropColumn = dropTarget?.status === column.key;
+            const dropIndicator = sortBy === "manual" && <div className="h-0.5 -my-2 rounded-full bg-primary" />;
+
+            return (
+              <div key={column.key} className="flex-1 min-w-[300px]">
+                <div className="flex items-center justify-between mb-4 px-1">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: column.color }} />
+                    {column.label}
+                    {column.outcome === 'won' && <Trophy className="w-3 h-3 text-muted-foreground" />}
+                    {column.outcome === 'lost' && <XCircle className="w-3 h-3 text-muted-foreground" />}
+                  </h3>
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {columnLeads.length}
+                  </span>
+                </div>
+                
+                <div
+                  className={cn(
+                    "space-y-4 min-h-32 rounded-xl transition-colors",
+                    isDropColumn && "bg-white/[0.02]"
+                  )}
+                  onDragOver={(e) => handleColumnDragOver(e, column.key)}
+                  onDrop={handleDrop}
+                  data-testid={`column-${column.key}`}
+                >
+                  {columnLeads.map((lead, index) => (
+                    <div key={lead.id}>
+                      {isDropColumn && dropTarget.index === index && dropIndicator}
+                      <div
+                        draggable={canEdit}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", String(lead.id));
+                          setDraggingId(lead.id);
+                        }}
+                        onDragEnd={endDrag}
+                        onDragOver={(e) => handleCardDragOver(e, column.key, index)}
+                        className={cn(canEdit && "cursor-grab active:cursor-grabbing", draggingId === lead.id && "opacity-40")}
+                      >
+                        <LeadCard 
+                          lead={lead} 
+                          assignee={members?.find((member) => member.userId === lead.assigneeId)}
+                          assignableMembers={canEdit ? assignableMembers : []}
+                          hasOverdueTask={overdueLeadIds.has(lead.id)}
+                          onEdit={() => setEditingLead(lead)} 
+                          onMerge={(leads?.length ?? 0) > 1 ? () => setMergingLead(lead) : undefined}
+                        />
+                      </div>
+                    </div>
                   ))}
-                  
-                {leads?.filter((lead) => lead.status === column.id).length === 0 && (
-                  <div className="h-32 border-2 border-dashed border-white/5 rounded-xl flex items-center justify-center text-muted-foreground/30 text-sm">
-                    No leads
-                  </div>
-                )}
+                  {isDropColumn && dropTarget.index === columnLeads.length && columnLeads.length > 0 && dropIndicator}
+                    
+                  {columnLeads.length === 0 && (
+                    <div className={cn(
+                      "h-32 border-2 border-dashed border-white/5 rounded-xl flex items-center justify-center text-muted-foreground/30 text-sm",
+                      isDropColumn && "border-primary/40 text-primary/60"
+                    )}>
+                      {isDropColumn ? "Drop here" : "No leads"}
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </main>
 
@@ -88,13 +284,42 @@ export default function MyLeads() {
           onOpenChange={(open) => !open && setEditingLead(null)} 
         />
       )}
+
+      {stages && (
+        <PipelineStagesDialog
+          stages={stages}
+          leads={leads || []}
+          open={isManagingStages}
+          onOpenChange={setIsManagingStages}
+        />
+      )}
+
+      <LeadImportDialog open={isImporting} onOpenChange={setIsImporting} />
+      <LeadExportDialog open={isExporting} onOpenChange={setIsExporting} />
+
+      {mergingLead && leads && (
+        <LeadMergeDialog
+          source={mergingLead}
+          leads={leads}
+          open={!!mergingLead}
+          onOpenChange={(open) => !open && setMergingLead(null)}
+        />
+      )}
     </div>
   );
 }
 
-function LeadCard({ lead, onEdit }: { lead: Lead, onEdit: () => void }) {
+function LeadCard({ lead, assignee, assignableMembers, hasOverdueTask, onEdit, onMerge }: {
+  lead: Lead,
+  assignee?: OrganizationMemberProfile,
+  assignableMembers: OrganizationMemberProfile[],
+  hasOverdueTask: boolean,
+  onEdit: () => void,
+  onMerge?: () => void,
+}) {
   const { mutate: deleteLead } = useDeleteLead();
-  const metrics = lead.metrics as { ccu?: number, reviews?: number } | null;
+  const { mutate: assignLead } = useAssignLead();
+  const metrics = lead.metrics as LeadMetrics | null;
 
   return (
     <motion.div
@@ -105,9 +330,18 @@ function LeadCard({ lead, onEdit }: { lead: Lead, onEdit: () => void }) {
     >
       <Card className="p-4 bg-card/60 backdrop-blur-sm border-white/5 hover:border-primary/40 group relative overflow-hidden">
         <div className="flex items-start justify-between mb-3">
-          <Badge variant="outline" className={cn("text-[10px] uppercase tracking-wider py-0.5 px-2 font-mono border", getEngineColor(lead.engine || 'Unknown'))}>
-            {lead.engine || 'Unknown'}
-          </Badge>
+          <div className="flex items-center gap-1.5">
+            <Badge variant="outline" className={cn("text-[10px] uppercase tracking-wider py-0.5 px-2 font-mono border", getEngineColor(lead.engine || 'Unknown'))}>
+              {lead.engine || 'Unknown'}
+            </Badge>
+            <LeadScoreBadge lead={lead} />
+            {hasOverdueTask && (
+              <Badge variant="destructive" className="text-[10px] py-0.5 px-1.5" data-testid={`badge-overdue-${lead.id}`}>
+                <AlarmClock className="w-3 h-3 mr-1" />
+                Overdue
+              </Badge>
+            )}
+          </div>
           
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -115,8 +349,13 @@ function LeadCard({ lead, onEdit }: { lead: Lead, onEdit: () => void }) {
                 <MoreHorizontal className="w-4 h-4" />
               </Button>
             </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="w-32">
+            <DropdownMenuContent align="end" className="w-40">
               <DropdownMenuItem onClick={onEdit}>Edit Details</DropdownMenuItem>
+              {lead.studioId && (
+                <DropdownMenuItem asChild>
+                  <Link href={`/studios/${lead.studioId}`}>View Studio</Link>
+                </DropdownMenuItem>
+              )}
               {lead.steamAppId && (
                 <DropdownMenuItem asChild>
                   <a href={`https://store.steampowered.com/app/${lead.steamAppId}`} target="_blank" rel="noreferrer">
@@ -124,6 +363,41 @@ function LeadCard({ lead, onEdit }: { lead: Lead, onEdit: () => void }) {
                   </a>
                 </DropdownMenuItem>
               )}
+              {assignableMembers.length > 0 && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <UserCheck className="w-4 h-4 mr-2" />
+                    Assign to
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-48">
+                    {assignableMembers.map((member) => (
+                      <DropdownMenuItem
+                        key={member.userId}
+                        disabled={member.userId === lead.assigneeId}
+                        onClick={() => assignLead({ id: lead.id, assigneeId: member.userId })}
+                      >
+                        <MemberAvatar member={member} className="h-5 w-5 mr-2" />
+                        <span className="truncate">{getMemberName(member)}</span>
+                      </DropdownMenuItem>
+                    ))}
+                    {lead.assigneeId && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => assignLead({ id: lead.id, assigneeId: null })}>
+                          <UserX className="w-4 h-4 mr-2" />
+                          Unassign
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {onMerge && (
+                <DropdownMenuItem onClick={onMerge}>
+                  <Merge className="w-4 h-4 mr-2" />
+                  Merge into...
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem 
                 className="text-destructive focus:text-destructive"
                 onClick={() => deleteLead(lead.id)}
@@ -142,7 +416,7 @@ function LeadCard({ lead, onEdit }: { lead: Lead, onEdit: () => void }) {
         {lead.website && (
           <a href={lead.website} target="_blank" rel="noreferrer" className="text-xs text-muted-foreground hover:text-primary flex items-center gap-1 mb-4 truncate">
             <Globe className="w-3 h-3" />
-            {new URL(lead.website).hostname}
+            {getWebsiteHostname(lead.website)}
           </a>
         )}
 
@@ -160,12 +434,17 @@ function LeadCard({ lead, onEdit }: { lead: Lead, onEdit: () => void }) {
         )}
 
         <div className="flex items-center justify-between mt-2 pt-3 border-t border-white/5">
-          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
-            <Calendar className="w-3 h-3" />
-            {format(new Date(lead.createdAt || new Date()), 'MMM d')}
+          <div className="flex items-center gap-2">
+            {assignee && <MemberAvatar member={assignee} className="h-6 w-6" />}
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Calendar className="w-3 h-3" />
+              {format(new Date(lead.createdAt || new Date()), 'MMM d')}
+            </div>
           </div>
-          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onEdit}>
-            Details <ExternalLink className="w-3 h-3 ml-1" />
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" asChild>
+            <Link href={`/leads/${lead.id}`} data-testid={`link-lead-detail-${lead.id}`}>
+              Details <ExternalLink className="w-3 h-3 ml-1" />
+            </Link>
           </Button>
         </div>
       </Card>
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { Sidebar, useSidebar } from "@/components/layout/Sidebar";
+import { useStudioOverview, useUpdateStudio } from "@/hooks/use-studios";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { StatCard } from "@/components/StatCard";
+import { Loader2, ArrowLeft, Globe, Users, Trophy, Gamepad2, ExternalLink, Pencil } from "lucide-react";
+import { formatNumber, getEngineColor, getReviewScoreColor, getStageBadgeStyle, cn } from "@/lib/utils";
+import { type Studio as StudioRecord } from "@shared/schema";
+
+export default function Studio() {
+  const params = useParams<{ id: string }>();
+  const studioId = Number(params.id);
+  const { data: overview, isLoading } = useStudioOverview(studioId);
+  const { data: stages } = usePipelineStages();
+  const [isEditing, setIsEditing] = useState(false);
+  const { isCollapsed } = useSidebar();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen bg-background items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const positivePercent = overview && overview.totals.totalReviews > 0
+    ? Math.round((overview.totals.positiveReviews / overview.totals.totalReviews) * 100)
+    : undefined;
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar />
+      <main className={`flex-1 p-8 transition-all duration-300 ${isCollapsed ? 'ml-16' : 'ml-64'}`}>
+        <Link href="/leads" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Pipeline
+        </Link>
+
+        {!overview ? (
+          <div className="text-center py-20 text-muted-foreground">Studio not found</div>
+        ) : (
+          <>
+            <header className="mb-8 flex items-start justify-between">
+              <div>
+                <h1 className="text-3xl font-display font-bold mb-2" data-testid="text-studio-name">{overview.studio.name}</h1>
+                {overview.studio.website ? (
+                  <a href={overview.studio.website} target="_blank" rel="noreferrer" className="text-sm text-muted-foreground hover:text-primary inline-flex items-center gap-1">
+                    <Globe className="w-4 h-4" />
+                    {overview.studio.website}
+                  </a>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No website on file</p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} data-testid="button-edit-studio">
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+            </header>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+              <StatCard icon={Gamepad2} label="Games on Steam" value={overview.games.length.toString()} />
+              <StatCard icon={Users} label="Playing now" value={formatNumber(overview.totals.playerCount)} />
+              <StatCard icon={Trophy} label="Total reviews" value={formatNumber(overview.totals.totalReviews)} />
+              <StatCard
+                icon={Trophy}
+                label="Positive"
+                value={positivePercent !== undefined ? `${positivePercent}%` : '-'}
+                valueClassName={positivePercent !== undefined ? getReviewScoreColor(positivePercent) : undefined}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+              <div className="xl:col-span-2 space-y-4">
+                <h2 className="text-xl font-semibold">Games</h2>
+                {overview.games.length === 0 && (
+                  <div className="h-32 border-2 border-dashed border-white/5 rounded-xl flex items-center justify-center text-muted-foreground/50 text-sm">
+                    No Steam games linked yet
+                  </div>
+                )}
+                {overview.games.map((game) => (
+                  <Card key={game.appid} className="p-4" data-testid={`card-studio-game-${game.appid}`}>
+                    <div className="flex items-center gap-4">
+                      {game.headerImage && (
+                        <img src={game.headerImage} alt={game.name} className="w-24 h-14 object-cover rounded-lg" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-semibold truncate">{game.name}</h3>
+                        {game.releaseDate && <p className="text-xs text-muted-foreground">{game.releaseDate}</p>}
+                      </div>
+                      <div className="text-right">
+                        <div className="flex items-center gap-1 text-green-500">
+                          <Users className="w-4 h-4" />
+                          <span className="font-bold">{formatNumber(game.playerCount)}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">playing now</p>
+                      </div>
+                      {game.reviews && (
+                        <div className="text-right">
+                          <div className={cn("font-bold", getReviewScoreColor(game.reviews.positivePercent))}>
+                            {game.reviews.positivePercent}%
+                          </div>
+                          <p className="text-xs text-muted-foreground">{formatNumber(game.reviews.total)} reviews</p>
+                        </div>
+                      )}
+                      <Button size="icon" variant="ghost" asChild>
+                        <a href={`https://store.steampowered.com/app/${game.appid}`} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+
+              <div className="space-y-4">
+                <h2 className="text-xl font-semibold">Leads</h2>
+                {overview.leads.length === 0 && (
+                  <p className="text-sm text-muted-foreground">This studio isn't in your pipeline yet.</p>
+                )}
+                {overview.leads.map((lead) => {
+                  const stage = stages?.find((s) => s.key === lead.status);
+                  return (
+                    <Card key={lead.id} className="p-4" data-testid={`card-studio-lead-${lead.id}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <h4 className="font-medium truncate">{lead.name}</h4>
+                          {lead.steamAppId && <p className="text-xs text-muted-foreground font-mono">App {lead.steamAppId}</p>}
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <Badge variant="outline" className={cn("text-[10px] font-mono border", getEngineColor(lead.engine || 'Unknown'))}>
+                            {lead.engine || 'Unknown'}
+                          </Badge>
+                          <Badge variant="outline" className="text-[10px] border" style={stage ? getStageBadgeStyle(stage.color) : undefined}>
+                            {stage?.label || lead.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+
+      {overview && (
+        <StudioEditDialog studio={overview.studio} open={isEditing} onOpenChange={setIsEditing} />
+      )}
+    </div>
+  );
+}
+
+function StudioEditDialog({ studio, open, onOpenChange }: {
+  studio: StudioRecord;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { mutate: updateStudio, isPending } = useUpdateStudio();
+  const [website, setWebsite] = useState(studio.website || "");
+  const [appIds, setAppIds] = useState(studio.steamAppIds.join(", "));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const steamAppIds = appIds
+      .split(/[\s,]+/)
+      .map(Number)
+      .filter((id) => Number.isInteger(id) && id > 0);
+
+    updateStudio(
+      { id: studio.id, website: website || null, steamAppIds },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] bg-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">Edit Studio</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Website</label>
+            <Input value={website} onChange={(e) => setWebsite(e.target.value)} placeholder="https://..." />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Steam App IDs</label>
+            <Input value={appIds} onChange={(e) => setAppIds(e.target.value)} placeholder="367520, 1030300" />
+          </div>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
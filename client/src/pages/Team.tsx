@@ -0,0 +1,197 @@
+import { useState, useEffect } from "react";
+import { Sidebar, useSidebar } from "@/components/layout/Sidebar";
+import {
+  useActiveOrganization,
+  useAddOrganizationMember,
+  useOrganizationMembers,
+  useRemoveOrganizationMember,
+  useUpdateOrganization,
+  useUpdateOrganizationMember,
+} from "@/hooks/use-organizations";
+import { useClerkAuth } from "@/hooks/use-clerk-auth";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MemberAvatar, getMemberName } from "@/components/MemberAvatar";
+import { LeadScoringSettings } from "@/components/team/LeadScoringSettings";
+import { Loader2, UserPlus, LogOut, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ORGANIZATION_ROLES, type OrganizationRole } from "@shared/schema";
+
+const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: "Manages members and settings",
+  member: "Works the pipeline",
+  viewer: "Read-only access",
+};
+
+const selectClassName = "flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:opacity-50";
+
+export default function Team() {
+  const { data: organization, isLoading } = useActiveOrganization();
+  const { data: members, isLoading: isLoadingMembers } = useOrganizationMembers(organization?.id);
+  const { user } = useClerkAuth();
+  const { mutate: updateOrganization, isPending: isRenaming } = useUpdateOrganization();
+  const { mutate: addMember, isPending: isAdding } = useAddOrganizationMember();
+  const { mutate: updateMember } = useUpdateOrganizationMember();
+  const { mutate: removeMember } = useRemoveOrganizationMember();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OrganizationRole>("member");
+  const { isCollapsed } = useSidebar();
+
+  useEffect(() => {
+    if (organization) setName(organization.name);
+  }, [organization]);
+
+  if (isLoading || !organization) {
+    return (
+      <div className="flex min-h-screen bg-background items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const isOwner = organization.role === "owner";
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && name !== organization.name) {
+      updateOrganization({ id: organization.id, name });
+    }
+  };
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    addMember({ id: organization.id, email, role }, { onSuccess: () => setEmail("") });
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar />
+      <main className={`flex-1 p-8 transition-all duration-300 ${isCollapsed ? 'ml-16' : 'ml-64'}`}>
+        <header className="mb-8">
+          <h1 className="text-3xl font-display font-bold mb-2">Team</h1>
+          <p className="text-muted-foreground">
+            Everyone in <span className="text-foreground">{organization.name}</span> works the same pipeline.
+          </p>
+        </header>
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+          <div className="xl:col-span-2 space-y-4">
+            <h2 className="text-xl font-semibold">Members</h2>
+            {isLoadingMembers ? (
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            ) : (
+              members?.map((member) => {
+                const isSelf = member.userId === user?.id;
+                return (
+                  <Card key={member.userId} className="p-4" data-testid={`card-member-${member.userId}`}>
+                    <div className="flex items-center gap-4">
+                      <MemberAvatar member={member} className="h-10 w-10" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">
+                          {getMemberName(member)}
+                          {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {member.email}
+                          {member.joinedAt && ` · joined ${format(new Date(member.joinedAt), 'MMM d, yyyy')}`}
+                        </p>
+                      </div>
+                      {isOwner ? (
+                        <select
+                          className={selectClassName}
+                          value={member.role}
+                          onChange={(e) => updateMember({ id: organization.id, userId: member.userId, role: e.target.value as OrganizationRole })}
+                          data-testid={`select-member-role-${member.userId}`}
+                        >
+                          {ORGANIZATION_ROLES.map((r) => (
+                            <option key={r} value={r}>{r}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                      )}
+                      {(isOwner || isSelf) && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="text-muted-foreground hover:text-destructive"
+                          title={isSelf ? "Leave organization" : "Remove member"}
+                          onClick={() => removeMember({ id: organization.id, userId: member.userId })}
+                          data-testid={`button-remove-member-${member.userId}`}
+                        >
+                          {isSelf ? <LogOut className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                        </Button>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+
+          <div className="space-y-8">
+            {isOwner && (
+              <section className="space-y-4">
+                <h2 className="text-xl font-semibold">Add a teammate</h2>
+                <Card className="p-4">
+                  <form onSubmit={handleAddMember} className="space-y-3">
+                    <Input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="teammate@studio.com"
+                      data-testid="input-member-email"
+                    />
+                    <select className={`${selectClassName} w-full`} value={role} onChange={(e) => setRole(e.target.value as OrganizationRole)}>
+                      {ORGANIZATION_ROLES.map((r) => (
+                        <option key={r} value={r}>{r} - {ROLE_DESCRIPTIONS[r]}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground">They need to have signed in once with this email.</p>
+                    <Button type="submit" className="w-full" disabled={isAdding || !email.trim()} data-testid="button-add-member">
+                      {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                      Add Member
+                    </Button>
+                  </form>
+                </Card>
+              </section>
+            )}
+
+            {isOwner && (
+              <section className="space-y-4">
+                <h2 className="text-xl font-semibold">Settings</h2>
+                <Card className="p-4">
+                  <form onSubmit={handleRename} className="space-y-3">
+                    <label className="text-sm font-medium">Organization name</label>
+                    <Input value={name} onChange={(e) => setName(e.target.value)} />
+                    <Button type="submit" variant="outline" className="w-full" disabled={isRenaming || !name.trim() || name === organization.name}>
+                      {isRenaming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Rename
+                    </Button>
+                  </form>
+                </Card>
+              </section>
+            )}
+
+            <section className="space-y-4">
+              <h2 className="text-xl font-semibold">Lead scoring</h2>
+              <LeadScoringSettings organizationId={organization.id} canEdit={isOwner} />
+            </section>
+
+            <section className="space-y-2">
+              <h2 className="text-xl font-semibold">Roles</h2>
+              {ORGANIZATION_ROLES.map((r) => (
+                <p key={r} className="text-sm text-muted-foreground">
+                  <span className="capitalize text-foreground">{r}</span> - {ROLE_DESCRIPTIONS[r]}
+                </p>
+              ))}
+            </section>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Sidebar, useSidebar } from "@/components/layout/Sidebar";
+import { useCreateWatchlist, useDeleteWatchlist, useUnwatchApp, useWatchlists } from "@/hooks/use-watchlists";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Plus, Trash2, Users, X, ExternalLink, Eye } from "lucide-react";
+import { formatNumber, cn } from "@/lib/utils";
+import { format, formatDistanceToNow } from "date-fns";
+import { type WatchlistItemWithApp } from "@shared/schema";
+
+function PlayerChange({ item }: { item: WatchlistItemWithApp }) {
+  if (item.playerCount === null || item.playerCountAtAdd === null) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  const change = item.playerCount - item.playerCountAtAdd;
+  const percent = item.playerCountAtAdd > 0 ? Math.round((change / item.playerCountAtAdd) * 100) : null;
+  return (
+    <span className={cn("font-mono", change > 0 ? "text-green-500" : change < 0 ? "text-red-500" : "text-muted-foreground")}>
+      {change > 0 ? "+" : change < 0 ? "-" : ""}
+      {formatNumber(Math.abs(change))}
+      {percent !== null && ` (${percent > 0 ? "+" : ""}${percent}%)`}
+    </span>
+  );
+}
+
+export default function Watchlist() {
+  const { isCollapsed } = useSidebar();
+  const { data: watchlists, isLoading } = useWatchlists();
+  const { mutate: createWatchlist, isPending: isCreating } = useCreateWatchlist();
+  const { mutate: deleteWatchlist } = useDeleteWatchlist();
+  const { mutate: unwatchApp } = useUnwatchApp();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+
+  const selected = watchlists?.find((list) => list.id === selectedId) ?? watchlists?.[0];
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createWatchlist({ name }, {
+      onSuccess: (watchlist) => {
+        setName("");
+        setSelectedId(watchlist.id);
+      },
+    });
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar />
+      <main className={`flex-1 p-8 transition-all duration-300 ${isCollapsed ? 'ml-16' : 'ml-64'}`}>
+        <header className="mb-8">
+          <h1 className="text-3xl font-display font-bold mb-2">Watchlist</h1>
+          <p className="text-muted-foreground">Games you're keeping an eye on, before they become leads. Only you can see these.</p>
+        </header>
+
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-4 gap-8">
+            <div className="space-y-3">
+              {watchlists?.map((list) => (
+                <button
+                  key={list.id}
+                  onClick={() => setSelectedId(list.id)}
+                  className={cn(
+                    "w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm border border-border/50 hover:bg-secondary/50 transition-colors",
+                    selected?.id === list.id && "bg-secondary"
+                  )}
+                  data-testid={`button-watchlist-${list.id}`}
+                >
+                  <span className="truncate font-medium">{list.name}</span>
+                  <span className="text-xs text-muted-foreground">{list.items.length}</span>
+                </button>
+              ))}
+
+              <form onSubmit={handleCreate} className="flex gap-2">
+                <Input placeholder="New watchlist" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-watchlist-name" />
+                <Button type="submit" size="icon" variant="outline" disabled={isCreating || !name.trim()}>
+                  {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                </Button>
+              </form>
+            </div>
+
+            <div className="xl:col-span-3 space-y-4">
+              {!selected ? (
+                <div className="flex flex-col items-center justify-center py-20 text-muted-foreground border border-dashed border-white/10 rounded-3xl bg-card/20">
+                  <Eye className="w-12 h-12 mb-4 opacity-20" />
+                  <p>Create a watchlist, or use the watch button on Discover.</p>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-semibold">{selected.name}</h2>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-muted-foreground"
+                      onClick={() => deleteWatchlist(selected.id, { onSuccess: () => setSelectedId(null) })}
+                      data-testid="button-delete-watchlist"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete list
+                    </Button>
+                  </div>
+
+                  {selected.items.length === 0 && (
+                    <p className="text-sm text-muted-foreground py-8 text-center border border-dashed border-white/10 rounded-xl">
+                      Nothing on this list yet. Use the watch button on Discover to add games.
+                    </p>
+                  )}
+
+                  {selected.items.map((item) => (
+                    <Card key={item.id} className="p-4 hover-elevate" data-testid={`card-watchlist-item-${item.steamAppId}`}>
+                      <div className="flex items-center gap-4">
+                        {item.headerImage && (
+                          <img src={item.headerImage} alt={item.name ?? ""} className="w-24 h-14 object-cover rounded-lg" />
+                        )}
+
+                        <div className="flex-1 min-w-0">
+                          <h3 className="font-semibold truncate">{item.name ?? `App ${item.steamAppId}`}</h3>
+                          <p className="text-xs text-muted-foreground">
+                            Added {format(new Date(item.addedAt), "d MMM yyyy")}
+                            {item.playerCountAtAdd !== null && ` with ${formatNumber(item.playerCountAtAdd)} players`}
+                          </p>
+                        </div>
+
+                        <div className="text-right">
+                          <div className="flex items-center gap-1 text-green-500 justify-end">
+                            <Users className="w-4 h-4" />
+                            <span className="font-bold">{item.playerCount !== null ? formatNumber(item.playerCount) : "-"}</span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {item.playerCountUpdatedAt
+                              ? `as of ${formatDistanceToNow(new Date(item.playerCountUpdatedAt), { addSuffix: true })}`
+                              : "not collected yet"}
+                          </p>
+                        </div>
+
+                        <div className="text-right w-32">
+                          <div className="text-sm"><PlayerChange item={item} /></div>
+                          <p className="text-xs text-muted-foreground">since added</p>
+                        </div>
+
+                        <Button size="icon" variant="ghost" asChild>
+                          <a href={`https://store.steampowered.com/app/${item.steamAppId}`} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="w-4 h-4" />
+                          </a>
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Remove from watchlist"
+                          onClick={() => unwatchApp({ watchlistId: selected.id, steamAppId: item.steamAppId })}
+                          data-testid={`button-unwatch-${item.steamAppId}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { pool } from "../server/db";
+
+/**
+ * Creates the Postgres extensions the schema's indexes rely on. drizzle-kit
+ * push doesn't manage extensions, so `npm run db:push` runs this first.
+ *
+ *   pg_trgm - trigram index behind the catalog's substring search
+ */
+
+const EXTENSIONS = ["pg_trgm"];
+
+async function main() {
+  for (const extension of EXTENSIONS) {
+    await pool.query(`CREATE EXTENSION IF NOT EXISTS ${extension}`);
+    console.log(`Extension ${extension} is installed`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to create database extensions:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,63 @@
+import { readFile } from "fs/promises";
+import { pool } from "../server/db";
+import { storage } from "../server/storage";
+
+/**
+ * Loads Steam's app list into the search catalog. Takes a dump saved from
+ * ISteamApps/GetAppList ({ applist: { apps: [...] } } or a bare array of
+ * { appid, name }); with no file it downloads the list itself.
+ *
+ *   npm run catalog:import [path/to/applist.json]
+ *
+ * Names are upserted in batches, so re-running it picks up renames and new
+ * apps without touching details already fetched.
+ */
+
+const APP_LIST_URL = "https://api.steampowered.com/ISteamApps/GetAppList/v2/";
+const BATCH_SIZE = 1000;
+
+interface AppListEntry {
+  appid: number;
+  name: string;
+}
+
+async function loadAppList(path: string | undefined): Promise<AppListEntry[]> {
+  let raw: unknown;
+  if (path) {
+    raw = JSON.parse(await readFile(path, "utf-8"));
+  } else {
+    console.log(`Downloading ${APP_LIST_URL}`);
+    const response = await fetch(APP_LIST_URL);
+    if (!response.ok) throw new Error(`App list request failed with ${response.status}`);
+    raw = await response.json();
+  }
+
+  const apps = Array.isArray(raw) ? raw : (raw as { applist?: { apps?: unknown } }).applist?.apps;
+  if (!Array.isArray(apps)) throw new Error("Expected an app list: { applist: { apps: [...] } } or [...]");
+  return apps as AppListEntry[];
+}
+
+async function importCatalog() {
+  const apps = await loadAppList(process.argv[2]);
+
+  // Steam lists some apps twice and many with no name; keep the last named entry
+  const byId = new Map<number, string>();
+  for (const app of apps) {
+    const name = typeof app.name === "string" ? app.name.trim() : "";
+    if (Number.isInteger(app.appid) && name) byId.set(app.appid, name);
+  }
+  const rows = Array.from(byId.entries()).map(([steamAppId, name]) => ({ steamAppId, name }));
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await storage.importSteamCatalogApps(rows.slice(i, i + BATCH_SIZE));
+    console.log(`Imported ${Math.min(i + BATCH_SIZE, rows.length)} / ${rows.length}`);
+  }
+  console.log(`Catalog import done: ${rows.length} apps (${apps.length - rows.length} skipped)`);
+}
+
+importCatalog()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -3,6 +3,7 @@ import { registerRoutes } from "./routes-clerk";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import cookieParser from "cookie-parser";
+import { startJobs } from "./jobs";
 
 const app = express();
 const httpServer = createServer(app);
@@ -15,6 +16,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Room for CSV lead imports, which arrive as a JSON string
+    limit: "5mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -89,5 +92,6 @@ app.use((req, res, next) => {
   const port = parseInt(process.env.PORT || "5000", 10);
   httpServer.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
+    startJobs();
   });
 })();
@@ -0,0 +1,192 @@
+import { storage } from "../storage";
+import { notifyAlertFired } from "../notifications";
+import { isPublicWebhookUrl } from "../webhooks";
+import type { AlertEvent, AlertMetric, AlertRule, SteamAppSnapshot } from "@shared/schema";
+
+/**
+ * Checks every enabled alert rule against the stored Steam snapshots. Runs
+ * right after the collector, so each run sees the snapshots it just took.
+ *
+ * Threshold and "changed" rules fire on the latest snapshot crossing or
+ * differing from the one before it, and only for snapshots newer than the
+ * rule's last evaluation, so a game sitting above a threshold alerts once.
+ * Percentage rules compare the latest snapshot with the first one in the
+ * rule's window and fire at most once per window for each app.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+interface Trigger {
+  message: string;
+  value: string | null;
+  previousValue: string | null;
+}
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  player_count: "players",
+  review_count: "reviews",
+  release_date: "release date",
+  price: "price",
+};
+
+function readMetric(metric: AlertMetric, snapshot: SteamAppSnapshot | undefined): number | string | null {
+  if (!snapshot) return null;
+  switch (metric) {
+    case "player_count":
+      return snapshot.playerCount;
+    case "review_count":
+      return snapshot.totalReviews;
+    case "price":
+      return snapshot.priceCents === null ? null : snapshot.priceCents / 100;
+    case "release_date":
+      return snapshot.releaseDate;
+  }
+}
+
+function formatMetric(metric: AlertMetric, value: number | string): string {
+  if (typeof value === "string") return `"${value}"`;
+  return metric === "price" ? `$${value.toFixed(2)}` : Math.round(value).toLocaleString("en-US");
+}
+
+async function checkRule(
+  rule: AlertRule,
+  appId: number,
+  appName: string,
+  snapshots: SteamAppSnapshot[],
+  now: Date
+): Promise<Trigger | null> {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest || (rule.lastEvaluatedAt && latest.capturedAt <= rule.lastEvaluatedAt)) return null;
+
+  const metric = rule.metric as AlertMetric;
+  const label = METRIC_LABELS[metric];
+  const current = readMetric(metric, latest);
+  const previous = readMetric(metric, snapshots[snapshots.length - 2]);
+  if (current === null) return null;
+
+  const trigger = (message: string, from: number | string | null): Trigger => ({
+    message,
+    value: String(current),
+    previousValue: from === null ? null : String(from),
+  });
+  const threshold = rule.threshold ?? 0;
+
+  switch (rule.comparator) {
+    case "above":
+      if (typeof current !== "number" || current < threshold) return null;
+      if (typeof previous === "number" && previous >= threshold) return null;
+      return trigger(`${appName} ${label} went above ${formatMetric(metric, threshold)} (now ${formatMetric(metric, current)})`, previous);
+    case "below":
+      if (typeof current !== "number" || current >= threshold) return null;
+      if (typeof previous === "number" && previous < threshold) return null;
+      return trigger(`${appName} ${label} fell below ${formatMetric(metric, threshold)} (now ${formatMetric(metric, current)})`, previous);
+    case "changed":
+      if (previous === null || previous === current) return null;
+      return trigger(`${appName} ${label} changed from ${formatMetric(metric, previous)} to ${formatMetric(metric, current)}`, previous);
+    case "increase_pct":
+    case "decrease_pct": {
+      const windowStart = new Date(now.getTime() - rule.windowDays * DAY_MS);
+      const first = readMetric(metric, snapshots.find((snapshot) => snapshot.capturedAt >= windowStart));
+      if (typeof first !== "number" || first === 0 || typeof current !== "number") return null;
+
+      const change = ((current - first) / first) * 100;
+      const rising = rule.comparator === "increase_pct";
+      if ((rising ? change : -change) < threshold) return null;
+      if (await storage.hasAlertEventSince(rule.id, appId, windowStart)) return null;
+
+      const days = `${rule.windowDays} day${rule.windowDays === 1 ? "" : "s"}`;
+      return trigger(
+        `${appName} ${label} ${rising ? "up" : "down"} ${Math.abs(Math.round(change))}% in ${days} (${formatMetric(metric, first)} to ${formatMetric(metric, current)})`,
+        first
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+// Returns the response status, or 0 when the webhook wasn't reached or was refused
+async function sendWebhook(rule: AlertRule, event: AlertEvent): Promise<number> {
+  try {
+    // The host may have been repointed at an internal address since the rule was saved
+    if (!(await isPublicWebhookUrl(rule.webhookUrl!))) {
+      console.warn(`[alerts] Webhook for rule ${rule.id} no longer points at a public address`);
+      return 0;
+    }
+
+    const response = await fetch(rule.webhookUrl!, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        rule: { id: rule.id, name: rule.name, metric: rule.metric, comparator: rule.comparator, threshold: rule.threshold },
+        alert: {
+          id: event.id,
+          steamAppId: event.steamAppId,
+          message: event.message,
+          value: event.value,
+          previousValue: event.previousValue,
+          createdAt: event.createdAt,
+        },
+      }),
+      // A redirect could lead anywhere, including back inside the network
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    return response.status;
+  } catch (error) {
+    console.warn(`[alerts] Webhook for rule ${rule.id} failed`, error);
+    return 0;
+  }
+}
+
+export async function evaluateAlertRules(now = new Date()): Promise<void> {
+  const rules = await storage.getEnabledAlertRules();
+  if (rules.length === 0) return;
+
+  // Enough history for the longest window, and always the snapshot before the latest
+  const lookbackDays = Math.max(2, ...rules.map((rule) => rule.windowDays));
+  const since = new Date(now.getTime() - lookbackDays * DAY_MS);
+  const snapshotsByApp = new Map<number, SteamAppSnapshot[]>();
+  const getSnapshots = async (appId: number) => {
+    if (!snapshotsByApp.has(appId)) snapshotsByApp.set(appId, await storage.getSteamAppSnapshots(appId, since));
+    return snapshotsByApp.get(appId)!;
+  };
+
+  let fired = 0;
+  for (const rule of rules) {
+    try {
+      let appIds: number[];
+      if (rule.scope === "app") {
+        appIds = rule.steamAppId ? [rule.steamAppId] : [];
+      } else if (rule.scope === "leads") {
+        const leads = await storage.getLeads(rule.orgId);
+        appIds = leads.map((lead) => Number(lead.steamAppId)).filter((id) => Number.isInteger(id) && id > 0);
+      } else {
+        const watchlists = rule.createdById ? await storage.getWatchlists(rule.createdById) : [];
+        appIds = watchlists.flatMap((list) => list.items.map((item) => item.steamAppId));
+      }
+      appIds = Array.from(new Set(appIds));
+
+      const apps = await storage.getSteamAppIndexEntries(appIds);
+      for (const appId of appIds) {
+        const appName = apps.find((app) => app.steamAppId === appId)?.name ?? `App ${appId}`;
+        const trigger = await checkRule(rule, appId, appName, await getSnapshots(appId), now);
+        if (!trigger) continue;
+
+        const event = await storage.createAlertEvent({ ruleId: rule.id, orgId: rule.orgId, steamAppId: appId, ...trigger });
+        fired++;
+        if (rule.webhookUrl) {
+          await storage.setAlertEventWebhookStatus(event.id, await sendWebhook(rule, event));
+        }
+        await notifyAlertFired(rule, event);
+      }
+
+      await storage.updateAlertRule(rule.id, { lastEvaluatedAt: now });
+    } catch (error) {
+      console.warn(`[alerts] Failed to evaluate rule ${rule.id}`, error);
+    }
+  }
+
+  console.log(`[alerts] Evaluated ${rules.length} rules, ${fired} alerts`);
+}
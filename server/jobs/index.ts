@@ -0,0 +1,73 @@
+import { collectSteamSnapshots } from "./steam-collector";
+import { evaluateAlertRules } from "./alert-evaluator";
+import { notifyDueTasks } from "./task-reminders";
+
+/**
+ * Minimal in-process job runner for the long-lived Express server.
+ *
+ * Not used by the Vercel functions: serverless instances don't live long
+ * enough to run on a schedule.
+ */
+
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const STARTUP_DELAY_MS = 30 * 1000;
+
+// Unset, empty, non-numeric or negative values fall back to the default
+function minutesFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] || fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function schedule(job: Job): void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than stack runs when a job outlasts its interval
+    if (running) return;
+    running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`[jobs] ${job.name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setTimeout(() => {
+    tick();
+    setInterval(tick, job.intervalMs).unref();
+  }, STARTUP_DELAY_MS).unref();
+}
+
+export function startJobs(): void {
+  const jobs: Job[] = [
+    {
+      name: "steam-collector",
+      intervalMs: minutesFromEnv("STEAM_COLLECTOR_INTERVAL_MINUTES", 30) * 60 * 1000,
+      // Alerts are evaluated against the snapshots the collector just took
+      run: async () => {
+        await collectSteamSnapshots();
+        await evaluateAlertRules();
+      },
+    },
+    {
+      name: "task-reminders",
+      intervalMs: minutesFromEnv("TASK_REMINDER_INTERVAL_MINUTES", 15) * 60 * 1000,
+      run: () => notifyDueTasks(),
+    },
+  ];
+
+  for (const job of jobs) {
+    // An interval of 0 disables the job
+    if (job.intervalMs > 0) {
+      schedule(job);
+      console.log(`[jobs] Scheduled ${job.name} every ${Math.round(job.intervalMs / 60000)} min`);
+    }
+  }
+}
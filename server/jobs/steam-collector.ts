@@ -0,0 +1,123 @@
+import { storage } from "../storage";
+import { steam, recordSteamAppSnapshot, toUserReviews } from "../steam";
+import { ENRICHMENT_REQUESTS, enrichSteamAppIndex, indexSteamApp } from "../steam/app-index";
+import { ENGINE_CONFIDENCE_THRESHOLD } from "../steam/engine-detection";
+import { recordMetricsRefreshed } from "../lead-events";
+import { rescoreLeadsById } from "../lead-scoring";
+import { publishLiveEvent } from "../live-events";
+
+/**
+ * Background refresh of Steam data for every app we care about.
+ *
+ * Each app costs three Steam requests (appdetails, current players, reviews), plus two
+ * more the first time it is seen to fetch its tags and depot files for the Discover
+ * index. When the per-run budget can't cover every app, the remainder is picked up
+ * on the next run, starting where this one stopped, so all apps are refreshed eventually.
+ */
+
+export interface SteamCollectorConfig {
+  requestBudget: number; // Max Steam requests per run
+  requestDelayMs: number; // Pause between consecutive Steam requests
+}
+
+const REQUESTS_PER_APP = 3;
+
+let cursor = 0;
+
+// Unset, non-numeric or negative values fall back to the default
+function countFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] || fallback);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+export function getSteamCollectorConfig(): SteamCollectorConfig {
+  return {
+    requestBudget: countFromEnv("STEAM_COLLECTOR_REQUEST_BUDGET", 200),
+    requestDelayMs: countFromEnv("STEAM_COLLECTOR_REQUEST_DELAY_MS", 1500),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function collectSteamSnapshots(config = getSteamCollectorConfig()): Promise<void> {
+  const [leadAppIds, trackedAppIds, watchedAppIds] = await Promise.all([
+    storage.getLeadSteamAppIds(),
+    storage.getAllTrackedAppIds(),
+    storage.getAllWatchedAppIds(),
+  ]);
+  // Sorted so the cursor points at the same place in the list from one run to the next
+  const appIds = Array.from(new Set([...leadAppIds, ...trackedAppIds, ...watchedAppIds])).sort((a, b) => a - b);
+  if (appIds.length === 0) return;
+
+  const leadApps = new Set(leadAppIds);
+  let requests = 0;
+  let visited = 0;
+  const refreshed: number[] = [];
+  let failed = 0;
+
+  while (visited < appIds.length && requests + REQUESTS_PER_APP <= config.requestBudget) {
+    const appId = appIds[(cursor + visited) % appIds.length];
+    visited++;
+    requests += REQUESTS_PER_APP;
+
+    try {
+      const appData = await steam.appDetails(appId);
+      await sleep(config.requestDelayMs);
+      const playerCount = await steam.currentPlayers(appId);
+      await sleep(config.requestDelayMs);
+      const reviews = await steam.reviews(appId);
+      await sleep(config.requestDelayMs);
+
+      if (!appData) {
+        failed++;
+        continue;
+      }
+
+      await recordSteamAppSnapshot(appData, playerCount, reviews);
+      await indexSteamApp(appData, playerCount, reviews);
+
+      let indexed = await storage.getSteamAppIndexEntry(appId);
+      if (indexed && !indexed.enrichedAt && requests + ENRICHMENT_REQUESTS <= config.requestBudget) {
+        requests += ENRICHMENT_REQUESTS;
+        await enrichSteamAppIndex(appData);
+        await sleep(config.requestDelayMs);
+        indexed = await storage.getSteamAppIndexEntry(appId);
+      }
+
+      if (leadApps.has(appId)) {
+        // Imported leads start out "Unknown"; give them the detected engine once it is confident
+        if (indexed && indexed.engine !== "Unknown" && indexed.engineConfidence >= ENGINE_CONFIDENCE_THRESHOLD) {
+          await storage.fillUnknownLeadEngines(appId, indexed.engine);
+        }
+        const userReviews = toUserReviews(reviews);
+        const metrics = {
+          ...(playerCount !== null && { ccu: playerCount }),
+          ...(userReviews && {
+            reviews: userReviews.total,
+            reviewScore: userReviews.positivePercent,
+            reviewScoreDesc: userReviews.scoreDesc,
+          }),
+          ...(appData.release_date && {
+            releaseDate: appData.release_date.date,
+            comingSoon: appData.release_date.coming_soon,
+          }),
+          refreshedAt: new Date().toISOString(),
+        };
+        const updated = await storage.updateLeadMetricsForSteamApp(appId, metrics);
+        await recordMetricsRefreshed(updated, metrics);
+        await rescoreLeadsById(updated.map((lead) => lead.id));
+      }
+      refreshed.push(appId);
+    } catch (error) {
+      failed++;
+      console.warn(`[steam-collector] Failed to refresh app ${appId}`, error);
+    }
+  }
+
+  cursor = (cursor + visited) % appIds.length;
+  console.log(`[steam-collector] Refreshed ${refreshed.length}/${appIds.length} apps (${failed} failed)`);
+  // Lead metrics come from the same fetches, so clients refetch leads on this too
+  if (refreshed.length > 0) publishLiveEvent({ type: "snapshots", steamAppIds: refreshed });
+}
@@ -0,0 +1,22 @@
+import { storage } from "../storage";
+import { notify } from "../notifications";
+
+/**
+ * Tells each assignee about their open tasks that have come due, once per
+ * task. Tasks created already overdue are reported on the next run.
+ */
+export async function notifyDueTasks(now = new Date()): Promise<void> {
+  const due = await storage.getDueTasksToNotify(now);
+  if (due.length === 0) return;
+
+  await notify(due.map((task) => ({
+    userId: task.assigneeId!,
+    orgId: task.orgId,
+    type: "task_due",
+    title: `Task due: ${task.title}`,
+    body: task.leadName,
+    link: `/leads/${task.leadId}`,
+  })));
+  await storage.setTasksDueNotified(due.map((task) => task.id), now);
+  console.log(`[tasks] Sent ${due.length} due-task reminders`);
+}
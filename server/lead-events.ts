@@ -0,0 +1,78 @@
+import { storage } from "./storage";
+import type { InsertLeadEvent, Lead, LeadMetrics } from "@shared/schema";
+
+// Lead columns whose edits show up on the timeline as field_updated
+const TRACKED_FIELDS = ["name", "website", "engine", "steamAppId", "studioId"] as const;
+
+/**
+ * Events describing how `before` became `after`. Position changes are not
+ * recorded; reordering within a column is board housekeeping, not history.
+ */
+export function diffLeadEvents(before: Lead, after: Lead, userId: string | null): InsertLeadEvent[] {
+  const events: InsertLeadEvent[] = [];
+  const base = { leadId: after.id, userId };
+
+  if (before.status !== after.status) {
+    events.push({ ...base, type: "status_changed", field: "status", oldValue: before.status, newValue: after.status });
+  }
+
+  if ((before.assigneeId ?? null) !== (after.assigneeId ?? null)) {
+    events.push({ ...base, type: "assigned", field: "assigneeId", oldValue: before.assigneeId, newValue: after.assigneeId });
+  }
+
+  if ((before.notes ?? "") !== (after.notes ?? "")) {
+    events.push({ ...base, type: "note", field: "notes", oldValue: before.notes, newValue: after.notes });
+  }
+
+  for (const field of TRACKED_FIELDS) {
+    if ((before[field] ?? null) !== (after[field] ?? null)) {
+      events.push({ ...base, type: "field_updated", field, oldValue: before[field], newValue: after[field] });
+    }
+  }
+
+  return events;
+}
+
+// Timeline writes never fail the change they describe
+async function saveLeadEvents(events: InsertLeadEvent[]): Promise<void> {
+  try {
+    await storage.createLeadEvents(events);
+  } catch (error) {
+    console.error("Failed to record lead events:", error);
+  }
+}
+
+export async function recordLeadCreated(lead: Lead, userId: string): Promise<void> {
+  await saveLeadEvents([{ leadId: lead.id, userId, type: "created", field: "status", newValue: lead.status }]);
+}
+
+export async function recordLeadChanges(before: Lead, after: Lead, userId: string): Promise<void> {
+  await saveLeadEvents(diffLeadEvents(before, after, userId));
+}
+
+export async function recordLeadsChanged(pairs: { before: Lead; after: Lead }[], userId: string): Promise<void> {
+  await saveLeadEvents(pairs.flatMap(({ before, after }) => diffLeadEvents(before, after, userId)));
+}
+
+export async function recordLeadMerged(target: Lead, source: Lead, userId: string): Promise<void> {
+  await saveLeadEvents([{
+    leadId: target.id,
+    userId,
+    type: "merged",
+    oldValue: { id: source.id, name: source.name, status: source.status },
+  }]);
+}
+
+export async function recordMetricsRefreshed(
+  updates: { id: number; previous: LeadMetrics | null }[],
+  metrics: LeadMetrics
+): Promise<void> {
+  await saveLeadEvents(updates.map(({ id, previous }) => ({
+    leadId: id,
+    userId: null,
+    type: "metrics_refreshed",
+    field: "metrics",
+    oldValue: previous ? { ccu: previous.ccu, reviews: previous.reviews, reviewScore: previous.reviewScore } : null,
+    newValue: { ccu: metrics.ccu, reviews: metrics.reviews, reviewScore: metrics.reviewScore },
+  })));
+}
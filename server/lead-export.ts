@@ -0,0 +1,122 @@
+import ExcelJS from "exceljs";
+import type { z } from "zod";
+import { storage } from "./storage";
+import { getStagesForOrganization } from "./pipeline-stages";
+import { api } from "@shared/routes";
+import { toCsv } from "@shared/csv";
+import type { Lead, LeadMetrics, OrganizationMemberProfile, PipelineStage } from "@shared/schema";
+
+export type LeadExportFilters = z.infer<typeof api.leads.export.input>;
+export type LeadExportFormat = LeadExportFilters["format"];
+
+type ExportValue = string | number | null;
+
+// Known metrics first, in a stable order; anything else the jsonb holds follows
+const METRIC_KEYS: (keyof LeadMetrics)[] = ["ccu", "reviews", "reviewScore", "reviewScoreDesc", "followers", "estimatedRevenue", "refreshedAt"];
+
+const CONTENT_TYPES: Record<LeadExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+function filterLeadsForExport(leads: Lead[], filters: LeadExportFilters): Lead[] {
+  return leads.filter((lead) => {
+    if (filters.status && lead.status !== filters.status) return false;
+    if (filters.engine && (lead.engine || "Unknown") !== filters.engine) return false;
+    const createdAt = lead.createdAt ? new Date(lead.createdAt) : null;
+    if (filters.from && (!createdAt || createdAt < filters.from)) return false;
+    if (filters.to && (!createdAt || createdAt > filters.to)) return false;
+    return true;
+  });
+}
+
+/**
+ * One flat record per lead, with stage labels and assignee names resolved and
+ * each metrics key in its own `metrics.<key>` column.
+ */
+function buildLeadExportRecords(
+  leads: Lead[],
+  stages: PipelineStage[],
+  members: OrganizationMemberProfile[]
+): { columns: string[]; records: Record<string, ExportValue>[] } {
+  const metricKeys = [...METRIC_KEYS];
+  leads.forEach((lead) => {
+    Object.keys((lead.metrics as LeadMetrics | null) ?? {}).forEach((key) => {
+      if (!metricKeys.includes(key as keyof LeadMetrics)) metricKeys.push(key as keyof LeadMetrics);
+    });
+  });
+
+  const stageLabel = (key: string) => stages.find((stage) => stage.key === key)?.label ?? key;
+  const memberName = (userId: string | null) => {
+    const member = members.find((m) => m.userId === userId);
+    if (!member) return null;
+    return [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email;
+  };
+
+  const records = leads.map((lead) => {
+    const metrics = (lead.metrics as Record<string, unknown> | null) ?? {};
+    const record: Record<string, ExportValue> = {
+      id: lead.id,
+      name: lead.name,
+      stage: stageLabel(lead.status),
+      status: lead.status,
+      engine: lead.engine,
+      steamAppId: lead.steamAppId,
+      website: lead.website,
+      assignee: memberName(lead.assigneeId),
+      notes: lead.notes,
+      createdAt: lead.createdAt ? new Date(lead.createdAt).toISOString() : null,
+      updatedAt: lead.updatedAt ? new Date(lead.updatedAt).toISOString() : null,
+    };
+    metricKeys.forEach((key) => {
+      const value = metrics[key];
+      record[`metrics.${key}`] = value === undefined || value === null ? null
+        : typeof value === "number" || typeof value === "string" ? value
+        : JSON.stringify(value);
+    });
+    return record;
+  });
+
+  const columns = records.length > 0 ? Object.keys(records[0]) : ["id", "name", "stage", "status"];
+  return { columns, records };
+}
+
+async function renderLeadExport(
+  columns: string[],
+  records: Record<string, ExportValue>[],
+  format: LeadExportFormat
+): Promise<{ body: string | Buffer; contentType: string }> {
+  const table = [columns, ...records.map((record) => columns.map((column) => record[column]))];
+
+  switch (format) {
+    case "json":
+      return { body: JSON.stringify(records, null, 2), contentType: CONTENT_TYPES.json };
+    case "xlsx": {
+      const workbook = new ExcelJS.Workbook();
+      workbook.addWorksheet("Leads").addRows(table);
+      return { body: Buffer.from(await workbook.xlsx.writeBuffer()), contentType: CONTENT_TYPES.xlsx };
+    }
+    default:
+      return { body: toCsv(table), contentType: CONTENT_TYPES.csv };
+  }
+}
+
+/**
+ * The organization's leads matching `filters`, rendered as a downloadable file.
+ */
+export async function exportLeads(
+  orgId: number,
+  filters: LeadExportFilters
+): Promise<{ body: string | Buffer; contentType: string; filename: string }> {
+  const [leads, stages, members] = await Promise.all([
+    storage.getLeads(orgId),
+    getStagesForOrganization(orgId),
+    storage.getOrganizationMembers(orgId),
+  ]);
+  const { columns, records } = buildLeadExportRecords(filterLeadsForExport(leads, filters), stages, members);
+  return {
+    ...(await renderLeadExport(columns, records, filters.format)),
+    filename: `steam-scout-leads-${new Date().toISOString().slice(0, 10)}.${filters.format}`,
+  };
+}
@@ -0,0 +1,184 @@
+import { storage } from "./storage";
+import { findOrCreateStudio, normalizeStudioName } from "./studios";
+import { recordLeadCreated } from "./lead-events";
+import { getStagesForOrganization } from "./pipeline-stages";
+import { rescoreLeads } from "./lead-scoring";
+import { notifyImportFinished } from "./notifications";
+import { parseCsvRecords } from "@shared/csv";
+import {
+  LEAD_ENGINES,
+  LEAD_IMPORT_FIELDS,
+  insertLeadSchema,
+  type InsertLead,
+  type LeadImportMapping,
+  type LeadImportResult,
+  type LeadImportRow,
+  type PipelineStage,
+} from "@shared/schema";
+
+// Keeps one request from tying up the database; bigger sheets can be split
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Returns what's wrong with the file as a whole, before looking at any row:
+ * a mapped column it doesn't have, no rows, or too many of them.
+ */
+export function validateImportFile(csv: string, mapping: LeadImportMapping): { message: string; field: string } | null {
+  const { headers, records } = parseCsvRecords(csv);
+
+  const missing = LEAD_IMPORT_FIELDS.find((field) => mapping[field] && !headers.includes(mapping[field]!));
+  if (missing) {
+    return { message: `Column "${mapping[missing]}" is not in the file`, field: `mapping.${missing}` };
+  }
+  if (records.length === 0) {
+    return { message: "The file has no rows below the header", field: "csv" };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { message: `Import at most ${MAX_IMPORT_ROWS} rows at a time`, field: "csv" };
+  }
+  return null;
+}
+
+// Stages can be given by key ("contacted") or by their label ("Contacted")
+function resolveStatus(value: string, stages: PipelineStage[]): string | undefined {
+  const wanted = value.trim().toLowerCase();
+  return stages.find((stage) => stage.key === wanted || stage.label.toLowerCase() === wanted)?.key;
+}
+
+// Sheets often hold bare domains ("studio.com"); those are read as https
+function normalizeWebsite(value: string): string | undefined {
+  const website = /^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`;
+  try {
+    const url = new URL(website);
+    return (url.protocol === "http:" || url.protocol === "https:") && url.hostname.includes(".") ? website : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readRow(record: Record<string, string>, mapping: LeadImportMapping): Partial<Record<keyof LeadImportMapping, string>> {
+  const values: Partial<Record<keyof LeadImportMapping, string>> = {};
+  for (const field of LEAD_IMPORT_FIELDS) {
+    const header = mapping[field];
+    const value = header ? record[header]?.trim() : undefined;
+    if (value) values[field] = value;
+  }
+  return values;
+}
+
+type PlannedRow = LeadImportRow & { lead?: InsertLead & { status: string } };
+
+/**
+ * Validates every row of `csv` against insertLeadSchema and the organization's
+ * stages, flagging rows that duplicate an existing lead or an earlier row.
+ * Unless `dryRun` is set, the valid rows are then created in file order.
+ * Rows without an engine are stored as "Unknown"; the Steam collector fills
+ * it in once it has detected the app's engine.
+ * Expects a file that passed validateImportFile.
+ */
+export async function importLeads(
+  orgId: number,
+  userId: string,
+  csv: string,
+  mapping: LeadImportMapping,
+  dryRun: boolean
+): Promise<LeadImportResult> {
+  const { records } = parseCsvRecords(csv);
+  const [stages, existing] = await Promise.all([getStagesForOrganization(orgId), storage.getLeads(orgId)]);
+  // Seen names and app ids, so a sheet listing a studio twice only adds it once
+  const byName = new Map(existing.map((lead) => [normalizeStudioName(lead.name), lead.id]));
+  const byAppId = new Map(existing.filter((lead) => lead.steamAppId).map((lead) => [lead.steamAppId!, lead.id]));
+
+  const planned: PlannedRow[] = records.map((record, index) => {
+    const values = readRow(record, mapping);
+    const row: PlannedRow = { row: index + 2, name: values.name ?? "", outcome: "valid", errors: [] };
+
+    const status = values.status ? resolveStatus(values.status, stages) : stages[0].key;
+    if (!status) {
+      row.errors.push({ field: "status", message: `Unknown pipeline stage "${values.status}"` });
+    }
+    if (values.steamAppId && !/^\d+$/.test(values.steamAppId)) {
+      row.errors.push({ field: "steamAppId", message: "Steam app ID must be a number" });
+    }
+
+    if (!values.name) {
+      row.errors.push({ field: "name", message: "Name is required" });
+    }
+    if (values.website) {
+      const website = normalizeWebsite(values.website);
+      if (website) values.website = website;
+      else row.errors.push({ field: "website", message: "Website must be an http(s) address" });
+    }
+    if (values.engine) {
+      const engine = LEAD_ENGINES.find((known) => known.toLowerCase() === values.engine!.toLowerCase());
+      if (engine) values.engine = engine;
+      else row.errors.push({ field: "engine", message: `Unknown engine "${values.engine}"` });
+    }
+
+    const parsed = insertLeadSchema.safeParse({ ...values, name: values.name ?? "", status });
+    if (!parsed.success) {
+      parsed.error.errors.forEach((issue) => {
+        row.errors.push({ field: issue.path.join("."), message: issue.message });
+      });
+    }
+
+    if (row.errors.length > 0 || !parsed.success || !status) {
+      row.outcome = "invalid";
+      return row;
+    }
+
+    const { steamAppId } = parsed.data;
+    const normalizedName = normalizeStudioName(parsed.data.name);
+    const duplicateOf =
+      (steamAppId ? byAppId.get(steamAppId) : undefined) ??
+      (normalizedName ? byName.get(normalizedName) : undefined);
+    if (duplicateOf !== undefined) {
+      row.outcome = "duplicate";
+      if (duplicateOf > 0) row.leadId = duplicateOf;
+      return row;
+    }
+
+    // Rows claimed by this file have no lead id yet
+    if (normalizedName) byName.set(normalizedName, 0);
+    if (steamAppId) byAppId.set(steamAppId, 0);
+    row.lead = { ...parsed.data, status };
+    return row;
+  });
+
+  if (!dryRun) {
+    for (const row of planned) {
+      if (!row.lead) continue;
+      const { lead: input } = row;
+      const studio = await findOrCreateStudio(orgId, input.name, {
+        steamAppId: Number(input.steamAppId) || undefined,
+        website: input.website,
+      });
+      const lead = await storage.createLead({
+        ...input,
+        position: await storage.getNextLeadPosition(orgId, input.status),
+        studioId: studio?.id ?? null,
+        orgId,
+        userId,
+        assigneeId: userId,
+      });
+      await recordLeadCreated(lead, userId);
+      row.outcome = "imported";
+      row.leadId = lead.id;
+    }
+    await rescoreLeads(orgId, planned.flatMap((row) => (row.leadId && row.outcome === "imported" ? [row.leadId] : [])));
+  }
+
+  const rows: LeadImportRow[] = planned.map(({ lead, ...row }) => row);
+  const count = (outcome: LeadImportRow["outcome"]) => rows.filter((row) => row.outcome === outcome).length;
+  const result: LeadImportResult = {
+    dryRun,
+    total: rows.length,
+    imported: count("imported"),
+    valid: count("valid"),
+    duplicates: count("duplicate"),
+    invalid: count("invalid"),
+    rows,
+  };
+  if (!dryRun) await notifyImportFinished(orgId, userId, result);
+  return result;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_LEAD_SCORING, type Lead, type LeadScoringConfig, type PipelineStage } from "@shared/schema";
+import { scoreLead } from "./lead-scoring";
+
+// scoreLead is pure; the rest of the module needs a database
+vi.mock("./storage", () => ({ storage: {} }));
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+
+const STAGES: PipelineStage[] = [
+  { key: "new", label: "New Lead", outcome: "open" },
+  { key: "contacted", label: "Contacted", outcome: "open" },
+  { key: "interested", label: "Interested", outcome: "open" },
+  { key: "closed", label: "Closed", outcome: "won" },
+  { key: "dropped", label: "Dropped", outcome: "lost" },
+].map((stage, position) => ({ ...stage, id: position + 1, userId: null, orgId: 1, color: "#3b82f6", position, createdAt: null }));
+
+function makeLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    id: 1,
+    userId: "user_1",
+    name: "Team Cherry",
+    steamAppId: "367520",
+    website: null,
+    status: "new",
+    position: 0,
+    engine: "Unknown",
+    notes: null,
+    metrics: {},
+    studioId: null,
+    assigneeId: null,
+    score: null,
+    scoreBreakdown: null,
+    orgId: 1,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+// All weight on one factor, so the score is that factor's value
+function only(factor: keyof LeadScoringConfig["weights"]): LeadScoringConfig {
+  const weights = { ccu: 0, reviews: 0, reviewRatio: 0, recency: 0, engine: 0, stage: 0, [factor]: 1 };
+  return { ...DEFAULT_LEAD_SCORING, weights };
+}
+
+function factorOf(lead: Lead, config: LeadScoringConfig, factor: string) {
+  return scoreLead(lead, STAGES, config, NOW).breakdown.factors.find((f) => f.factor === factor)!;
+}
+
+describe("scoreLead", () => {
+  it("scores a lead with no data on the engine doubt alone", () => {
+    const { score, breakdown } = scoreLead(makeLead(), STAGES, DEFAULT_LEAD_SCORING, NOW);
+    // Engine weighs 4 of 14 and an unknown engine rates 0.5
+    expect(score).toBe(14);
+    expect(breakdown.scoredAt).toBe(NOW.toISOString());
+    expect(breakdown.factors.map((f) => f.factor)).toEqual(["ccu", "reviews", "reviewRatio", "recency", "engine", "stage"]);
+  });
+
+  it("tops out at 100", () => {
+    const strong = makeLead({
+      status: "closed",
+      engine: "Unity",
+      metrics: { ccu: 100000, reviews: 500000, reviewScore: 99, releaseDate: "2026-05-01" },
+    });
+    expect(scoreLead(strong, STAGES, DEFAULT_LEAD_SCORING, NOW).score).toBe(100);
+  });
+
+  it("puts players and reviews on a log scale that tops out", () => {
+    expect(scoreLead(makeLead({ metrics: { ccu: 5000 } }), STAGES, only("ccu"), NOW).score).toBe(100);
+    expect(scoreLead(makeLead({ metrics: { ccu: 50 } }), STAGES, only("ccu"), NOW).score).toBe(46);
+    expect(scoreLead(makeLead({ metrics: { reviews: 10000 } }), STAGES, only("reviews"), NOW).score).toBe(100);
+    expect(factorOf(makeLead(), only("ccu"), "ccu").detail).toBe("No player count yet");
+  });
+
+  it("rates the review ratio between the floor and ceiling", () => {
+    const ratio = (reviewScore: number) =>
+      scoreLead(makeLead({ metrics: { reviews: 100, reviewScore } }), STAGES, only("reviewRatio"), NOW).score;
+    expect(ratio(50)).toBe(0);
+    expect(ratio(95)).toBe(100);
+    expect(ratio(72.5)).toBe(50);
+    // A score without reviews behind it means nothing
+    expect(scoreLead(makeLead({ metrics: { reviews: 0, reviewScore: 90 } }), STAGES, only("reviewRatio"), NOW).score).toBe(0);
+  });
+
+  it("fades recency out between one and five years", () => {
+    const recency = (metrics: Lead["metrics"]) => scoreLead(makeLead({ metrics }), STAGES, only("recency"), NOW).score;
+    expect(recency({ comingSoon: true })).toBe(100);
+    expect(recency({ releaseDate: "2025-12-01" })).toBe(100);
+    expect(recency({ releaseDate: "2023-06-01" })).toBe(50);
+    expect(recency({ releaseDate: "2019-01-01" })).toBe(0);
+    expect(recency({ releaseDate: "not a date" })).toBe(0);
+  });
+
+  it("matches the engine against the target engines", () => {
+    const config = { ...only("engine"), targetEngines: ["Godot" as const] };
+    expect(scoreLead(makeLead({ engine: "Godot" }), STAGES, config, NOW).score).toBe(100);
+    expect(scoreLead(makeLead({ engine: "Unity" }), STAGES, config, NOW).score).toBe(0);
+    expect(scoreLead(makeLead({ engine: null }), STAGES, config, NOW).score).toBe(50);
+  });
+
+  it("ranks open stages by position, won at the top and lost at the bottom", () => {
+    const stage = (status: string) => scoreLead(makeLead({ status }), STAGES, only("stage"), NOW).score;
+    expect(stage("new")).toBe(0);
+    expect(stage("contacted")).toBe(50);
+    expect(stage("interested")).toBe(100);
+    expect(stage("closed")).toBe(100);
+    expect(stage("dropped")).toBe(0);
+    expect(factorOf(makeLead({ status: "gone" }), only("stage"), "stage").detail).toBe('In unknown stage "gone"');
+  });
+
+  it("splits the score across factors by weight", () => {
+    const config: LeadScoringConfig = {
+      ...DEFAULT_LEAD_SCORING,
+      weights: { ccu: 0, reviews: 0, reviewRatio: 0, recency: 1, engine: 3, stage: 0 },
+    };
+    const { score, breakdown } = scoreLead(makeLead({ engine: "Unity", metrics: { comingSoon: true } }), STAGES, config, NOW);
+    expect(score).toBe(100);
+    expect(breakdown.factors.find((f) => f.factor === "engine")!.points).toBe(75);
+    expect(breakdown.factors.find((f) => f.factor === "recency")!.points).toBe(25);
+  });
+});
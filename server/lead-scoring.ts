@@ -0,0 +1,179 @@
+import { storage } from "./storage";
+import { getStagesForOrganization } from "./pipeline-stages";
+import {
+  DEFAULT_LEAD_SCORING,
+  LEAD_SCORE_FACTORS,
+  leadScoringConfigSchema,
+  type Lead,
+  type LeadMetrics,
+  type LeadScoreBreakdown,
+  type LeadScoreFactor,
+  type LeadScoreFactorResult,
+  type LeadScoringConfig,
+  type PipelineStage,
+} from "@shared/schema";
+
+// Player and review counts score on a log scale, reaching full marks here
+const FULL_SCORE_CCU = 5000;
+const FULL_SCORE_REVIEWS = 10000;
+
+// Review ratios at or below the floor score nothing, at or above the ceiling full marks
+const REVIEW_RATIO_FLOOR = 50;
+const REVIEW_RATIO_CEILING = 95;
+
+// Released within RECENT_MONTHS scores full marks, fading to nothing at STALE_MONTHS
+const RECENT_MONTHS = 12;
+const STALE_MONTHS = 60;
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+type FactorScore = Pick<LeadScoreFactorResult, "value" | "detail">;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function logScale(value: number, full: number): number {
+  return clamp01(Math.log10(value + 1) / Math.log10(full + 1));
+}
+
+function scoreRecency(metrics: LeadMetrics, now: Date): FactorScore {
+  if (metrics.comingSoon) return { value: 1, detail: "Not released yet" };
+
+  const released = metrics.releaseDate ? new Date(metrics.releaseDate) : null;
+  if (!released || isNaN(released.getTime())) return { value: 0, detail: "Release date unknown" };
+
+  const months = Math.max(0, (now.getTime() - released.getTime()) / MONTH_MS);
+  const value = months <= RECENT_MONTHS ? 1 : clamp01((STALE_MONTHS - months) / (STALE_MONTHS - RECENT_MONTHS));
+  return { value, detail: months < 1 ? "Released this month" : `Released ${Math.round(months)} months ago` };
+}
+
+// Later open stages score higher; won leads score full marks and lost ones nothing
+function scoreStage(status: string, stages: PipelineStage[]): FactorScore {
+  const stage = stages.find((s) => s.key === status);
+  if (!stage) return { value: 0, detail: `In unknown stage "${status}"` };
+  if (stage.outcome === "won") return { value: 1, detail: `Won ("${stage.label}")` };
+  if (stage.outcome === "lost") return { value: 0, detail: `Lost ("${stage.label}")` };
+
+  const open = stages.filter((s) => s.outcome === "open");
+  const index = open.findIndex((s) => s.key === status);
+  return { value: open.length > 1 ? index / (open.length - 1) : 0, detail: `In "${stage.label}"` };
+}
+
+function scoreFactor(
+  factor: LeadScoreFactor,
+  lead: Lead,
+  stages: PipelineStage[],
+  config: LeadScoringConfig,
+  now: Date
+): FactorScore {
+  const metrics = (lead.metrics as LeadMetrics | null) ?? {};
+
+  switch (factor) {
+    case "ccu":
+      return metrics.ccu === undefined
+        ? { value: 0, detail: "No player count yet" }
+        : { value: logScale(metrics.ccu, FULL_SCORE_CCU), detail: `${metrics.ccu.toLocaleString("en-US")} players online` };
+    case "reviews":
+      return metrics.reviews === undefined
+        ? { value: 0, detail: "No reviews yet" }
+        : { value: logScale(metrics.reviews, FULL_SCORE_REVIEWS), detail: `${metrics.reviews.toLocaleString("en-US")} reviews` };
+    case "reviewRatio":
+      return metrics.reviewScore === undefined || !metrics.reviews
+        ? { value: 0, detail: "No review score yet" }
+        : {
+            value: clamp01((metrics.reviewScore - REVIEW_RATIO_FLOOR) / (REVIEW_RATIO_CEILING - REVIEW_RATIO_FLOOR)),
+            detail: `${metrics.reviewScore}% positive`,
+          };
+    case "recency":
+      return scoreRecency(metrics, now);
+    case "engine": {
+      const engine = lead.engine || "Unknown";
+      // An unknown engine might still be a match, so it isn't ruled out
+      if (engine === "Unknown") return { value: 0.5, detail: "Engine unknown" };
+      return (config.targetEngines as string[]).includes(engine)
+        ? { value: 1, detail: `Built with ${engine}` }
+        : { value: 0, detail: `${engine} is not a target engine` };
+    }
+    case "stage":
+      return scoreStage(lead.status, stages);
+  }
+}
+
+/**
+ * Scores a lead from 0 to 100 as the weighted average of its factors. Each
+ * factor is rated 0-1 on its own; missing data rates 0.
+ */
+export function scoreLead(
+  lead: Lead,
+  stages: PipelineStage[],
+  config: LeadScoringConfig,
+  now = new Date()
+): { score: number; breakdown: LeadScoreBreakdown } {
+  const totalWeight = LEAD_SCORE_FACTORS.reduce((sum, factor) => sum + config.weights[factor], 0);
+
+  const factors = LEAD_SCORE_FACTORS.map((factor) => {
+    const weight = config.weights[factor];
+    const { value, detail } = scoreFactor(factor, lead, stages, config, now);
+    const points = totalWeight > 0 ? (weight / totalWeight) * value * 100 : 0;
+    return { factor, weight, value: Math.round(value * 100) / 100, points, detail };
+  });
+
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0));
+  return {
+    score,
+    breakdown: {
+      factors: factors.map((factor) => ({ ...factor, points: Math.round(factor.points * 10) / 10 })),
+      scoredAt: now.toISOString(),
+    },
+  };
+}
+
+// The organization's weights, or the defaults when none are saved
+export async function getScoringConfig(orgId: number): Promise<LeadScoringConfig> {
+  const organization = await storage.getOrganization(orgId);
+  const parsed = leadScoringConfigSchema.safeParse(organization?.scoringConfig);
+  return parsed.success ? parsed.data : DEFAULT_LEAD_SCORING;
+}
+
+/**
+ * Recomputes and stores scores for the organization's leads, or only those in
+ * `leadIds`. Leads whose factors haven't changed are not written. Returns the
+ * leads as stored afterwards.
+ */
+export async function rescoreLeads(orgId: number, leadIds?: number[]): Promise<Lead[]> {
+  const [leads, stages, config] = await Promise.all([
+    storage.getLeads(orgId),
+    getStagesForOrganization(orgId),
+    getScoringConfig(orgId),
+  ]);
+
+  const scored: Lead[] = [];
+  for (const lead of leads) {
+    if (leadIds && !leadIds.includes(lead.id)) continue;
+
+    const { score, breakdown } = scoreLead(lead, stages, config);
+    const previous = lead.scoreBreakdown as LeadScoreBreakdown | null;
+    const unchanged = lead.score === score && JSON.stringify(previous?.factors) === JSON.stringify(breakdown.factors);
+    scored.push(unchanged ? lead : await storage.setLeadScore(lead.id, score, breakdown));
+  }
+  return scored;
+}
+
+// Single-lead form of rescoreLeads, for handlers that respond with the lead
+export async function rescoreLead(lead: Lead): Promise<Lead> {
+  if (lead.orgId === null) return lead;
+  const [scored] = await rescoreLeads(lead.orgId, [lead.id]);
+  return scored ?? lead;
+}
+
+/**
+ * Rescores leads that may belong to different organizations, such as every
+ * lead tracking a Steam app the collector just refreshed.
+ */
+export async function rescoreLeadsById(leadIds: number[]): Promise<void> {
+  const leads = await Promise.all(leadIds.map((id) => storage.getLead(id)));
+  const orgIds = Array.from(new Set(leads.map((lead) => lead?.orgId).filter((orgId): orgId is number => !!orgId)));
+  for (const orgId of orgIds) {
+    await rescoreLeads(orgId, leadIds);
+  }
+}
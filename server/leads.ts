@@ -0,0 +1,76 @@
+import { storage } from "./storage";
+import { normalizeStudioName } from "./studios";
+import { ENGINE_CONFIDENCE_THRESHOLD, detectAppEngine } from "./steam/engine-detection";
+import type { InsertLead, Lead, LeadMetrics, UpdateLeadRequest } from "@shared/schema";
+
+/**
+ * Returns the organization's existing lead for the same Steam app or the same
+ * studio (by normalized name), if there is one.
+ */
+export async function findDuplicateLead(
+  orgId: number,
+  candidate: Pick<InsertLead, "name" | "steamAppId">,
+  excludeId?: number
+): Promise<Lead | undefined> {
+  const normalizedName = normalizeStudioName(candidate.name);
+  const existing = await storage.getLeads(orgId);
+
+  return existing.find((lead) =>
+    lead.id !== excludeId && (
+      (!!candidate.steamAppId && lead.steamAppId === candidate.steamAppId) ||
+      (!!normalizedName && normalizeStudioName(lead.name) === normalizedName)
+    )
+  );
+}
+
+/**
+ * The engine to store on a new lead. One the user picked is kept; otherwise
+ * it is detected from the Steam app, falling back to "Unknown" when detection
+ * is unsure or Steam can't be reached.
+ */
+export async function resolveLeadEngine(
+  candidate: Pick<InsertLead, "engine" | "steamAppId">
+): Promise<string> {
+  if (candidate.engine && candidate.engine !== "Unknown") return candidate.engine;
+
+  const appId = Number(candidate.steamAppId);
+  if (!appId) return "Unknown";
+
+  try {
+    const detection = await detectAppEngine(appId);
+    return detection.confidence >= ENGINE_CONFIDENCE_THRESHOLD ? detection.engine : "Unknown";
+  } catch (error) {
+    console.warn(`Engine detection failed for app ${appId}`, error);
+    return "Unknown";
+  }
+}
+
+function mergeMetrics(target: LeadMetrics | null, source: LeadMetrics | null): LeadMetrics | null {
+  if (!target && !source) return null;
+  if (!target || !source) return target ?? source;
+
+  // The more recently refreshed side wins; the other only fills gaps
+  const sourceIsNewer = (source.refreshedAt ?? "") > (target.refreshedAt ?? "");
+  return sourceIsNewer ? { ...target, ...source } : { ...source, ...target };
+}
+
+function mergeNotes(target: Lead, source: Lead): string | null {
+  if (!source.notes) return target.notes;
+  if (!target.notes) return source.notes;
+  return `${target.notes}\n\n--- Merged from "${source.name}" ---\n${source.notes}`;
+}
+
+/**
+ * Field-level result of folding `source` into `target`. The target's own
+ * values win; the source fills anything the target is missing.
+ */
+export function buildMergedLead(target: Lead, source: Lead): UpdateLeadRequest {
+  return {
+    steamAppId: target.steamAppId ?? source.steamAppId,
+    website: target.website || source.website,
+    engine: target.engine && target.engine !== "Unknown" ? target.engine : source.engine,
+    notes: mergeNotes(target, source),
+    metrics: mergeMetrics(target.metrics as LeadMetrics | null, source.metrics as LeadMetrics | null),
+    studioId: target.studioId ?? source.studioId,
+  };
+}
@@ -0,0 +1,23 @@
+import { EventEmitter } from "events";
+import type { LiveEvent } from "@shared/schema";
+
+/**
+ * In-process bus behind the live updates stream. Only reaches clients
+ * connected to this server process, so events published from the Vercel
+ * functions go nowhere.
+ */
+const bus = new EventEmitter();
+// One listener per open stream
+bus.setMaxListeners(0);
+
+export function publishLiveEvent(event: LiveEvent): void {
+  bus.emit("event", event);
+}
+
+// Returns the unsubscribe function
+export function subscribeLiveEvents(listener: (event: LiveEvent) => void): () => void {
+  bus.on("event", listener);
+  return () => {
+    bus.off("event", listener);
+  };
+}
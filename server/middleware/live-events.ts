@@ -0,0 +1,21 @@
+import type { Request, Response, NextFunction } from 'express';
+import { publishLiveEvent } from '../live-events';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Mounted on the pipeline routes (leads, contacts, tasks, stages). Once a
+ * write there succeeds, teammates' open tabs are told to refetch the
+ * organization's pipeline.
+ */
+export function publishPipelineChanges(req: Request, res: Response, next: NextFunction): void {
+  if (!READ_METHODS.includes(req.method)) {
+    res.on('finish', () => {
+      // req.org is only set once requireOrg has run, so rejected requests publish nothing
+      if (req.org && res.statusCode >= 200 && res.statusCode < 300) {
+        publishLiveEvent({ type: 'leads', orgId: req.org.id });
+      }
+    });
+  }
+  next();
+}
@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { OrganizationRole, OrganizationWithRole } from '@shared/schema';
+import { ACTIVE_ORG_COOKIE, hasOrganizationRole, resolveActiveOrganization } from '../organizations';
+
+// Extend Express Request with the organization the user is acting in
+declare global {
+  namespace Express {
+    interface Request {
+      org?: OrganizationWithRole;
+    }
+  }
+}
+
+/**
+ * Resolves the active organization for an authenticated request (run after
+ * requireAuth) and rejects users whose role there is below `minRole`.
+ */
+export function requireOrg(minRole: OrganizationRole = 'viewer') {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const requestedId = Number(req.cookies?.[ACTIVE_ORG_COOKIE]) || undefined;
+      const org = await resolveActiveOrganization(req.auth!.userId, requestedId);
+
+      if (!hasOrganizationRole(org.role, minRole)) {
+        res.status(403).json({
+          message: `This requires the ${minRole} role in ${org.name}`,
+          code: 'INSUFFICIENT_ROLE',
+        });
+        return;
+      }
+
+      req.org = org;
+      next();
+    } catch (error) {
+      console.error('Organization resolution error:', error);
+      res.status(500).json({ message: 'Failed to resolve organization' });
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import { storage } from "./storage";
+import { publishLiveEvent } from "./live-events";
+import type { AlertEvent, AlertRule, InsertNotification, Lead, LeadImportResult, Task } from "@shared/schema";
+
+// Notifications never fail the change they describe
+export async function notify(notifications: InsertNotification[]): Promise<void> {
+  try {
+    await storage.createNotifications(notifications);
+    const userIds = Array.from(new Set(notifications.map((notification) => notification.userId)));
+    userIds.forEach((userId) => publishLiveEvent({ type: "notifications", userId }));
+  } catch (error) {
+    console.error("Failed to create notifications:", error);
+  }
+}
+
+// Nobody is told about work they handed themselves
+export async function notifyLeadAssigned(lead: Lead, actorId: string): Promise<void> {
+  if (!lead.assigneeId || lead.assigneeId === actorId) return;
+  await notify([{
+    userId: lead.assigneeId,
+    orgId: lead.orgId,
+    type: "assignment",
+    title: "Lead assigned to you",
+    body: lead.name,
+    link: `/leads/${lead.id}`,
+  }]);
+}
+
+export async function notifyTaskAssigned(task: Task, leadName: string, actorId: string): Promise<void> {
+  if (!task.assigneeId || task.assigneeId === actorId) return;
+  await notify([{
+    userId: task.assigneeId,
+    orgId: task.orgId,
+    type: "assignment",
+    title: `Task assigned to you: ${task.title}`,
+    body: leadName,
+    link: `/leads/${task.leadId}`,
+  }]);
+}
+
+export async function notifyImportFinished(orgId: number, userId: string, result: LeadImportResult): Promise<void> {
+  const skipped = result.duplicates + result.invalid;
+  await notify([{
+    userId,
+    orgId,
+    type: "import",
+    title: `Imported ${result.imported} of ${result.total} leads`,
+    body: skipped > 0 ? `${result.duplicates} duplicates and ${result.invalid} invalid rows were skipped` : null,
+    link: "/leads",
+  }]);
+}
+
+// Alerts go to whoever created the rule; the rest of the team sees them in the feed
+export async function notifyAlertFired(rule: AlertRule, event: AlertEvent): Promise<void> {
+  if (!rule.createdById) return;
+  await notify([{
+    userId: rule.createdById,
+    orgId: rule.orgId,
+    type: "alert",
+    title: rule.name,
+    body: event.message,
+    link: "/alerts",
+  }]);
+}
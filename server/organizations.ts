@@ -0,0 +1,49 @@
+import { storage } from "./storage";
+import type { OrganizationRole, OrganizationWithRole } from "@shared/schema";
+
+// Cookie holding the organization the user last switched to
+export const ACTIVE_ORG_COOKIE = "active_org";
+
+const ROLE_RANK: Record<OrganizationRole, number> = { viewer: 0, member: 1, owner: 2 };
+
+export function hasOrganizationRole(role: OrganizationRole, minRole: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+// Viewers can't work leads, so they can't be assigned leads or tasks either
+export async function isAssignableMember(orgId: number, userId: string): Promise<boolean> {
+  const membership = await storage.getOrganizationMembership(orgId, userId);
+  return !!membership && hasOrganizationRole(membership.role as OrganizationRole, "member");
+}
+
+// Concurrent first requests from one user would otherwise each create an org
+const pendingPersonalOrgs = new Map<string, Promise<OrganizationWithRole>>();
+
+async function createPersonalOrganization(userId: string): Promise<OrganizationWithRole> {
+  const organization = await storage.createOrganization({ name: "Personal" }, userId);
+  // Leads and stages from before organizations existed move into it
+  await storage.claimLegacyRecords(userId, organization.id);
+  return { ...organization, role: "owner" };
+}
+
+/**
+ * The organization a request acts in: the requested one if the user belongs
+ * to it, otherwise their oldest membership. Users without any membership get
+ * a personal organization on the spot.
+ */
+export async function resolveActiveOrganization(
+  userId: string,
+  requestedId?: number
+): Promise<OrganizationWithRole> {
+  const organizations = await storage.getOrganizationsForUser(userId);
+  if (organizations.length > 0) {
+    return organizations.find((org) => org.id === requestedId) ?? organizations[0];
+  }
+
+  let pending = pendingPersonalOrgs.get(userId);
+  if (!pending) {
+    pending = createPersonalOrganization(userId).finally(() => pendingPersonalOrgs.delete(userId));
+    pendingPersonalOrgs.set(userId, pending);
+  }
+  return await pending;
+}
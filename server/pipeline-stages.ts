@@ -0,0 +1,30 @@
+import { storage } from "./storage";
+import { DEFAULT_PIPELINE_STAGES, type PipelineStage } from "@shared/schema";
+
+/**
+ * The organization's stages in board order, seeding the defaults on first use
+ * so existing leads (new/contacted/interested/closed) keep a column to live in.
+ */
+export async function getStagesForOrganization(orgId: number): Promise<PipelineStage[]> {
+  const stages = await storage.getPipelineStages(orgId);
+  if (stages.length > 0) return stages;
+
+  await storage.createPipelineStages(orgId, DEFAULT_PIPELINE_STAGES);
+  return await storage.getPipelineStages(orgId);
+}
+
+/**
+ * Returns an error message when `status` is not one of the organization's stage keys.
+ */
+export async function validateLeadStatus(orgId: number, status: string): Promise<string | null> {
+  const stages = await getStagesForOrganization(orgId);
+  return stages.some((stage) => stage.key === status)
+    ? null
+    : `Unknown pipeline stage "${status}"`;
+}
+
+// First stage on the board; where leads land when no status is given
+export async function getDefaultLeadStatus(orgId: number): Promise<string> {
+  const [first] = await getStagesForOrganization(orgId);
+  return first.key;
+}
@@ -1,12 +1,31 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
 import { z } from "zod";
 import { requireAuth } from "./middleware/clerk-auth";
+import { requireOrg } from "./middleware/organization";
+import { publishPipelineChanges } from "./middleware/live-events";
 import { apiRateLimiter, readRateLimiter, writeRateLimiter, steamApiRateLimiter } from "./middleware/rate-limiter";
-import fetch from "node-fetch";
 import { createClerkClient } from '@clerk/backend';
+import { steam, toSteamAppDetails, recordSteamAppSnapshot } from "./steam";
+import { fetchTopGames } from "./steam/top-games";
+import { detectAppEngine } from "./steam/engine-detection";
+import { indexSteamApp } from "./steam/app-index";
+import { searchSteamApps } from "./steam/catalog";
+import { getOwnWatchlist, watchSteamApp } from "./watchlists";
+import { notifyLeadAssigned, notifyTaskAssigned } from "./notifications";
+import { subscribeLiveEvents } from "./live-events";
+import { isPublicWebhookUrl } from "./webhooks";
+import { getScoringConfig, rescoreLead, rescoreLeads } from "./lead-scoring";
+import { findOrCreateStudio, getStudioForOrganization, getStudioOverview, normalizeStudioName } from "./studios";
+import { buildMergedLead, findDuplicateLead, resolveLeadEngine } from "./leads";
+import { importLeads, validateImportFile } from "./lead-import";
+import { exportLeads } from "./lead-export";
+import { recordLeadChanges, recordLeadCreated, recordLeadMerged, recordLeadsChanged } from "./lead-events";
+import { getDefaultLeadStatus, getStagesForOrganization, validateLeadStatus } from "./pipeline-stages";
+import { ACTIVE_ORG_COOKIE, hasOrganizationRole, isAssignableMember } from "./organizations";
+import { ALERT_FEED_LIMIT, NOTIFICATION_FEED_LIMIT, type OrganizationRole, type SteamAppDetails } from "@shared/schema";
 
 const clerkClient = createClerkClient({
   secretKey: process.env.CLERK_SECRET_KEY,
@@ -32,7 +51,7 @@ export async function registerRoutes(
   app.get('/api/ready', async (req, res) => {
     try {
       // Quick database check
-      await storage.getLeads('health-check');
+      await storage.getLeads(0);
 
       res.json({
         status: 'ready',
@@ -103,11 +122,240 @@ export async function registerRoutes(
     }
   });
 
+  // Organizations Routes - teams sharing one pipeline
+  const ACTIVE_ORG_COOKIE_OPTIONS = {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 365 * 24 * 60 * 60 * 1000,
+  };
+
+  // The caller's membership in :id, or a 404 when they lack `minRole` there
+  async function getMembershipOrReject(req: Request, res: Response, minRole: OrganizationRole) {
+    const membership = await storage.getOrganizationMembership(Number(req.params.id), req.auth!.userId);
+    if (!membership || !hasOrganizationRole(membership.role as OrganizationRole, minRole)) {
+      res.status(membership ? 403 : 404).json({ message: membership ? 'Forbidden' : 'Organization not found' });
+      return undefined;
+    }
+    return membership;
+  }
+
+  async function findMemberProfile(orgId: number, userId: string) {
+    const members = await storage.getOrganizationMembers(orgId);
+    return members.find((member) => member.userId === userId);
+  }
+
+  app.get(api.organizations.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      res.json(await storage.getOrganizationsForUser(req.auth!.userId));
+    } catch (error) {
+      console.error('Get organizations error:', error);
+      res.status(500).json({ message: 'Failed to fetch organizations' });
+    }
+  });
+
+  app.get(api.organizations.active.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    res.json(req.org);
+  });
+
+  app.put(api.organizations.switch.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const { organizationId } = api.organizations.switch.input.parse(req.body);
+      const organizations = await storage.getOrganizationsForUser(req.auth!.userId);
+      const organization = organizations.find((org) => org.id === organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: 'Organization not found' });
+      }
+
+      res.cookie(ACTIVE_ORG_COOKIE, String(organization.id), ACTIVE_ORG_COOKIE_OPTIONS);
+      res.json(organization);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Switch organization error:', err);
+      res.status(500).json({ message: 'Failed to switch organization' });
+    }
+  });
+
+  app.post(api.organizations.create.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const input = api.organizations.create.input.parse(req.body);
+      const organization = await storage.createOrganization(input, req.auth!.userId);
+
+      // The new organization becomes the active one
+      res.cookie(ACTIVE_ORG_COOKIE, String(organization.id), ACTIVE_ORG_COOKIE_OPTIONS);
+      res.status(201).json({ ...organization, role: 'owner' });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Create organization error:', err);
+      res.status(500).json({ message: 'Failed to create organization' });
+    }
+  });
+
+  app.put(api.organizations.update.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const membership = await getMembershipOrReject(req, res, 'owner');
+      if (!membership) return;
+
+      const input = api.organizations.update.input.parse(req.body);
+      const organization = await storage.updateOrganization(membership.orgId, input);
+      res.json({ ...organization, role: membership.role });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Update organization error:', err);
+      res.status(500).json({ message: 'Failed to update organization' });
+    }
+  });
+
+  app.get(api.organizations.scoring.path, requireAuth, readRateLimiter, async (req, res) => {
+    try {
+      const membership = await getMembershipOrReject(req, res, 'viewer');
+      if (!membership) return;
+
+      res.json(await getScoringConfig(membership.orgId));
+    } catch (error) {
+      console.error('Get scoring config error:', error);
+      res.status(500).json({ message: 'Failed to fetch scoring weights' });
+    }
+  });
+
+  app.put(api.organizations.updateScoring.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const membership = await getMembershipOrReject(req, res, 'owner');
+      if (!membership) return;
+
+      const config = api.organizations.updateScoring.input.parse(req.body);
+      await storage.setOrganizationScoringConfig(membership.orgId, config);
+      await rescoreLeads(membership.orgId);
+      res.json(config);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Update scoring config error:', err);
+      res.status(500).json({ message: 'Failed to update scoring weights' });
+    }
+  });
+
+  app.get(api.organizations.members.path, requireAuth, readRateLimiter, async (req, res) => {
+    try {
+      const membership = await getMembershipOrReject(req, res, 'viewer');
+      if (!membership) return;
+
+      res.json(await storage.getOrganizationMembers(membership.orgId));
+    } catch (error) {
+      console.error('Get organization members error:', error);
+      res.status(500).json({ message: 'Failed to fetch members' });
+    }
+  });
+
+  app.post(api.organizations.addMember.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const membership = await getMembershipOrReject(req, res, 'owner');
+      if (!membership) return;
+
+      const { email, role } = api.organizations.addMember.input.parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(404).json({ message: `No account uses ${email} yet; ask them to sign in once first` });
+      }
+
+      if (await storage.getOrganizationMembership(membership.orgId, user.id)) {
+        return res.status(409).json({ message: `${email} is already a member` });
+      }
+
+      await storage.addOrganizationMember(membership.orgId, user.id, role);
+      res.status(201).json(await findMemberProfile(membership.orgId, user.id));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Add organization member error:', err);
+      res.status(500).json({ message: 'Failed to add member' });
+    }
+  });
+
+  app.put(api.organizations.updateMember.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const membership = await getMembershipOrReject(req, res, 'owner');
+      if (!membership) return;
+
+      const { role } = api.organizations.updateMember.input.parse(req.body);
+      const target = await storage.getOrganizationMembership(membership.orgId, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+
+      if (target.role === 'owner' && role !== 'owner' && await storage.countOrganizationOwners(membership.orgId) === 1) {
+        return res.status(409).json({ message: 'An organization needs at least one owner' });
+      }
+
+      await storage.updateOrganizationMemberRole(membership.orgId, target.userId, role);
+      res.json(await findMemberProfile(membership.orgId, target.userId));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Update organization member error:', err);
+      res.status(500).json({ message: 'Failed to update member' });
+    }
+  });
+
+  app.delete(api.organizations.removeMember.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      // Owners remove anyone; everyone else may only leave
+      const isLeaving = req.params.userId === req.auth!.userId;
+      const membership = await getMembershipOrReject(req, res, isLeaving ? 'viewer' : 'owner');
+      if (!membership) return;
+
+      const target = await storage.getOrganizationMembership(membership.orgId, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+
+      if (target.role === 'owner' && await storage.countOrganizationOwners(membership.orgId) === 1) {
+        return res.status(409).json({ message: 'An organization needs at least one owner' });
+      }
+
+      await storage.removeOrganizationMember(membership.orgId, target.userId);
+      res.status(204).end();
+    } catch (error) {
+      console.error('Remove organization member error:', error);
+      res.status(500).json({ message: 'Failed to remove member' });
+    }
+  });
+
+  // Writes to the pipeline are pushed to teammates over the live updates stream
+  app.use(['/api/leads', '/api/contacts', '/api/tasks', '/api/pipeline-stages'], publishPipelineChanges);
+
   // Leads Routes - Protected with Clerk
-  app.get(api.leads.list.path, requireAuth, readRateLimiter, async (req, res) => {
+  app.get(api.leads.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
     try {
-      const userId = req.auth!.userId;
-      const leads = await storage.getLeads(userId);
+      const leads = await storage.getLeads(req.org!.id);
       res.json(leads);
     } catch (error) {
       console.error('Get leads error:', error);
@@ -115,13 +363,33 @@ export async function registerRoutes(
     }
   });
 
-  app.get(api.leads.get.path, requireAuth, readRateLimiter, async (req, res) => {
+  // Registered before /api/leads/:id so "export" is not taken for an id
+  app.get(api.leads.export.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const filters = api.leads.export.input.parse(req.query);
+      const { body, contentType, filename } = await exportLeads(req.org!.id, filters);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(body);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Export leads error:', err);
+      res.status(500).json({ message: 'Failed to export leads' });
+    }
+  });
+
+  app.get(api.leads.get.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
     try {
       const lead = await storage.getLead(Number(req.params.id));
       if (!lead) return res.status(404).json({ message: 'Lead not found' });
 
       // Verify ownership
-      if (lead.userId !== req.auth!.userId) {
+      if (lead.orgId !== req.org!.id) {
         return res.status(403).json({ message: 'Forbidden' });
       }
 
@@ -132,12 +400,50 @@ export async function registerRoutes(
     }
   });
 
-  app.post(api.leads.create.path, requireAuth, writeRateLimiter, async (req, res) => {
+  app.post(api.leads.create.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
     try {
       const input = api.leads.create.input.parse(req.body);
       const userId = req.auth!.userId;
-      const lead = await storage.createLead({ ...input, userId });
-      res.status(201).json(lead);
+      const orgId = req.org!.id;
+
+      const duplicate = await findDuplicateLead(orgId, input);
+      if (duplicate) {
+        return res.status(409).json({
+          message: `Already in your pipeline as "${duplicate.name}"`,
+          lead: duplicate,
+        });
+      }
+
+      const status = input.status ?? await getDefaultLeadStatus(orgId);
+      const statusError = await validateLeadStatus(orgId, status);
+      if (statusError) {
+        return res.status(400).json({ message: statusError, field: 'status' });
+      }
+
+      if (input.studioId && !(await getStudioForOrganization(input.studioId, orgId))) {
+        return res.status(400).json({ message: 'Studio not found', field: 'studioId' });
+      }
+
+      // Leads are named after the developer, so that name identifies the studio
+      const studio = input.studioId
+        ? undefined
+        : await findOrCreateStudio(orgId, input.name, {
+            steamAppId: Number(input.steamAppId) || undefined,
+            website: input.website,
+          });
+
+      const lead = await storage.createLead({
+        ...input,
+        status,
+        position: input.position ?? await storage.getNextLeadPosition(orgId, status),
+        engine: await resolveLeadEngine(input),
+        studioId: input.studioId ?? studio?.id ?? null,
+        orgId,
+        userId,
+        assigneeId: userId,
+      });
+      await recordLeadCreated(lead, userId);
+      res.status(201).json(await rescoreLead(lead));
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({
@@ -150,7 +456,75 @@ export async function registerRoutes(
     }
   });
 
-  app.put(api.leads.update.path, requireAuth, writeRateLimiter, async (req, res) => {
+  app.post(api.leads.import.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const { csv, mapping, dryRun } = api.leads.import.input.parse(req.body);
+
+      const fileError = validateImportFile(csv, mapping);
+      if (fileError) {
+        return res.status(400).json(fileError);
+      }
+
+      const result = await importLeads(req.org!.id, req.auth!.userId, csv, mapping, dryRun);
+      res.json(result);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Import leads error:', err);
+      res.status(500).json({ message: 'Failed to import leads' });
+    }
+  });
+
+  // Registered before /api/leads/:id so "reorder" is not taken for an id
+  app.put(api.leads.reorder.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const { columns } = api.leads.reorder.input.parse(req.body);
+      const orgId = req.org!.id;
+
+      const ids = columns.flatMap((column) => column.ids);
+      if (new Set(ids).size !== ids.length) {
+        return res.status(400).json({ message: 'A lead can only appear once in a reorder', field: 'columns' });
+      }
+
+      const before = await storage.getLeads(orgId);
+      const ownIds = new Set(before.map((lead) => lead.id));
+      if (!ids.every((id) => ownIds.has(id))) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      for (const column of columns) {
+        const statusError = await validateLeadStatus(orgId, column.status);
+        if (statusError) {
+          return res.status(400).json({ message: statusError, field: 'columns' });
+        }
+      }
+
+      await storage.reorderLeads(columns);
+      // Leads moved to another column score differently for their stage
+      await rescoreLeads(orgId, ids);
+      const after = await storage.getLeads(orgId);
+      await recordLeadsChanged(
+        after.map((lead) => ({ before: before.find((b) => b.id === lead.id)!, after: lead })),
+        req.auth!.userId
+      );
+      res.json(after);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Reorder leads error:', err);
+      res.status(500).json({ message: 'Failed to reorder leads' });
+    }
+  });
+
+  app.put(api.leads.update.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
     try {
       const leadId = Number(req.params.id);
       const existingLead = await storage.getLead(leadId);
@@ -160,13 +534,31 @@ export async function registerRoutes(
       }
 
       // Verify ownership
-      if (existingLead.userId !== req.auth!.userId) {
+      if (existingLead.orgId !== req.org!.id) {
         return res.status(403).json({ message: 'Forbidden' });
       }
 
       const input = api.leads.update.input.parse(req.body);
+
+      if (input.studioId && !(await getStudioForOrganization(input.studioId, req.org!.id))) {
+        return res.status(400).json({ message: 'Studio not found', field: 'studioId' });
+      }
+
+      if (input.status !== undefined) {
+        const statusError = await validateLeadStatus(req.org!.id, input.status);
+        if (statusError) {
+          return res.status(400).json({ message: statusError, field: 'status' });
+        }
+
+        // A lead moved to another column from the edit dialog goes to the bottom of it
+        if (input.status !== existingLead.status && input.position === undefined) {
+          input.position = await storage.getNextLeadPosition(req.org!.id, input.status);
+        }
+      }
+
       const lead = await storage.updateLead(leadId, input);
-      res.json(lead);
+      await recordLeadChanges(existingLead, lead, req.auth!.userId);
+      res.json(await rescoreLead(lead));
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({
@@ -179,7 +571,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete(api.leads.delete.path, requireAuth, writeRateLimiter, async (req, res) => {
+  app.delete(api.leads.delete.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
     try {
       const leadId = Number(req.params.id);
       const existingLead = await storage.getLead(leadId);
@@ -189,7 +581,7 @@ export async function registerRoutes(
       }
 
       // Verify ownership
-      if (existingLead.userId !== req.auth!.userId) {
+      if (existingLead.orgId !== req.org!.id) {
         return res.status(403).json({ message: 'Forbidden' });
       }
 
@@ -201,209 +593,998 @@ export async function registerRoutes(
     }
   });
 
-  // Steam Proxy Routes with rate limiting awareness
-  const STEAM_CACHE = new Map<string, { data: any; timestamp: number }>();
-  const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-  function getCached(key: string): any | null {
-    const cached = STEAM_CACHE.get(key);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      return cached.data;
-    }
-    return null;
-  }
-
-  function setCache(key: string, data: any): void {
-    STEAM_CACHE.set(key, { data, timestamp: Date.now() });
-  }
-
-  app.get(api.steam.search.path, requireAuth, steamApiRateLimiter, async (req, res) => {
+  app.put(api.leads.assign.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
     try {
-      const term = req.query.term as string;
-      if (!term) return res.status(400).json({ message: "Search term required" });
+      const leadId = Number(req.params.id);
+      const existingLead = await storage.getLead(leadId);
 
-      const cacheKey = `search:${term}`;
-      const cached = getCached(cacheKey);
-      if (cached) return res.json(cached);
+      if (!existingLead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
 
-      const response = await fetch(
-        `https://store.steampowered.com/api/storesearch/?term=${encodeURIComponent(term)}&l=english&cc=US`
-      );
-      const data: any = await response.json();
+      // Verify ownership
+      if (existingLead.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
 
-      const results = data.items?.map((item: any) => ({
-        appid: item.id,
-        name: item.name,
-        logo: item.tiny_image,
-        icon: item.tiny_image
-      })) || [];
+      const { assigneeId } = api.leads.assign.input.parse(req.body);
 
-      setCache(cacheKey, results);
-      res.json(results);
-    } catch (error) {
-      console.error("Steam search error:", error);
-      res.status(500).json({ message: "Failed to fetch from Steam" });
+      if (assigneeId && !(await isAssignableMember(req.org!.id, assigneeId))) {
+        return res.status(400).json({ message: 'Assignee must be a member of this organization', field: 'assigneeId' });
+      }
+
+      const lead = await storage.assignLead(leadId, assigneeId);
+      await recordLeadChanges(existingLead, lead, req.auth!.userId);
+      if (lead.assigneeId !== existingLead.assigneeId) await notifyLeadAssigned(lead, req.auth!.userId);
+      res.json(lead);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Assign lead error:', err);
+      res.status(500).json({ message: 'Failed to assign lead' });
     }
   });
 
-  app.get(api.steam.details.path, requireAuth, steamApiRateLimiter, async (req, res) => {
+  app.get(api.leads.events.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
     try {
-      const appId = req.params.id;
-
-      const cacheKey = `details:${appId}`;
-      const cached = getCached(cacheKey);
-      if (cached) return res.json(cached);
-
-      const detailsResponse = await fetch(
-        `https://store.steampowered.com/api/appdetails?appids=${appId}`
-      );
-      const detailsData: any = await detailsResponse.json();
+      const lead = await storage.getLead(Number(req.params.id));
+      if (!lead) return res.status(404).json({ message: 'Lead not found' });
 
-      if (!detailsData[appId]?.success) {
-        return res.status(404).json({ message: "App not found on Steam" });
+      // Verify ownership
+      if (lead.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
       }
 
-      const appData = detailsData[appId].data;
-
-      let playerCount = 0;
-      try {
-        const statsResponse = await fetch(
-          `https://api.steampowered.com/ISteamUserStats/GetNumberOfCurrentPlayers/v1/?appid=${appId}`
-        );
-        const statsData: any = await statsResponse.json();
-        playerCount = statsData.response?.player_count || 0;
-      } catch (e) {
-        console.warn("Failed to fetch player stats", e);
-      }
-
-      const result = {
-        steam_appid: appData.steam_appid,
-        name: appData.name,
-        short_description: appData.short_description,
-        header_image: appData.header_image,
-        website: appData.website,
-        developers: appData.developers || [],
-        publishers: appData.publishers || [],
-        price_overview: appData.price_overview,
-        genres: appData.genres,
-        release_date: appData.release_date,
-        metrics: {
-          player_count: playerCount,
-          review_score: appData.metacritic?.score,
-          total_reviews: appData.recommendations?.total
-        }
-      };
-
-      setCache(cacheKey, result);
-      res.json(result);
+      res.json(await storage.getLeadEvents(lead.id));
     } catch (error) {
-      console.error("Steam details error:", error);
-      res.status(500).json({ message: "Failed to fetch app details" });
+      console.error('Get lead events error:', error);
+      res.status(500).json({ message: 'Failed to fetch lead activity' });
     }
   });
 
-  // Top Games Dashboard
-  const TOP_GAME_IDS = [
-    730, 570, 440, 1172470, 578080, 1599340, 252490, 271590,
-    1245620, 892970, 1091500, 814380, 1174180, 359550,
-    413150, 367520, 391540, 1086940, 105600, 945360
-  ];
-
-  app.get(api.steam.topGames.path, requireAuth, steamApiRateLimiter, async (req, res) => {
+  app.post(api.leads.merge.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
     try {
-      const cacheKey = 'top-games';
-      const cached = getCached(cacheKey);
-      if (cached) return res.json(cached);
+      const targetId = Number(req.params.id);
+      const { sourceId } = api.leads.merge.input.parse(req.body);
 
-      const gamePromises = TOP_GAME_IDS.map(async (appId) => {
-        try {
-          const detailsResponse = await fetch(
-            `https://store.steampowered.com/api/appdetails?appids=${appId}`
-          );
-          const detailsData: any = await detailsResponse.json();
-
-          if (!detailsData[appId]?.success) return null;
-
-          const appData = detailsData[appId].data;
-          let playerCount = 0;
-
-          try {
-            const statsResponse = await fetch(
-              `https://api.steampowered.com/ISteamUserStats/GetNumberOfCurrentPlayers/v1/?appid=${appId}`
-            );
-            const statsData: any = await statsResponse.json();
-            playerCount = statsData.response?.player_count || 0;
-          } catch (e) {
-            // Ignore errors
-          }
-
-          return {
-            appid: appData.steam_appid,
-            name: appData.name,
-            headerImage: appData.header_image,
-            developers: appData.developers || [],
-            publishers: appData.publishers || [],
-            playerCount,
-            reviewScore: appData.metacritic?.score,
-            totalReviews: appData.recommendations?.total,
-            releaseDate: appData.release_date?.date,
-            genres: appData.genres?.map((g: any) => g.description) || [],
-          };
-        } catch (e) {
-          return null;
-        }
-      });
+      if (sourceId === targetId) {
+        return res.status(400).json({ message: 'Cannot merge a lead into itself', field: 'sourceId' });
+      }
 
-      const results = await Promise.all(gamePromises);
-      const games = results
-        .filter((g): g is NonNullable<typeof g> => g !== null)
-        .sort((a, b) => b.playerCount - a.playerCount);
-
-      const studioMap = new Map<string, {
-        totalPlayers: number;
-        games: string[];
-        topPlayerCount: number;
-        topGame: string
-      }>();
-
-      for (const game of games) {
-        for (const dev of game.developers) {
-          const existing = studioMap.get(dev);
-          if (existing) {
-            existing.totalPlayers += game.playerCount;
-            existing.games.push(game.name);
-            if (game.playerCount > existing.topPlayerCount) {
-              existing.topPlayerCount = game.playerCount;
-              existing.topGame = game.name;
-            }
-          } else {
-            studioMap.set(dev, {
-              totalPlayers: game.playerCount,
-              games: [game.name],
-              topPlayerCount: game.playerCount,
-              topGame: game.name,
-            });
-          }
-        }
+      const [target, source] = await Promise.all([
+        storage.getLead(targetId),
+        storage.getLead(sourceId),
+      ]);
+
+      if (!target || !source) {
+        return res.status(404).json({ message: 'Lead not found' });
       }
 
-      const studios = Array.from(studioMap.entries())
-        .map(([name, data]) => ({
-          name,
-          gamesCount: data.games.length,
-          totalPlayers: data.totalPlayers,
-          topGame: data.topGame,
-        }))
-        .sort((a, b) => b.totalPlayers - a.totalPlayers);
+      // Verify ownership of both sides
+      if (target.orgId !== req.org!.id || source.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
 
-      const response = { games, studios };
+      const lead = await storage.mergeLeads(targetId, sourceId, buildMergedLead(target, source));
+      await recordLeadMerged(lead, source, req.auth!.userId);
+      await recordLeadChanges(target, lead, req.auth!.userId);
+      res.json(await rescoreLead(lead));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Merge leads error:', err);
+      res.status(500).json({ message: 'Failed to merge leads' });
+    }
+  });
+
+  // Contacts Routes - access follows the lead a contact belongs to
+  async function getContactInOrganization(contactId: number, orgId: number) {
+    const contact = await storage.getContact(contactId);
+    if (!contact) return { status: 404 as const };
+    const lead = await storage.getLead(contact.leadId);
+    if (!lead || lead.orgId !== orgId) return { status: 403 as const };
+    return { status: 200 as const, contact };
+  }
+
+  app.get(api.contacts.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const lead = await storage.getLead(Number(req.params.leadId));
+      if (!lead) return res.status(404).json({ message: 'Lead not found' });
+
+      // Verify ownership
+      if (lead.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      res.json(await storage.getContacts(lead.id));
+    } catch (error) {
+      console.error('Get contacts error:', error);
+      res.status(500).json({ message: 'Failed to fetch contacts' });
+    }
+  });
+
+  app.post(api.contacts.create.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const lead = await storage.getLead(Number(req.params.leadId));
+      if (!lead) return res.status(404).json({ message: 'Lead not found' });
+
+      // Verify ownership
+      if (lead.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const input = api.contacts.create.input.parse(req.body);
+      const contact = await storage.createContact(lead.id, input);
+      res.status(201).json(contact);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Create contact error:', err);
+      res.status(500).json({ message: 'Failed to create contact' });
+    }
+  });
+
+  app.put(api.contacts.update.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const contactId = Number(req.params.id);
+      const found = await getContactInOrganization(contactId, req.org!.id);
+      if (found.status === 404) return res.status(404).json({ message: 'Contact not found' });
+      if (found.status === 403) return res.status(403).json({ message: 'Forbidden' });
+
+      const input = api.contacts.update.input.parse(req.body);
+      const contact = await storage.updateContact(contactId, input);
+      res.json(contact);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Update contact error:', err);
+      res.status(500).json({ message: 'Failed to update contact' });
+    }
+  });
+
+  app.delete(api.contacts.delete.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const contactId = Number(req.params.id);
+      const found = await getContactInOrganization(contactId, req.org!.id);
+      if (found.status === 404) return res.status(404).json({ message: 'Contact not found' });
+      if (found.status === 403) return res.status(403).json({ message: 'Forbidden' });
+
+      await storage.deleteContact(contactId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete contact error:', error);
+      res.status(500).json({ message: 'Failed to delete contact' });
+    }
+  });
+
+  // Tasks Routes - follow-ups on leads in the active organization
+  app.get(api.tasks.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const filters = api.tasks.list.input.parse(req.query);
+      res.json(await storage.getTasks(req.org!.id, filters));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Get tasks error:', err);
+      res.status(500).json({ message: 'Failed to fetch tasks' });
+    }
+  });
+
+  app.post(api.tasks.create.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const lead = await storage.getLead(Number(req.params.leadId));
+      if (!lead) return res.status(404).json({ message: 'Lead not found' });
+
+      // Verify ownership
+      if (lead.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const input = api.tasks.create.input.parse(req.body);
+      const userId = req.auth!.userId;
+      // Without an explicit assignee the follow-up goes to whoever works the lead
+      const assigneeId = input.assigneeId === undefined ? lead.assigneeId ?? userId : input.assigneeId;
+
+      if (assigneeId && !(await isAssignableMember(req.org!.id, assigneeId))) {
+        return res.status(400).json({ message: 'Assignee must be a member of this organization', field: 'assigneeId' });
+      }
+
+      const task = await storage.createTask({
+        ...input,
+        assigneeId,
+        orgId: req.org!.id,
+        leadId: lead.id,
+        createdById: userId,
+      });
+      await notifyTaskAssigned(task, lead.name, userId);
+      res.status(201).json(task);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Create task error:', err);
+      res.status(500).json({ message: 'Failed to create task' });
+    }
+  });
+
+  app.put(api.tasks.complete.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const taskId = Number(req.params.id);
+      const existingTask = await storage.getTask(taskId);
+
+      if (!existingTask) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      // Verify ownership
+      if (existingTask.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const { completed } = api.tasks.complete.input.parse(req.body);
+      const task = await storage.setTaskCompleted(taskId, completed);
+      res.json(task);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Complete task error:', err);
+      res.status(500).json({ message: 'Failed to update task' });
+    }
+  });
+
+  app.delete(api.tasks.delete.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const taskId = Number(req.params.id);
+      const existingTask = await storage.getTask(taskId);
+
+      if (!existingTask) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      // Verify ownership
+      if (existingTask.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      await storage.deleteTask(taskId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete task error:', error);
+      res.status(500).json({ message: 'Failed to delete task' });
+    }
+  });
+
+  // Steam Proxy Routes with rate limiting awareness
+  const STEAM_CACHE = new Map<string, { data: any; timestamp: number }>();
+  const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+  function getCached(key: string): any | null {
+    const cached = STEAM_CACHE.get(key);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.data;
+    }
+    return null;
+  }
+
+  function setCache(key: string, data: any): void {
+    STEAM_CACHE.set(key, { data, timestamp: Date.now() });
+  }
+
+  // Live details for one app; every uncached fetch is also recorded as a snapshot and indexed
+  async function getSteamAppDetails(appId: number): Promise<SteamAppDetails | null> {
+    const cacheKey = `details:${appId}`;
+    const cached = getCached(cacheKey);
+    if (cached) return cached;
+
+    const appData = await steam.appDetails(appId);
+    if (!appData) return null;
+
+    const [playerCount, reviews] = await Promise.all([
+      steam.currentPlayers(appData.steam_appid),
+      steam.reviews(appData.steam_appid),
+    ]);
+    await recordSteamAppSnapshot(appData, playerCount, reviews);
+    await indexSteamApp(appData, playerCount, reviews);
+
+    const result = toSteamAppDetails(appData, playerCount, reviews);
+    setCache(cacheKey, result);
+    return result;
+  }
+
+  app.get(api.steam.search.path, requireAuth, steamApiRateLimiter, async (req, res) => {
+    try {
+      const search = api.steam.search.input.parse(req.query);
+      res.json(await searchSteamApps(search));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error("Steam search error:", err);
+      res.status(500).json({ message: "Failed to search Steam apps" });
+    }
+  });
+
+  app.get(api.steam.discover.path, requireAuth, readRateLimiter, async (req, res) => {
+    try {
+      const filters = api.steam.discover.input.parse(req.query);
+      res.json(await storage.searchSteamAppIndex(filters));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error("Steam discover error:", err);
+      res.status(500).json({ message: "Failed to search indexed apps" });
+    }
+  });
+
+  app.get(api.steam.discoverFacets.path, requireAuth, readRateLimiter, async (req, res) => {
+    try {
+      res.json(await storage.getSteamAppIndexFacets());
+    } catch (error) {
+      console.error("Steam discover facets error:", error);
+      res.status(500).json({ message: "Failed to fetch filter options" });
+    }
+  });
+
+  app.get(api.steam.details.path, requireAuth, steamApiRateLimiter, async (req, res) => {
+    try {
+      const appId = req.params.id;
+
+      const result = await getSteamAppDetails(Number(appId));
+      if (!result) {
+        return res.status(404).json({ message: "App not found on Steam" });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Steam details error:", error);
+      res.status(500).json({ message: "Failed to fetch app details" });
+    }
+  });
+
+  app.get(api.steam.history.path, requireAuth, readRateLimiter, async (req, res) => {
+    try {
+      const appId = Number(req.params.id);
+      if (!Number.isInteger(appId) || appId <= 0) {
+        return res.status(400).json({ message: "Invalid app ID", field: "id" });
+      }
+
+      const { days } = api.steam.history.input.parse(req.query);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const snapshots = await storage.getSteamAppSnapshots(appId, since);
+      res.json(snapshots);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error("Steam history error:", err);
+      res.status(500).json({ message: "Failed to fetch app history" });
+    }
+  });
+
+  app.get(api.steam.engine.path, requireAuth, steamApiRateLimiter, async (req, res) => {
+    try {
+      const appId = Number(req.params.id);
+      if (!Number.isInteger(appId) || appId <= 0) {
+        return res.status(400).json({ message: "Invalid app ID", field: "id" });
+      }
+
+      const cacheKey = `engine:${appId}`;
+      const cached = getCached(cacheKey);
+      if (cached) return res.json(cached);
+
+      const detection = await detectAppEngine(appId);
+      setCache(cacheKey, detection);
+      res.json(detection);
+    } catch (error) {
+      console.error("Steam engine detection error:", error);
+      res.status(500).json({ message: "Failed to detect engine" });
+    }
+  });
+
+  // Top Games Dashboard
+  app.get(api.steam.topGames.path, requireAuth, steamApiRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const query = api.steam.topGames.input.parse(req.query);
+      // Every category only covers the organization's own apps
+      const cacheKey = `top-games:${query.category}:${req.org!.id}:${query.limit}`;
+      const cached = getCached(cacheKey);
+      if (cached) return res.json(cached);
+
+      const response = await fetchTopGames(query, req.org!.id);
       setCache(cacheKey, response);
       res.json(response);
-    } catch (error) {
-      console.error("Top games error:", error);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error("Top games error:", err);
       res.status(500).json({ message: "Failed to fetch top games" });
     }
   });
 
+  // Changing the tracked list drops its cached top-games pages
+  function clearTrackedTopGames(orgId: number): void {
+    const prefix = `top-games:tracked:${orgId}:`;
+    Array.from(STEAM_CACHE.keys())
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => STEAM_CACHE.delete(key));
+  }
+
+  app.get(api.steam.trackedApps.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      res.json(await storage.getTrackedApps(req.org!.id));
+    } catch (error) {
+      console.error("Get tracked apps error:", error);
+      res.status(500).json({ message: "Failed to fetch tracked apps" });
+    }
+  });
+
+  app.post(api.steam.trackedApps.add.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const { steamAppId } = api.steam.trackedApps.add.input.parse(req.body);
+      if (!(await getSteamAppDetails(steamAppId))) {
+        return res.status(404).json({ message: "Steam app not found" });
+      }
+
+      const tracked = await storage.addTrackedApp(req.org!.id, steamAppId, req.auth!.userId);
+      clearTrackedTopGames(req.org!.id);
+      res.status(201).json(tracked);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error("Track app error:", err);
+      res.status(500).json({ message: "Failed to track app" });
+    }
+  });
+
+  app.delete(api.steam.trackedApps.remove.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const removed = await storage.removeTrackedApp(req.org!.id, Number(req.params.appId));
+      if (!removed) return res.status(404).json({ message: "App is not tracked" });
+
+      clearTrackedTopGames(req.org!.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Untrack app error:", error);
+      res.status(500).json({ message: "Failed to untrack app" });
+    }
+  });
+
+  // Pipeline Stages Routes - per-organization board columns; only owners reshape them
+  app.get(api.pipelineStages.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const stages = await getStagesForOrganization(req.org!.id);
+      res.json(stages);
+    } catch (error) {
+      console.error('Get pipeline stages error:', error);
+      res.status(500).json({ message: 'Failed to fetch pipeline stages' });
+    }
+  });
+
+  app.post(api.pipelineStages.create.path, requireAuth, writeRateLimiter, requireOrg('owner'), async (req, res) => {
+    try {
+      const input = api.pipelineStages.create.input.parse(req.body);
+      const orgId = req.org!.id;
+      const stages = await getStagesForOrganization(orgId);
+
+      if (stages.some((stage) => stage.key === input.key)) {
+        return res.status(409).json({ message: `A stage with key "${input.key}" already exists` });
+      }
+
+      // New stages go to the end of the board unless placed explicitly
+      const position = input.position ?? Math.max(-1, ...stages.map((stage) => stage.position)) + 1;
+      const [stage] = await storage.createPipelineStages(orgId, [{ ...input, position }], req.auth!.userId);
+      await rescoreLeads(orgId);
+      res.status(201).json(stage);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Create pipeline stage error:', err);
+      res.status(500).json({ message: 'Failed to create pipeline stage' });
+    }
+  });
+
+  app.put(api.pipelineStages.reorder.path, requireAuth, writeRateLimiter, requireOrg('owner'), async (req, res) => {
+    try {
+      const { ids } = api.pipelineStages.reorder.input.parse(req.body);
+      const orgId = req.org!.id;
+      const stages = await getStagesForOrganization(orgId);
+
+      const ownIds = new Set(stages.map((stage) => stage.id));
+      if (ids.length !== stages.length || !ids.every((id) => ownIds.has(id))) {
+        return res.status(400).json({ message: 'Reorder must list each of your stages exactly once', field: 'ids' });
+      }
+
+      await Promise.all(ids.map((id, position) => storage.updatePipelineStage(id, { position })));
+      // Stage scores follow board order
+      await rescoreLeads(orgId);
+      res.json(await storage.getPipelineStages(orgId));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Reorder pipeline stages error:', err);
+      res.status(500).json({ message: 'Failed to reorder pipeline stages' });
+    }
+  });
+
+  app.put(api.pipelineStages.update.path, requireAuth, writeRateLimiter, requireOrg('owner'), async (req, res) => {
+    try {
+      const stageId = Number(req.params.id);
+      const existingStage = await storage.getPipelineStage(stageId);
+
+      if (!existingStage) {
+        return res.status(404).json({ message: 'Pipeline stage not found' });
+      }
+
+      // Verify ownership
+      if (existingStage.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const input = api.pipelineStages.update.input.parse(req.body);
+      const stage = await storage.updatePipelineStage(stageId, input);
+      await rescoreLeads(req.org!.id);
+      res.json(stage);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Update pipeline stage error:', err);
+      res.status(500).json({ message: 'Failed to update pipeline stage' });
+    }
+  });
+
+  app.delete(api.pipelineStages.delete.path, requireAuth, writeRateLimiter, requireOrg('owner'), async (req, res) => {
+    try {
+      const stageId = Number(req.params.id);
+      const orgId = req.org!.id;
+      const existingStage = await storage.getPipelineStage(stageId);
+
+      if (!existingStage) {
+        return res.status(404).json({ message: 'Pipeline stage not found' });
+      }
+
+      // Verify ownership
+      if (existingStage.orgId !== orgId) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const { moveTo } = api.pipelineStages.delete.input.parse(req.query);
+      const stages = await getStagesForOrganization(orgId);
+
+      if (stages.length === 1) {
+        return res.status(409).json({ message: 'A pipeline needs at least one stage' });
+      }
+
+      const leadCount = await storage.countLeadsInStage(orgId, existingStage.key);
+      if (leadCount > 0) {
+        if (!moveTo) {
+          return res.status(409).json({
+            message: `${leadCount} lead${leadCount > 1 ? 's are' : ' is'} still in "${existingStage.label}"`,
+          });
+        }
+        if (moveTo === existingStage.key || !stages.some((stage) => stage.key === moveTo)) {
+          return res.status(400).json({ message: `Unknown pipeline stage "${moveTo}"`, field: 'moveTo' });
+        }
+        const moved = await storage.moveLeadsToStage(orgId, existingStage.key, moveTo);
+        await recordLeadsChanged(
+          moved.map((lead) => ({ before: { ...lead, status: existingStage.key }, after: lead })),
+          req.auth!.userId
+        );
+      }
+
+      await storage.deletePipelineStage(stageId);
+      await rescoreLeads(orgId);
+      res.status(204).send();
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Delete pipeline stage error:', err);
+      res.status(500).json({ message: 'Failed to delete pipeline stage' });
+    }
+  });
+
+  // Studios Routes - per organization; shared studios from before that are read-only
+  app.get(api.studios.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const studios = await storage.getStudios(req.org!.id);
+      res.json(studios);
+    } catch (error) {
+      console.error('Get studios error:', error);
+      res.status(500).json({ message: 'Failed to fetch studios' });
+    }
+  });
+
+  app.get(api.studios.get.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const studio = await getStudioForOrganization(Number(req.params.id), req.org!.id);
+      if (!studio) return res.status(404).json({ message: 'Studio not found' });
+      res.json(studio);
+    } catch (error) {
+      console.error('Get studio error:', error);
+      res.status(500).json({ message: 'Failed to fetch studio' });
+    }
+  });
+
+  app.get(api.studios.overview.path, requireAuth, steamApiRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const studio = await getStudioForOrganization(Number(req.params.id), req.org!.id);
+      if (!studio) return res.status(404).json({ message: 'Studio not found' });
+
+      res.json(await getStudioOverview(studio, req.org!.id));
+    } catch (error) {
+      console.error('Get studio overview error:', error);
+      res.status(500).json({ message: 'Failed to fetch studio overview' });
+    }
+  });
+
+  app.post(api.studios.create.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const input = api.studios.create.input.parse(req.body);
+      const normalizedName = normalizeStudioName(input.name);
+
+      const existing = await storage.getStudioByNormalizedName(req.org!.id, normalizedName);
+      if (existing) {
+        return res.status(409).json({ message: `Studio "${existing.name}" already exists` });
+      }
+
+      const studio = await storage.createStudio({ ...input, orgId: req.org!.id, normalizedName });
+      res.status(201).json(studio);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Create studio error:', err);
+      res.status(500).json({ message: 'Failed to create studio' });
+    }
+  });
+
+  app.put(api.studios.update.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const studioId = Number(req.params.id);
+      const existingStudio = await getStudioForOrganization(studioId, req.org!.id);
+
+      if (!existingStudio) {
+        return res.status(404).json({ message: 'Studio not found' });
+      }
+
+      // Shared studios from before organizations had their own are read-only
+      if (existingStudio.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const input = api.studios.update.input.parse(req.body);
+      const normalizedName = input.name ? normalizeStudioName(input.name) : undefined;
+
+      if (normalizedName && normalizedName !== existingStudio.normalizedName) {
+        const clash = await storage.getStudioByNormalizedName(req.org!.id, normalizedName);
+        if (clash) {
+          return res.status(409).json({ message: `Studio "${clash.name}" already exists` });
+        }
+      }
+
+      const studio = await storage.updateStudio(studioId, { ...input, normalizedName });
+      res.json(studio);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Update studio error:', err);
+      res.status(500).json({ message: 'Failed to update studio' });
+    }
+  });
+
+  app.delete(api.studios.delete.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const studioId = Number(req.params.id);
+      const existingStudio = await getStudioForOrganization(studioId, req.org!.id);
+
+      if (!existingStudio) {
+        return res.status(404).json({ message: 'Studio not found' });
+      }
+
+      if (existingStudio.orgId !== req.org!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      await storage.deleteStudio(studioId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete studio error:', error);
+      res.status(500).json({ message: 'Failed to delete studio' });
+    }
+  });
+
+  // Watchlists Routes - personal, so scoped to the user rather than the organization
+  app.get(api.watchlists.list.path, requireAuth, readRateLimiter, async (req, res) => {
+    try {
+      res.json(await storage.getWatchlists(req.auth!.userId));
+    } catch (error) {
+      console.error('Get watchlists error:', error);
+      res.status(500).json({ message: 'Failed to fetch watchlists' });
+    }
+  });
+
+  app.post(api.watchlists.create.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const input = api.watchlists.create.input.parse(req.body);
+      res.status(201).json(await storage.createWatchlist(req.auth!.userId, input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Create watchlist error:', err);
+      res.status(500).json({ message: 'Failed to create watchlist' });
+    }
+  });
+
+  app.delete(api.watchlists.delete.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const watchlist = await getOwnWatchlist(Number(req.params.id), req.auth!.userId);
+      if (!watchlist) return res.status(404).json({ message: 'Watchlist not found' });
+
+      await storage.deleteWatchlist(watchlist.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete watchlist error:', error);
+      res.status(500).json({ message: 'Failed to delete watchlist' });
+    }
+  });
+
+  app.post(api.watchlists.addItem.path, requireAuth, steamApiRateLimiter, async (req, res) => {
+    try {
+      const watchlist = await getOwnWatchlist(Number(req.params.id), req.auth!.userId);
+      if (!watchlist) return res.status(404).json({ message: 'Watchlist not found' });
+
+      const { steamAppId } = api.watchlists.addItem.input.parse(req.body);
+      const item = await watchSteamApp(watchlist.id, steamAppId);
+      if (!item) return res.status(404).json({ message: 'Steam app not found' });
+
+      res.status(201).json(item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Add watchlist item error:', err);
+      res.status(500).json({ message: 'Failed to watch app' });
+    }
+  });
+
+  app.delete(api.watchlists.removeItem.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const watchlist = await getOwnWatchlist(Number(req.params.id), req.auth!.userId);
+      if (!watchlist) return res.status(404).json({ message: 'Watchlist not found' });
+
+      const removed = await storage.removeWatchlistItem(watchlist.id, Number(req.params.appId));
+      if (!removed) return res.status(404).json({ message: 'App is not on this watchlist' });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Remove watchlist item error:', error);
+      res.status(500).json({ message: 'Failed to remove app from watchlist' });
+    }
+  });
+
+  // Alert Routes - rules belong to the organization; the evaluator runs after each collector pass
+  app.get(api.alerts.listRules.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      res.json(await storage.getAlertRules(req.org!.id));
+    } catch (error) {
+      console.error('Get alert rules error:', error);
+      res.status(500).json({ message: 'Failed to fetch alert rules' });
+    }
+  });
+
+  app.post(api.alerts.createRule.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const input = api.alerts.createRule.input.parse(req.body);
+      if (input.webhookUrl && !(await isPublicWebhookUrl(input.webhookUrl))) {
+        return res.status(400).json({ message: 'Webhook must be a public http(s) address', field: 'webhookUrl' });
+      }
+      res.status(201).json(await storage.createAlertRule(req.org!.id, req.auth!.userId, input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Create alert rule error:', err);
+      res.status(500).json({ message: 'Failed to create alert rule' });
+    }
+  });
+
+  app.put(api.alerts.updateRule.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const rule = await storage.getAlertRule(Number(req.params.id));
+      if (!rule || rule.orgId !== req.org!.id) return res.status(404).json({ message: 'Alert rule not found' });
+
+      const input = api.alerts.updateRule.input.parse(req.body);
+      res.json(await storage.updateAlertRule(rule.id, input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Update alert rule error:', err);
+      res.status(500).json({ message: 'Failed to update alert rule' });
+    }
+  });
+
+  app.delete(api.alerts.deleteRule.path, requireAuth, writeRateLimiter, requireOrg('member'), async (req, res) => {
+    try {
+      const rule = await storage.getAlertRule(Number(req.params.id));
+      if (!rule || rule.orgId !== req.org!.id) return res.status(404).json({ message: 'Alert rule not found' });
+
+      await storage.deleteAlertRule(rule.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete alert rule error:', error);
+      res.status(500).json({ message: 'Failed to delete alert rule' });
+    }
+  });
+
+  app.get(api.alerts.events.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      res.json(await storage.getAlertEvents(req.org!.id, ALERT_FEED_LIMIT));
+    } catch (error) {
+      console.error('Get alert events error:', error);
+      res.status(500).json({ message: 'Failed to fetch alerts' });
+    }
+  });
+
+  // Notifications Routes - the signed-in user's, from the active organization
+  app.get(api.notifications.list.path, requireAuth, readRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      res.json(await storage.getNotifications(req.auth!.userId, req.org!.id, NOTIFICATION_FEED_LIMIT));
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      res.status(500).json({ message: 'Failed to fetch notifications' });
+    }
+  });
+
+  // Before markRead, which would otherwise match "read-all" as an :id
+  app.patch(api.notifications.markAllRead.path, requireAuth, writeRateLimiter, requireOrg(), async (req, res) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.auth!.userId, req.org!.id);
+      res.json({ updated });
+    } catch (error) {
+      console.error('Mark all notifications read error:', error);
+      res.status(500).json({ message: 'Failed to update notifications' });
+    }
+  });
+
+  app.patch(api.notifications.markRead.path, requireAuth, writeRateLimiter, async (req, res) => {
+    try {
+      const notification = await storage.getNotification(Number(req.params.id));
+      if (!notification || notification.userId !== req.auth!.userId) {
+        return res.status(404).json({ message: 'Notification not found' });
+      }
+
+      const { read } = api.notifications.markRead.input.parse(req.body);
+      res.json(await storage.setNotificationRead(notification.id, read));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error('Mark notification read error:', err);
+      res.status(500).json({ message: 'Failed to update notification' });
+    }
+  });
+
+  // Live Updates - Server-Sent Events telling open tabs what to refetch
+  const LIVE_HEARTBEAT_MS = 25 * 1000;
+
+  app.get(api.events.stream.path, requireAuth, readRateLimiter, async (req, res) => {
+    const userId = req.auth!.userId;
+    let orgIds: Set<number>;
+    try {
+      // Organizations joined later are picked up when the client reconnects
+      orgIds = new Set((await storage.getOrganizationsForUser(userId)).map((org) => org.id));
+    } catch (error) {
+      console.error('Live updates error:', error);
+      return res.status(500).json({ message: 'Failed to open live updates' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = subscribeLiveEvents((event) => {
+      const relevant =
+        event.type === 'leads' ? orgIds.has(event.orgId) :
+        event.type === 'notifications' ? event.userId === userId :
+        true;
+      if (relevant) res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), LIVE_HEARTBEAT_MS);
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
   return httpServer;
 }
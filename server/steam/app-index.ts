@@ -0,0 +1,49 @@
+import { storage } from "../storage";
+import { steam } from "./index";
+import { detectEngine } from "./engine-detection";
+import { toSteamAppIndexEntry, toSteamCatalogApp } from "./mappers";
+import type { SteamReviewSummary, SteamStoreAppData } from "./types";
+
+/**
+ * Adds or refreshes an app in the Discover index and the search catalog from
+ * a live Steam fetch. The engine is guessed from the store data alone;
+ * enrichSteamAppIndex improves on it. Failures are logged and swallowed,
+ * like snapshots.
+ */
+export async function indexSteamApp(
+  appData: SteamStoreAppData,
+  playerCount: number | null,
+  reviews: SteamReviewSummary | null
+): Promise<void> {
+  try {
+    const engine = detectEngine(appData.steam_appid, appData, null);
+    await Promise.all([
+      storage.upsertSteamAppIndexEntry(toSteamAppIndexEntry(appData, playerCount, reviews, engine)),
+      storage.upsertSteamCatalogApp(toSteamCatalogApp(appData)),
+    ]);
+  } catch (error) {
+    console.warn(`Failed to index app ${appData.steam_appid}`, error);
+  }
+}
+
+// Steam requests enrichSteamAppIndex makes: user tags and depot files
+export const ENRICHMENT_REQUESTS = 2;
+
+/**
+ * Fetches what the store API leaves out (user tags, launch files) for an
+ * indexed app and re-detects its engine with them.
+ */
+export async function enrichSteamAppIndex(appData: SteamStoreAppData): Promise<void> {
+  const appId = appData.steam_appid;
+  try {
+    const [tags, files] = await Promise.all([steam.tags(appId), steam.appFiles(appId)]);
+    const engine = detectEngine(appId, appData, files, tags);
+    await storage.enrichSteamAppIndexEntry(appId, {
+      tags: tags ?? [],
+      engine: engine.engine,
+      engineConfidence: engine.confidence,
+    });
+  } catch (error) {
+    console.warn(`Failed to enrich indexed app ${appId}`, error);
+  }
+}
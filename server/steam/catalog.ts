@@ -0,0 +1,27 @@
+import { storage } from "../storage";
+import { steam } from "./index";
+import { toCatalogSearchResult, toSearchResult } from "./mappers";
+import type { SteamAppSearchPage, SteamCatalogSearch } from "@shared/schema";
+
+/**
+ * Searches the local catalog of Steam apps. When the catalog has nothing for
+ * the term (say, before an app-list import), Steam's store search answers
+ * instead and its results are added to the catalog for next time. If Steam
+ * is unreachable too, the page is simply empty.
+ */
+export async function searchSteamApps(search: SteamCatalogSearch): Promise<SteamAppSearchPage> {
+  const { apps, total } = await storage.searchSteamCatalog(search);
+  if (total > 0 || search.page > 1 || search.type) {
+    return { results: apps.map(toCatalogSearchResult), total, page: search.page, limit: search.limit };
+  }
+
+  try {
+    const items = await steam.search(search.term);
+    await storage.importSteamCatalogApps(items.map((item) => ({ steamAppId: item.id, name: item.name })));
+    const results = items.slice(0, search.limit).map(toSearchResult);
+    return { results, total: items.length, page: 1, limit: search.limit };
+  } catch (error) {
+    console.warn(`Steam search fallback failed for "${search.term}"`, error);
+    return { results: [], total: 0, page: 1, limit: search.limit };
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import { detectEngine } from "./engine-detection";
+import type { SteamStoreAppData } from "./types";
+
+// detectEngine is pure; the Steam client behind the module needs a database
+vi.mock("../storage", () => ({ storage: {} }));
+
+// An app id missing from the override table
+const APP_ID = 999999001;
+
+function appData(overrides: Partial<SteamStoreAppData> = {}): SteamStoreAppData {
+  return {
+    steam_appid: APP_ID,
+    name: "Test Game",
+    short_description: "",
+    header_image: "",
+    website: null,
+    ...overrides,
+  };
+}
+
+describe("detectEngine", () => {
+  it("trusts the override table over anything Steam says", () => {
+    const detection = detectEngine(367520, appData({ legal_notices: "Unreal® Engine" }), ["Game-Win64-Shipping.exe"]);
+    expect(detection).toEqual({
+      appId: 367520,
+      engine: "Unity",
+      confidence: 1,
+      sources: ["override"],
+      evidence: ["Engine override table"],
+    });
+  });
+
+  it("reports Unknown when nothing matches", () => {
+    expect(detectEngine(APP_ID, appData({ short_description: "A cosy farming game" }), ["game.exe"])).toEqual({
+      appId: APP_ID,
+      engine: "Unknown",
+      confidence: 0,
+      sources: [],
+      evidence: [],
+    });
+    expect(detectEngine(APP_ID, null, null).engine).toBe("Unknown");
+  });
+
+  it("recognizes engines from launch executables", () => {
+    expect(detectEngine(APP_ID, null, ["Game-Win64-Shipping.exe"])).toMatchObject({ engine: "Unreal", confidence: 0.9, sources: ["files"] });
+    expect(detectEngine(APP_ID, null, ["UnityPlayer.dll"]).engine).toBe("Unity");
+    expect(detectEngine(APP_ID, null, ["game.exe --main-pack game.pck"]).engine).toBe("Godot");
+  });
+
+  it("reports less common engines as Custom with their own name as evidence", () => {
+    expect(detectEngine(APP_ID, null, ["data.win"])).toMatchObject({ engine: "Custom", evidence: ["GameMaker"] });
+    expect(detectEngine(APP_ID, null, null, ["RPGMaker"])).toMatchObject({ engine: "Custom", confidence: 0.7, sources: ["tags"], evidence: ["RPG Maker"] });
+  });
+
+  it("weighs sources by how reliable they are", () => {
+    expect(detectEngine(APP_ID, appData({ legal_notices: "<p>Made with Unity Technologies</p>" }), null).confidence).toBe(0.8);
+    expect(detectEngine(APP_ID, appData({ about_the_game: "Built in <b>Godot</b>." }), null)).toMatchObject({
+      engine: "Godot",
+      confidence: 0.5,
+      sources: ["store_text"],
+    });
+  });
+
+  it("compares tags case-insensitively", () => {
+    expect(detectEngine(APP_ID, null, null, ["gamemaker"]).engine).toBe("Custom");
+  });
+
+  it("raises the confidence when sources agree", () => {
+    const detection = detectEngine(APP_ID, appData({ legal_notices: "Unreal® Engine" }), ["Game-Win64-Shipping.exe"]);
+    expect(detection).toMatchObject({ engine: "Unreal", confidence: 0.95, sources: ["files", "legal_notices"] });
+  });
+
+  it("lowers the confidence when sources disagree", () => {
+    const detection = detectEngine(APP_ID, appData({ short_description: "Powered by Unreal Engine" }), ["UnityPlayer.dll"]);
+    expect(detection).toMatchObject({ engine: "Unity", confidence: 0.7, sources: ["files"] });
+  });
+});
@@ -0,0 +1,165 @@
+import { steam } from "./index";
+import { ENGINE_OVERRIDES } from "./engine-overrides";
+import type { SteamStoreAppData } from "./types";
+import { ENGINE_DETECTION_SOURCES, type EngineDetection, type EngineDetectionSource, type LeadEngine } from "@shared/schema";
+
+// Below this a guess is shown but not written onto new leads
+export const ENGINE_CONFIDENCE_THRESHOLD = 0.5;
+
+interface EngineSignature {
+  engine: LeadEngine;
+  name: string; // reported as evidence
+  files: RegExp[]; // launch executables and arguments
+  text: RegExp[]; // legal notices and store page copy
+  tags: string[]; // Steam user tags, compared case-insensitively
+}
+
+// Less common engines are reported as "Custom" but keep their own name as evidence
+const ENGINE_SIGNATURES: EngineSignature[] = [
+  {
+    engine: "Unity",
+    name: "Unity",
+    files: [/UnityPlayer/i, /_Data[\\/]/i, /-screen-(fullscreen|width|height)\b/i, /-window-mode\b/i, /-force-(d3d11|d3d12|vulkan|glcore)\b/i],
+    text: [/\bUnity(®|™)?\s+(Technologies|engine)\b/i, /\bmade with unity\b/i],
+    tags: [],
+  },
+  {
+    engine: "Unreal",
+    name: "Unreal Engine",
+    files: [/-Win64-Shipping\.exe$/i, /Binaries[\\/]Win64/i, /\bUE[45]Game\b/i],
+    text: [/\bUnreal(®|™)?\s*Engine\b/i, /\bUE[45]\b/],
+    tags: [],
+  },
+  {
+    engine: "Godot",
+    name: "Godot",
+    files: [/\.pck\b/i, /--main-pack\b/i, /--rendering-driver\b/i],
+    text: [/\bGodot\b/i],
+    tags: [],
+  },
+  {
+    engine: "Custom",
+    name: "GameMaker",
+    files: [/\bdata\.win\b/i],
+    text: [/\bGame\s?Maker\b/i, /\bYoYo Games\b/i],
+    tags: ["GameMaker"],
+  },
+  {
+    engine: "Custom",
+    name: "RPG Maker",
+    files: [/\bRPG_RT\.exe\b/i],
+    text: [/\bRPG Maker\b/i],
+    tags: ["RPGMaker", "RPG Maker"],
+  },
+  {
+    engine: "Custom",
+    name: "Source",
+    files: [/\bhl2\.exe\b/i],
+    text: [/\bSource(™)? Engine\b/i],
+    tags: [],
+  },
+  {
+    engine: "Custom",
+    name: "MonoGame / FNA",
+    files: [/\bFNA\.dll\b/i, /\bMonoGame\b/i],
+    text: [/\bMonoGame\b/, /\bFNA\b/, /\bMicrosoft XNA\b/i],
+    tags: [],
+  },
+];
+
+// Launch configs name the engine's own binaries; tags are voted on by players;
+// store copy only mentions it
+const SOURCE_CONFIDENCE: Record<EngineDetectionSource, number> = {
+  override: 1,
+  files: 0.9,
+  legal_notices: 0.8,
+  tags: 0.7,
+  store_text: 0.5,
+};
+
+interface EngineMatch {
+  engine: LeadEngine;
+  source: EngineDetectionSource;
+  evidence: string;
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]+>/g, " ");
+}
+
+function findMatches(source: EngineDetectionSource, values: string[]): EngineMatch[] {
+  if (values.length === 0) return [];
+  return ENGINE_SIGNATURES
+    .filter((signature) => {
+      if (source === "tags") {
+        return values.some((value) => signature.tags.some((tag) => tag.toLowerCase() === value.toLowerCase()));
+      }
+      const patterns = source === "files" ? signature.files : signature.text;
+      return values.some((value) => patterns.some((pattern) => pattern.test(value)));
+    })
+    .map((signature) => ({ engine: signature.engine, source, evidence: signature.name }));
+}
+
+/**
+ * Infers an app's engine from what Steam publishes about it. The override
+ * table wins outright; otherwise every source is searched and the engine with
+ * the strongest evidence is returned. Agreeing sources raise the confidence,
+ * evidence for a different engine lowers it.
+ */
+export function detectEngine(
+  appId: number,
+  appData: SteamStoreAppData | null,
+  files: string[] | null,
+  tags: string[] | null = null
+): EngineDetection {
+  const override = ENGINE_OVERRIDES[appId];
+  if (override) {
+    return { appId, engine: override, confidence: 1, sources: ["override"], evidence: ["Engine override table"] };
+  }
+
+  const matches = [
+    ...findMatches("files", files ?? []),
+    ...findMatches("legal_notices", appData?.legal_notices ? [stripHtml(appData.legal_notices)] : []),
+    ...findMatches("tags", tags ?? []),
+    ...findMatches("store_text", [appData?.short_description, appData?.about_the_game]
+      .filter((value): value is string => !!value)
+      .map(stripHtml)),
+  ];
+
+  const candidates = Array.from(new Set(matches.map((match) => match.engine))).map((engine) => {
+    const own = matches.filter((match) => match.engine === engine);
+    const sources = ENGINE_DETECTION_SOURCES.filter((source) => own.some((match) => match.source === source));
+    const score = Math.max(...sources.map((source) => SOURCE_CONFIDENCE[source])) + 0.05 * (sources.length - 1);
+    return { engine, sources, score, evidence: Array.from(new Set(own.map((match) => match.evidence))) };
+  });
+
+  if (candidates.length === 0) {
+    return { appId, engine: "Unknown", confidence: 0, sources: [], evidence: [] };
+  }
+
+  const [best] = candidates.sort((a, b) => b.score - a.score);
+  const conflicted = candidates.length > 1;
+  const confidence = Math.min(0.99, best.score) - (conflicted ? 0.2 : 0);
+  return {
+    appId,
+    engine: best.engine,
+    confidence: Math.round(Math.max(0, confidence) * 100) / 100,
+    sources: best.sources,
+    evidence: best.evidence,
+  };
+}
+
+/**
+ * Fetches what detectEngine needs for one app. Apps in the override table
+ * are answered without calling Steam.
+ */
+export async function detectAppEngine(appId: number): Promise<EngineDetection> {
+  if (ENGINE_OVERRIDES[appId]) return detectEngine(appId, null, null);
+
+  const [appData, files, tags] = await Promise.all([
+    steam.appDetails(appId),
+    steam.appFiles(appId),
+    steam.tags(appId),
+  ]);
+  return detectEngine(appId, appData, files, tags);
+}
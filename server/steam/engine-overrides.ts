@@ -0,0 +1,20 @@
+import type { LeadEngine } from "@shared/schema";
+
+/**
+ * Engines we know for certain, keyed by Steam app id. Detection trusts these
+ * over anything Steam says; add an entry when a lead comes in wrong.
+ */
+export const ENGINE_OVERRIDES: Record<number, LeadEngine> = {
+  367520: "Unity",    // Hollow Knight
+  413150: "Custom",   // Stardew Valley (XNA/MonoGame)
+  105600: "Custom",   // Terraria (XNA/FNA)
+  892970: "Unity",    // Valheim
+  391540: "Custom",   // Undertale (GameMaker)
+  945360: "Unity",    // Among Us
+  1145360: "Custom",  // Hades (Supergiant's in-house engine)
+  1313140: "Unity",   // Cult of the Lamb
+  548430: "Unreal",   // Deep Rock Galactic
+  526870: "Unreal",   // Satisfactory
+  1942280: "Godot",   // Brotato
+  1637320: "Godot",   // Dome Keeper
+};
@@ -0,0 +1,36 @@
+import { STEAM_FIXTURES, toSearchItem } from "./fixtures";
+import type { SteamClient, SteamReviewSummary, SteamStoreAppData, SteamStoreSearchItem } from "./types";
+
+/**
+ * Offline SteamClient backed by ./fixtures. Selected with STEAM_CLIENT=fake
+ * for CI and demos; apps without a fixture behave like unknown Steam apps.
+ */
+export class FakeSteamClient implements SteamClient {
+
+  async search(term: string): Promise<SteamStoreSearchItem[]> {
+    const needle = term.trim().toLowerCase();
+    return Object.values(STEAM_FIXTURES)
+      .filter((fixture) => fixture.details.name.toLowerCase().includes(needle))
+      .map(toSearchItem);
+  }
+
+  async appDetails(appId: number): Promise<SteamStoreAppData | null> {
+    return STEAM_FIXTURES[appId]?.details ?? null;
+  }
+
+  async currentPlayers(appId: number): Promise<number | null> {
+    return STEAM_FIXTURES[appId]?.players ?? null;
+  }
+
+  async reviews(appId: number): Promise<SteamReviewSummary | null> {
+    return STEAM_FIXTURES[appId]?.reviews ?? null;
+  }
+
+  async appFiles(appId: number): Promise<string[] | null> {
+    return STEAM_FIXTURES[appId]?.files ?? null;
+  }
+
+  async tags(appId: number): Promise<string[] | null> {
+    return STEAM_FIXTURES[appId]?.tags ?? null;
+  }
+}
@@ -0,0 +1,186 @@
+import type { SteamReviewSummary, SteamStoreAppData } from "./types";
+
+/**
+ * Canned Steam responses for the fake client. Numbers are representative,
+ * not live; add an entry here to make another app available offline.
+ */
+
+export interface SteamFixture {
+  details: SteamStoreAppData;
+  players: number;
+  reviews: SteamReviewSummary;
+  files?: string[]; // launch executables and arguments, where we have them
+  tags: string[];
+}
+
+function headerImage(appId: number): string {
+  return `https://cdn.akamai.steamstatic.com/steam/apps/${appId}/header.jpg`;
+}
+
+function capsuleImage(appId: number): string {
+  return `https://cdn.akamai.steamstatic.com/steam/apps/${appId}/capsule_231x87.jpg`;
+}
+
+export const STEAM_FIXTURES: Record<number, SteamFixture> = {
+  367520: {
+    details: {
+      steam_appid: 367520,
+      name: "Hollow Knight",
+      type: "game",
+      is_free: false,
+      short_description: "Forge your own path in Hollow Knight! An epic action adventure through a vast ruined kingdom of insects and heroes.",
+      header_image: headerImage(367520),
+      website: "http://hollowknight.com",
+      developers: ["Team Cherry"],
+      publishers: ["Team Cherry"],
+      price_overview: { currency: "USD", initial: 1499, final: 1499, discount_percent: 0, final_formatted: "$14.99" },
+      genres: [{ id: "1", description: "Action" }, { id: "23", description: "Indie" }, { id: "25", description: "Adventure" }],
+      categories: [{ id: 2, description: "Single-player" }, { id: 22, description: "Steam Achievements" }],
+      release_date: { coming_soon: false, date: "24 Feb, 2017" },
+      metacritic: { score: 87 },
+      recommendations: { total: 296000 },
+    },
+    players: 9800,
+    reviews: { review_score: 9, review_score_desc: "Overwhelmingly Positive", total_positive: 318000, total_negative: 9100, total_reviews: 327100 },
+    tags: ["Metroidvania", "Souls-like", "Platformer", "Difficult", "2D", "Indie"],
+  },
+  413150: {
+    details: {
+      steam_appid: 413150,
+      name: "Stardew Valley",
+      type: "game",
+      is_free: false,
+      short_description: "You've inherited your grandfather's old farm plot in Stardew Valley. Can you learn to live off the land and turn these overgrown fields into a thriving home?",
+      header_image: headerImage(413150),
+      website: "http://www.stardewvalley.net",
+      developers: ["ConcernedApe"],
+      publishers: ["ConcernedApe"],
+      price_overview: { currency: "USD", initial: 1499, final: 1499, discount_percent: 0, final_formatted: "$14.99" },
+      genres: [{ id: "23", description: "Indie" }, { id: "3", description: "RPG" }, { id: "28", description: "Simulation" }],
+      categories: [{ id: 2, description: "Single-player" }, { id: 1, description: "Multi-player" }, { id: 38, description: "Online Co-op" }],
+      release_date: { coming_soon: false, date: "26 Feb, 2016" },
+      metacritic: { score: 89 },
+      recommendations: { total: 620000 },
+    },
+    players: 48000,
+    reviews: { review_score: 9, review_score_desc: "Overwhelmingly Positive", total_positive: 640000, total_negative: 10500, total_reviews: 650500 },
+    tags: ["Farming Sim", "Life Sim", "Pixel Graphics", "Relaxing", "Multiplayer", "Indie"],
+  },
+  105600: {
+    details: {
+      steam_appid: 105600,
+      name: "Terraria",
+      type: "game",
+      is_free: false,
+      short_description: "Dig, fight, explore, build! Nothing is impossible in this action-packed adventure game.",
+      header_image: headerImage(105600),
+      website: "http://www.terraria.org/",
+      developers: ["Re-Logic"],
+      publishers: ["Re-Logic"],
+      price_overview: { currency: "USD", initial: 999, final: 999, discount_percent: 0, final_formatted: "$9.99" },
+      genres: [{ id: "1", description: "Action" }, { id: "23", description: "Indie" }, { id: "3", description: "RPG" }],
+      categories: [{ id: 2, description: "Single-player" }, { id: 1, description: "Multi-player" }, { id: 9, description: "Co-op" }],
+      release_date: { coming_soon: false, date: "16 May, 2011" },
+      metacritic: { score: 83 },
+      recommendations: { total: 1040000 },
+    },
+    players: 31000,
+    reviews: { review_score: 9, review_score_desc: "Overwhelmingly Positive", total_positive: 1120000, total_negative: 29000, total_reviews: 1149000 },
+    tags: ["Open World Survival Craft", "Sandbox", "Survival", "2D", "Pixel Graphics", "Multiplayer"],
+  },
+  892970: {
+    details: {
+      steam_appid: 892970,
+      name: "Valheim",
+      type: "game",
+      is_free: false,
+      short_description: "A brutal exploration and survival game for 1-10 players, set in a procedurally-generated purgatory inspired by viking culture.",
+      header_image: headerImage(892970),
+      website: "https://www.valheimgame.com/",
+      developers: ["Iron Gate AB"],
+      publishers: ["Coffee Stain Publishing"],
+      price_overview: { currency: "USD", initial: 1999, final: 1999, discount_percent: 0, final_formatted: "$19.99" },
+      genres: [{ id: "1", description: "Action" }, { id: "25", description: "Adventure" }, { id: "23", description: "Indie" }],
+      categories: [{ id: 1, description: "Multi-player" }, { id: 38, description: "Online Co-op" }],
+      release_date: { coming_soon: false, date: "2 Feb, 2021" },
+      recommendations: { total: 410000 },
+    },
+    players: 14500,
+    reviews: { review_score: 8, review_score_desc: "Very Positive", total_positive: 405000, total_negative: 26000, total_reviews: 431000 },
+    files: ["valheim.exe", "-window-mode exclusive"],
+    tags: ["Open World Survival Craft", "Survival", "Online Co-Op", "Crafting", "Viking", "Early Access"],
+  },
+  391540: {
+    details: {
+      steam_appid: 391540,
+      name: "Undertale",
+      type: "game",
+      is_free: false,
+      short_description: "The RPG game where you don't have to destroy anyone.",
+      header_image: headerImage(391540),
+      website: "http://www.undertale.com",
+      developers: ["tobyfox"],
+      publishers: ["tobyfox"],
+      price_overview: { currency: "USD", initial: 999, final: 999, discount_percent: 0, final_formatted: "$9.99" },
+      genres: [{ id: "23", description: "Indie" }, { id: "3", description: "RPG" }],
+      categories: [{ id: 2, description: "Single-player" }],
+      release_date: { coming_soon: false, date: "15 Sep, 2015" },
+      metacritic: { score: 92 },
+      recommendations: { total: 190000 },
+    },
+    players: 1900,
+    reviews: { review_score: 9, review_score_desc: "Overwhelmingly Positive", total_positive: 205000, total_negative: 7200, total_reviews: 212200 },
+    tags: ["Great Soundtrack", "Story Rich", "RPG", "Pixel Graphics", "Multiple Endings", "Indie"],
+  },
+  945360: {
+    details: {
+      steam_appid: 945360,
+      name: "Among Us",
+      type: "game",
+      is_free: false,
+      short_description: "An online and local party game of teamwork and betrayal for 4-15 players...in space!",
+      header_image: headerImage(945360),
+      website: "http://www.innersloth.com/gameAmongUs.php",
+      developers: ["Innersloth"],
+      publishers: ["Innersloth"],
+      price_overview: { currency: "USD", initial: 499, final: 499, discount_percent: 0, final_formatted: "$4.99" },
+      genres: [{ id: "51", description: "Casual" }],
+      categories: [{ id: 1, description: "Multi-player" }, { id: 36, description: "Online PvP" }],
+      release_date: { coming_soon: false, date: "16 Nov, 2018" },
+      recommendations: { total: 560000 },
+    },
+    players: 7400,
+    reviews: { review_score: 8, review_score_desc: "Very Positive", total_positive: 540000, total_negative: 52000, total_reviews: 592000 },
+    tags: ["Multiplayer", "Online Co-Op", "Social Deduction", "Party Game", "Space", "Casual"],
+  },
+  1145360: {
+    details: {
+      steam_appid: 1145360,
+      name: "Hades",
+      type: "game",
+      is_free: false,
+      short_description: "Defy the god of the dead as you hack and slash out of the Underworld in this rogue-like dungeon crawler from the creators of Bastion and Transistor.",
+      header_image: headerImage(1145360),
+      website: "https://www.supergiantgames.com/games/hades",
+      developers: ["Supergiant Games"],
+      publishers: ["Supergiant Games"],
+      price_overview: { currency: "USD", initial: 2499, final: 2499, discount_percent: 0, final_formatted: "$24.99" },
+      genres: [{ id: "1", description: "Action" }, { id: "23", description: "Indie" }, { id: "3", description: "RPG" }],
+      categories: [{ id: 2, description: "Single-player" }, { id: 22, description: "Steam Achievements" }],
+      release_date: { coming_soon: false, date: "17 Sep, 2020" },
+      metacritic: { score: 93 },
+      recommendations: { total: 250000 },
+    },
+    players: 6200,
+    reviews: { review_score: 9, review_score_desc: "Overwhelmingly Positive", total_positive: 262000, total_negative: 3500, total_reviews: 265500 },
+    tags: ["Roguelike", "Roguelite", "Action", "Hack and Slash", "Mythology", "Indie"],
+  },
+};
+
+export function toSearchItem(fixture: SteamFixture) {
+  return {
+    id: fixture.details.steam_appid,
+    name: fixture.details.name,
+    tiny_image: capsuleImage(fixture.details.steam_appid),
+  };
+}
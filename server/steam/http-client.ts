@@ -0,0 +1,88 @@
+import fetch from "node-fetch";
+import type { SteamAppInfo, SteamClient, SteamReviewSummary, SteamStoreAppData, SteamStoreSearchItem } from "./types";
+
+// A hung request would otherwise hold up the caller, and the collector's next runs, forever
+const REQUEST_TIMEOUT_MS = 10000;
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Steam request failed with ${response.status}: ${url}`);
+  }
+  return (await response.json()) as T;
+}
+
+export class HttpSteamClient implements SteamClient {
+
+  async search(term: string): Promise<SteamStoreSearchItem[]> {
+    // Unofficial Store Search API
+    const data = await getJson<{ items?: SteamStoreSearchItem[] }>(
+      `https://store.steampowered.com/api/storesearch/?term=${encodeURIComponent(term)}&l=english&cc=US`
+    );
+    return data.items || [];
+  }
+
+  async appDetails(appId: number): Promise<SteamStoreAppData | null> {
+    const data = await getJson<Record<string, { success: boolean; data?: SteamStoreAppData }>>(
+      `https://store.steampowered.com/api/appdetails?appids=${appId}&cc=US`
+    );
+    const entry = data?.[appId];
+    return entry?.success && entry.data ? entry.data : null;
+  }
+
+  async currentPlayers(appId: number): Promise<number | null> {
+    try {
+      const data = await getJson<{ response?: { player_count?: number } }>(
+        `https://api.steampowered.com/ISteamUserStats/GetNumberOfCurrentPlayers/v1/?appid=${appId}`
+      );
+      return data.response?.player_count ?? null;
+    } catch (e) {
+      console.warn(`Failed to fetch player count for app ${appId}`, e);
+      return null;
+    }
+  }
+
+  async reviews(appId: number): Promise<SteamReviewSummary | null> {
+    try {
+      const data = await getJson<{ success?: number; query_summary?: SteamReviewSummary }>(
+        `https://store.steampowered.com/appreviews/${appId}?json=1&language=all&purchase_type=all&num_per_page=0`
+      );
+      return data.success === 1 && data.query_summary ? data.query_summary : null;
+    } catch (e) {
+      console.warn(`Failed to fetch review summary for app ${appId}`, e);
+      return null;
+    }
+  }
+
+  async appFiles(appId: number): Promise<string[] | null> {
+    try {
+      // The store API has no depot data; SteamCMD's public mirror exposes the launch configs
+      const data = await getJson<{ data?: Record<string, SteamAppInfo> }>(
+        `https://api.steamcmd.net/v1/info/${appId}`
+      );
+      const launch = data.data?.[appId]?.config?.launch;
+      if (!launch) return null;
+      return Object.values(launch)
+        .flatMap((entry) => [entry.executable, entry.arguments])
+        .filter((value): value is string => !!value);
+    } catch (e) {
+      console.warn(`Failed to fetch app files for app ${appId}`, e);
+      return null;
+    }
+  }
+
+  async tags(appId: number): Promise<string[] | null> {
+    try {
+      // appdetails has no user tags; SteamSpy reports them with vote counts
+      const data = await getJson<{ tags?: Record<string, number> | [] }>(
+        `https://steamspy.com/api.php?request=appdetails&appid=${appId}`
+      );
+      if (!data.tags || Array.isArray(data.tags)) return null;
+      const votes = data.tags;
+      return Object.keys(votes).sort((a, b) => votes[b] - votes[a]);
+    } catch (e) {
+      console.warn(`Failed to fetch tags for app ${appId}`, e);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { FakeSteamClient } from "./fake-client";
+import { HttpSteamClient } from "./http-client";
+import type { SteamClient } from "./types";
+
+export type { SteamClient, SteamReviewSummary, SteamStoreAppData, SteamStoreSearchItem } from "./types";
+export { toSearchResult, toSteamAppDetails, toUserReviews } from "./mappers";
+export { recordSteamAppSnapshot } from "./snapshots";
+
+// STEAM_CLIENT=fake serves canned fixtures so the app runs without reaching Steam
+export const steam: SteamClient =
+  process.env.STEAM_CLIENT === "fake" ? new FakeSteamClient() : new HttpSteamClient();
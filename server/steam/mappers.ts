@@ -0,0 +1,112 @@
+import type { EngineDetection, InsertSteamAppIndexEntry, InsertSteamCatalogApp, SteamAppDetails, SteamAppSearchResult, SteamCatalogApp, SteamUserReviews } from "@shared/schema";
+import type { SteamReviewSummary, SteamStoreAppData, SteamStoreSearchItem } from "./types";
+
+export function toSearchResult(item: SteamStoreSearchItem): SteamAppSearchResult {
+  return {
+    appid: item.id,
+    name: item.name,
+    logo: item.tiny_image,
+    icon: item.tiny_image,
+  };
+}
+
+// Catalog rows carry no image URLs; Steam serves every app's capsule from the same path
+export function toCatalogSearchResult(app: SteamCatalogApp): SteamAppSearchResult {
+  const capsule = `https://cdn.akamai.steamstatic.com/steam/apps/${app.steamAppId}/capsule_231x87.jpg`;
+  return {
+    appid: app.steamAppId,
+    name: app.name,
+    logo: capsule,
+    icon: capsule,
+    type: app.type,
+  };
+}
+
+export function toUserReviews(summary: SteamReviewSummary | null): SteamUserReviews | undefined {
+  // Steam reports "No user reviews" with zero totals; treat that as no data
+  if (!summary || summary.total_reviews === 0) return undefined;
+
+  return {
+    positive: summary.total_positive,
+    negative: summary.total_negative,
+    total: summary.total_reviews,
+    positivePercent: Math.round((summary.total_positive / summary.total_reviews) * 100),
+    scoreDesc: summary.review_score_desc,
+  };
+}
+
+export function toSteamAppDetails(
+  appData: SteamStoreAppData,
+  playerCount: number | null,
+  reviews: SteamReviewSummary | null
+): SteamAppDetails {
+  const userReviews = toUserReviews(reviews);
+
+  return {
+    steam_appid: appData.steam_appid,
+    name: appData.name,
+    short_description: appData.short_description,
+    header_image: appData.header_image,
+    website: appData.website,
+    developers: appData.developers || [],
+    publishers: appData.publishers || [],
+    price_overview: appData.price_overview,
+    genres: appData.genres,
+    release_date: appData.release_date,
+    reviews: userReviews,
+    metrics: {
+      player_count: playerCount ?? 0,
+      review_score: userReviews?.positivePercent,
+      total_reviews: userReviews?.total,
+    },
+  };
+}
+
+// Steam shows release dates for display ("24 Feb, 2017", "Q3 2025", "Coming soon")
+export function parseSteamReleaseDate(date: string | undefined): Date | null {
+  if (!date) return null;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function toSteamAppIndexEntry(
+  appData: SteamStoreAppData,
+  playerCount: number | null,
+  reviews: SteamReviewSummary | null,
+  engine: EngineDetection
+): InsertSteamAppIndexEntry {
+  const userReviews = toUserReviews(reviews);
+
+  return {
+    steamAppId: appData.steam_appid,
+    name: appData.name,
+    headerImage: appData.header_image,
+    website: appData.website || null,
+    developers: appData.developers || [],
+    publishers: appData.publishers || [],
+    genres: appData.genres?.map((genre) => genre.description) || [],
+    isFree: !!appData.is_free,
+    priceCents: appData.is_free ? 0 : appData.price_overview?.final ?? null,
+    releaseDate: parseSteamReleaseDate(appData.release_date?.date),
+    comingSoon: !!appData.release_date?.coming_soon,
+    totalReviews: userReviews?.total ?? null,
+    positivePercent: userReviews?.positivePercent ?? null,
+    playerCount,
+    engine: engine.engine,
+    engineConfidence: engine.confidence,
+    updatedAt: new Date(),
+  };
+}
+
+export function toSteamCatalogApp(appData: SteamStoreAppData): InsertSteamCatalogApp {
+  return {
+    steamAppId: appData.steam_appid,
+    name: appData.name,
+    type: appData.type ?? null,
+    developers: appData.developers || [],
+    publishers: appData.publishers || [],
+    genres: appData.genres?.map((genre) => genre.description) || [],
+    releaseDate: parseSteamReleaseDate(appData.release_date?.date),
+    detailsFetchedAt: new Date(),
+  };
+}
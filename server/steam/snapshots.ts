@@ -0,0 +1,28 @@
+import { storage } from "../storage";
+import type { SteamReviewSummary, SteamStoreAppData } from "./types";
+
+/**
+ * Persists the numbers from a live Steam fetch so trends can be charted later.
+ * Failures are logged and swallowed; a missed snapshot is never worth failing the request.
+ */
+export async function recordSteamAppSnapshot(
+  appData: SteamStoreAppData,
+  playerCount: number | null,
+  reviews: SteamReviewSummary | null
+): Promise<void> {
+  try {
+    await storage.createSteamAppSnapshot({
+      steamAppId: appData.steam_appid,
+      playerCount,
+      totalRecommendations: appData.recommendations?.total ?? null,
+      priceCents: appData.price_overview?.final ?? (appData.is_free ? 0 : null),
+      priceCurrency: appData.price_overview?.currency ?? null,
+      metacriticScore: appData.metacritic?.score ?? null,
+      totalReviews: reviews?.total_reviews ?? null,
+      positiveReviews: reviews?.total_positive ?? null,
+      releaseDate: appData.release_date?.date ?? null,
+    });
+  } catch (error) {
+    console.warn(`Failed to record snapshot for app ${appData.steam_appid}`, error);
+  }
+}
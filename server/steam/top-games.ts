@@ -0,0 +1,171 @@
+import type { z } from "zod";
+import type { api } from "@shared/routes";
+import type { SteamAppIndexEntry, TopGamesQuery } from "@shared/schema";
+import { storage } from "../storage";
+import { steam } from "./index";
+import { toUserReviews } from "./mappers";
+import { indexSteamApp } from "./app-index";
+
+type TopGamesResponse = z.infer<typeof api.steam.topGames.responses[200]>;
+type TopGame = TopGamesResponse["games"][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rankings skip apps not refreshed within this long, so stale counts don't rank
+const RANKING_FRESHNESS_MS = 2 * DAY_MS;
+
+// Growth compares the first and latest snapshot in the window; apps starting
+// below the baseline are left out, since 5 to 50 players isn't news
+const GROWTH_WINDOW_DAYS = 7;
+const GROWTH_MIN_BASELINE = 100;
+
+const NEW_RELEASE_DAYS = 90;
+
+async function fetchTopGame(appId: number): Promise<TopGame | null> {
+  try {
+    const appData = await steam.appDetails(appId);
+    if (!appData) return null;
+
+    const [playerCount, reviews] = await Promise.all([
+      steam.currentPlayers(appId),
+      steam.reviews(appId),
+    ]);
+    await indexSteamApp(appData, playerCount, reviews);
+    const userReviews = toUserReviews(reviews);
+
+    return {
+      appid: appData.steam_appid,
+      name: appData.name,
+      headerImage: appData.header_image,
+      developers: appData.developers || [],
+      publishers: appData.publishers || [],
+      playerCount: playerCount ?? 0,
+      reviewScore: userReviews?.positivePercent,
+      reviewScoreDesc: userReviews?.scoreDesc,
+      positiveReviews: userReviews?.positive,
+      negativeReviews: userReviews?.negative,
+      totalReviews: userReviews?.total,
+      releaseDate: appData.release_date?.date,
+      genres: appData.genres?.map((g) => g.description) || [],
+    };
+  } catch (e) {
+    console.error(`Failed to fetch game ${appId}:`, e);
+    return null;
+  }
+}
+
+// Aggregate studios from developers
+export function aggregateStudios(games: TopGame[]): TopGamesResponse["studios"] {
+  const studioMap = new Map<string, {
+    totalPlayers: number;
+    games: string[];
+    topPlayerCount: number;
+    topGame: string
+  }>();
+
+  for (const game of games) {
+    for (const dev of game.developers) {
+      const existing = studioMap.get(dev);
+      if (existing) {
+        existing.totalPlayers += game.playerCount;
+        existing.games.push(game.name);
+        if (game.playerCount > existing.topPlayerCount) {
+          existing.topPlayerCount = game.playerCount;
+          existing.topGame = game.name;
+        }
+      } else {
+        studioMap.set(dev, {
+          totalPlayers: game.playerCount,
+          games: [game.name],
+          topPlayerCount: game.playerCount,
+          topGame: game.name,
+        });
+      }
+    }
+  }
+
+  return Array.from(studioMap.entries())
+    .map(([name, data]) => ({
+      name,
+      gamesCount: data.games.length,
+      totalPlayers: data.totalPlayers,
+      topGame: data.topGame,
+    }))
+    .sort((a, b) => b.totalPlayers - a.totalPlayers);
+}
+
+// Ranked apps come from the Discover index, which holds each app's latest fetch
+function fromIndexEntry(entry: SteamAppIndexEntry, playerGrowth?: number): TopGame {
+  return {
+    appid: entry.steamAppId,
+    name: entry.name,
+    headerImage: entry.headerImage ?? undefined,
+    developers: entry.developers,
+    publishers: entry.publishers,
+    playerCount: entry.playerCount ?? 0,
+    reviewScore: entry.positivePercent ?? undefined,
+    totalReviews: entry.totalReviews ?? undefined,
+    releaseDate: entry.releaseDate?.toISOString().slice(0, 10),
+    genres: entry.genres,
+    playerGrowth,
+  };
+}
+
+// Fetched live, as the list is short and chosen by hand
+async function fetchTrackedGames(orgId: number | undefined, limit: number): Promise<TopGame[]> {
+  const tracked = orgId === undefined ? [] : await storage.getTrackedApps(orgId);
+  const results = await Promise.all(tracked.map((app) => fetchTopGame(app.steamAppId)));
+  return results
+    .filter((g): g is TopGame => g !== null)
+    .sort((a, b) => b.playerCount - a.playerCount)
+    .slice(0, limit);
+}
+
+async function rankFastestGrowing(appIds: number[], limit: number): Promise<TopGame[]> {
+  const changes = await storage.getPlayerCountChanges(appIds, new Date(Date.now() - GROWTH_WINDOW_DAYS * DAY_MS));
+  const growing = changes
+    .filter((change) => change.first >= GROWTH_MIN_BASELINE && change.last > change.first)
+    .map((change) => ({ ...change, growth: Math.round(((change.last - change.first) / change.first) * 100) }))
+    .sort((a, b) => b.growth - a.growth)
+    .slice(0, limit);
+
+  const entries = await storage.getSteamAppIndexEntries(growing.map((change) => change.steamAppId));
+  return growing.flatMap((change) => {
+    const entry = entries.find((e) => e.steamAppId === change.steamAppId);
+    return entry ? [{ ...fromIndexEntry(entry, change.growth), playerCount: change.last }] : [];
+  });
+}
+
+/**
+ * Top games in one category: the organization's tracked apps, or a ranking
+ * of the apps it follows (its leads, tracked apps and its members'
+ * watchlists). The Discover index is shared, so rankings are limited to those
+ * apps to keep what other organizations follow private. Without an
+ * organization every category is empty.
+ */
+export async function fetchTopGames(query: TopGamesQuery, orgId?: number): Promise<TopGamesResponse> {
+  const freshSince = new Date(Date.now() - RANKING_FRESHNESS_MS);
+  const appIds = query.category === "tracked" || orgId === undefined
+    ? []
+    : await storage.getOrganizationSteamAppIds(orgId);
+  let games: TopGame[];
+
+  switch (query.category) {
+    case "tracked":
+      games = await fetchTrackedGames(orgId, query.limit);
+      break;
+    case "most-played":
+      games = (await storage.getMostPlayedIndexedApps(appIds, freshSince, query.limit)).map((entry) => fromIndexEntry(entry));
+      break;
+    case "fastest-growing":
+      games = await rankFastestGrowing(appIds, query.limit);
+      break;
+    case "new-releases": {
+      const releasedSince = new Date(Date.now() - NEW_RELEASE_DAYS * DAY_MS);
+      games = (await storage.getNewReleaseIndexedApps(appIds, releasedSince, freshSince, query.limit)).map((entry) => fromIndexEntry(entry));
+      break;
+    }
+  }
+
+  return { category: query.category, games, studios: aggregateStudios(games) };
+}
@@ -0,0 +1,64 @@
+/**
+ * Raw Steam response shapes, trimmed to the fields we read.
+ * The public, client-facing shapes live in @shared/schema.
+ */
+
+export interface SteamStoreSearchItem {
+  id: number;
+  name: string;
+  tiny_image: string;
+}
+
+export interface SteamStoreAppData {
+  steam_appid: number;
+  name: string;
+  type?: string;
+  is_free?: boolean;
+  short_description: string;
+  about_the_game?: string; // HTML
+  legal_notices?: string; // often credits the engine, e.g. "Unreal® Engine"
+  header_image: string;
+  website: string | null;
+  developers?: string[];
+  publishers?: string[];
+  price_overview?: {
+    currency: string;
+    initial: number;
+    final: number;
+    discount_percent: number;
+    final_formatted: string;
+  };
+  genres?: { id: string; description: string }[];
+  categories?: { id: number; description: string }[];
+  release_date?: { coming_soon: boolean; date: string };
+  metacritic?: { score: number; url?: string };
+  recommendations?: { total: number };
+}
+
+// appreviews query_summary
+export interface SteamReviewSummary {
+  review_score: number; // Steam's 0-9 bucket
+  review_score_desc: string; // e.g. "Very Positive"
+  total_positive: number;
+  total_negative: number;
+  total_reviews: number;
+}
+
+// SteamCMD app info, trimmed to the launch configs
+export interface SteamAppInfo {
+  config?: {
+    launch?: Record<string, { executable?: string; arguments?: string }>;
+  };
+}
+
+export interface SteamClient {
+  search(term: string): Promise<SteamStoreSearchItem[]>;
+  appDetails(appId: number): Promise<SteamStoreAppData | null>;
+  // Optional figures: resolve to null instead of throwing when Steam has nothing
+  currentPlayers(appId: number): Promise<number | null>;
+  reviews(appId: number): Promise<SteamReviewSummary | null>;
+  // Executables and launch arguments from the app's depot config
+  appFiles(appId: number): Promise<string[] | null>;
+  // User tags, most voted first
+  tags(appId: number): Promise<string[] | null>;
+}
@@ -4,25 +4,192 @@ import {
   type Lead,
   type FullInsertLead,
   type UpdateLeadRequest,
+  leadEvents,
+  type InsertLeadEvent,
+  type LeadEventWithActor,
+  contacts,
+  type Contact,
+  type InsertContact,
+  type UpdateContactRequest,
+  tasks,
+  type Task,
+  type TaskWithLead,
+  type InsertTask,
   users,
   type User,
-  type UpsertUser
+  type UpsertUser,
+  steamAppSnapshots,
+  type SteamAppSnapshot,
+  type InsertSteamAppSnapshot,
+  steamAppIndex,
+  type SteamAppIndexEntry,
+  type InsertSteamAppIndexEntry,
+  type SteamDiscoverFilters,
+  steamAppCatalog,
+  type SteamCatalogApp,
+  type InsertSteamCatalogApp,
+  type SteamCatalogSearch,
+  trackedApps,
+  type TrackedApp,
+  watchlists,
+  watchlistItems,
+  type Watchlist,
+  type InsertWatchlist,
+  type WatchlistItem,
+  type WatchlistWithItems,
+  alertRules,
+  alertEvents,
+  type AlertRule,
+  type InsertAlertRule,
+  type AlertEvent,
+  type InsertAlertEvent,
+  type AlertEventWithRule,
+  notifications,
+  type Notification,
+  type InsertNotification,
+  type NotificationFeed,
+  type LeadMetrics,
+  type LeadScoreBreakdown,
+  type LeadScoringConfig,
+  studios,
+  type Studio,
+  type InsertStudio,
+  pipelineStages,
+  type PipelineStage,
+  type InsertPipelineStage,
+  type UpdatePipelineStageRequest,
+  organizations,
+  organizationMembers,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMember,
+  type OrganizationMemberProfile,
+  type OrganizationRole,
+  type OrganizationWithRole
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, arrayContains, asc, count, desc, eq, gte, ilike, inArray, isNotNull, isNull, lte, ne, or, sql } from "drizzle-orm";
 
 export interface IStorage {
-  getLeads(userId: string): Promise<Lead[]>;
+  getLeads(orgId: number): Promise<Lead[]>;
   getLead(id: number): Promise<Lead | undefined>;
   createLead(lead: FullInsertLead): Promise<Lead>;
   updateLead(id: number, updates: UpdateLeadRequest): Promise<Lead>;
   deleteLead(id: number): Promise<void>;
+  assignLead(id: number, assigneeId: string | null): Promise<Lead>;
+  setLeadScore(id: number, score: number, breakdown: LeadScoreBreakdown): Promise<Lead>;
+  mergeLeads(targetId: number, sourceId: number, merged: UpdateLeadRequest): Promise<Lead>;
+  getNextLeadPosition(orgId: number, status: string): Promise<number>;
+  reorderLeads(columns: { status: string; ids: number[] }[]): Promise<void>;
+  getLeadSteamAppIds(): Promise<number[]>;
+  getOrganizationSteamAppIds(orgId: number): Promise<number[]>;
+  updateLeadMetricsForSteamApp(steamAppId: number, metrics: LeadMetrics): Promise<{ id: number; previous: LeadMetrics | null }[]>;
+  fillUnknownLeadEngines(steamAppId: number, engine: string): Promise<void>;
+  getLeadEvents(leadId: number): Promise<LeadEventWithActor[]>;
+  createLeadEvents(events: InsertLeadEvent[]): Promise<void>;
+  getContacts(leadId: number): Promise<Contact[]>;
+  getContact(id: number): Promise<Contact | undefined>;
+  createContact(leadId: number, contact: InsertContact): Promise<Contact>;
+  updateContact(id: number, updates: UpdateContactRequest): Promise<Contact>;
+  deleteContact(id: number): Promise<void>;
+  getTasks(orgId: number, filters: { leadId?: number; dueBefore?: Date; status: "open" | "completed" | "all" }): Promise<TaskWithLead[]>;
+  getTask(id: number): Promise<Task | undefined>;
+  createTask(task: InsertTask & { orgId: number; leadId: number; createdById: string }): Promise<Task>;
+  setTaskCompleted(id: number, completed: boolean): Promise<Task>;
+  deleteTask(id: number): Promise<void>;
+  getDueTasksToNotify(now: Date): Promise<TaskWithLead[]>;
+  setTasksDueNotified(ids: number[], notifiedAt: Date): Promise<void>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getOrganizationsForUser(userId: string): Promise<OrganizationWithRole[]>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationMembership(orgId: number, userId: string): Promise<OrganizationMember | undefined>;
+  createOrganization(organization: InsertOrganization, ownerId: string): Promise<Organization>;
+  updateOrganization(id: number, updates: Partial<InsertOrganization>): Promise<Organization>;
+  setOrganizationScoringConfig(id: number, config: LeadScoringConfig): Promise<Organization>;
+  claimLegacyRecords(userId: string, orgId: number): Promise<void>;
+  getOrganizationMembers(orgId: number): Promise<OrganizationMemberProfile[]>;
+  addOrganizationMember(orgId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember>;
+  updateOrganizationMemberRole(orgId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember>;
+  removeOrganizationMember(orgId: number, userId: string): Promise<void>;
+  countOrganizationOwners(orgId: number): Promise<number>;
+  getPipelineStages(orgId: number): Promise<PipelineStage[]>;
+  getPipelineStage(id: number): Promise<PipelineStage | undefined>;
+  createPipelineStages(orgId: number, stages: InsertPipelineStage[], createdBy?: string): Promise<PipelineStage[]>;
+  updatePipelineStage(id: number, updates: UpdatePipelineStageRequest): Promise<PipelineStage>;
+  deletePipelineStage(id: number): Promise<void>;
+  countLeadsInStage(orgId: number, status: string): Promise<number>;
+  moveLeadsToStage(orgId: number, fromStatus: string, toStatus: string): Promise<Lead[]>;
+  getStudios(orgId: number): Promise<Studio[]>;
+  getStudio(id: number): Promise<Studio | undefined>;
+  getStudioByNormalizedName(orgId: number, normalizedName: string): Promise<Studio | undefined>;
+  createStudio(studio: InsertStudio & { orgId: number; normalizedName: string }): Promise<Studio>;
+  updateStudio(id: number, updates: Partial<InsertStudio> & { normalizedName?: string }): Promise<Studio>;
+  deleteStudio(id: number): Promise<void>;
+  addSteamAppToStudio(id: number, steamAppId: number): Promise<Studio>;
+  getLeadsForStudio(studio: Studio, orgId: number): Promise<Lead[]>;
+  createSteamAppSnapshot(snapshot: InsertSteamAppSnapshot): Promise<SteamAppSnapshot>;
+  getSteamAppSnapshots(steamAppId: number, since: Date): Promise<SteamAppSnapshot[]>;
+  getSteamAppIndexEntry(steamAppId: number): Promise<SteamAppIndexEntry | undefined>;
+  upsertSteamAppIndexEntry(entry: InsertSteamAppIndexEntry): Promise<void>;
+  enrichSteamAppIndexEntry(steamAppId: number, enrichment: Pick<InsertSteamAppIndexEntry, "tags" | "engine" | "engineConfidence">): Promise<void>;
+  searchSteamAppIndex(filters: SteamDiscoverFilters): Promise<SteamAppIndexEntry[]>;
+  getSteamAppIndexFacets(): Promise<{ genres: string[]; tags: string[] }>;
+
+  // Steam app catalog
+  importSteamCatalogApps(apps: Pick<InsertSteamCatalogApp, "steamAppId" | "name">[]): Promise<void>;
+  upsertSteamCatalogApp(app: InsertSteamCatalogApp): Promise<void>;
+  searchSteamCatalog(search: SteamCatalogSearch): Promise<{ apps: SteamCatalogApp[]; total: number }>;
+
+  // Tracked apps and top-game rankings
+  getTrackedApps(orgId: number): Promise<TrackedApp[]>;
+  getAllTrackedAppIds(): Promise<number[]>;
+  addTrackedApp(orgId: number, steamAppId: number, addedById: string): Promise<TrackedApp>;
+  removeTrackedApp(orgId: number, steamAppId: number): Promise<boolean>;
+  getSteamAppIndexEntries(steamAppIds: number[]): Promise<SteamAppIndexEntry[]>;
+  getMostPlayedIndexedApps(steamAppIds: number[], updatedSince: Date, limit: number): Promise<SteamAppIndexEntry[]>;
+  getNewReleaseIndexedApps(steamAppIds: number[], releasedSince: Date, updatedSince: Date, limit: number): Promise<SteamAppIndexEntry[]>;
+  getPlayerCountChanges(steamAppIds: number[], since: Date): Promise<{ steamAppId: number; first: number; last: number }[]>;
+
+  // Watchlists
+  getWatchlists(userId: string): Promise<WatchlistWithItems[]>;
+  getWatchlist(id: number): Promise<Watchlist | undefined>;
+  createWatchlist(userId: string, watchlist: InsertWatchlist): Promise<Watchlist>;
+  deleteWatchlist(id: number): Promise<void>;
+  addWatchlistItem(watchlistId: number, steamAppId: number, playerCountAtAdd: number | null): Promise<WatchlistItem>;
+  removeWatchlistItem(watchlistId: number, steamAppId: number): Promise<boolean>;
+  getAllWatchedAppIds(): Promise<number[]>;
+
+  // Alerts
+  getAlertRules(orgId: number): Promise<AlertRule[]>;
+  getAlertRule(id: number): Promise<AlertRule | undefined>;
+  getEnabledAlertRules(): Promise<AlertRule[]>;
+  createAlertRule(orgId: number, createdById: string, rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: number, updates: Partial<Pick<AlertRule, "enabled" | "lastEvaluatedAt">>): Promise<AlertRule>;
+  deleteAlertRule(id: number): Promise<void>;
+  createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent>;
+  setAlertEventWebhookStatus(id: number, status: number): Promise<void>;
+  hasAlertEventSince(ruleId: number, steamAppId: number, since: Date): Promise<boolean>;
+  getAlertEvents(orgId: number, limit: number): Promise<AlertEventWithRule[]>;
+
+  // Notifications
+  createNotifications(notifications: InsertNotification[]): Promise<Notification[]>;
+  getNotifications(userId: string, orgId: number, limit: number): Promise<NotificationFeed>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  setNotificationRead(id: number, read: boolean): Promise<Notification>;
+  markAllNotificationsRead(userId: string, orgId: number): Promise<number>;
 }
 
+// Characters with a meaning in to_tsquery or LIKE patterns
+const TSQUERY_SEPARATORS = /[\s!&|:()<>'"*\\%_]+/;
+
 export class DatabaseStorage implements IStorage {
 
-  async getLeads(userId: string): Promise<Lead[]> {
-    return await db.select().from(leads).where(eq(leads.userId, userId));
+  async getLeads(orgId: number): Promise<Lead[]> {
+    return await db
+      .select()
+      .from(leads)
+      .where(eq(leads.orgId, orgId))
+      .orderBy(asc(leads.position), asc(leads.id));
   }
 
   async getLead(id: number): Promise<Lead | undefined> {
@@ -48,6 +215,252 @@ export class DatabaseStorage implements IStorage {
     await db.delete(leads).where(eq(leads.id, id));
   }
 
+  async assignLead(id: number, assigneeId: string | null): Promise<Lead> {
+    const [updated] = await db
+      .update(leads)
+      .set({ assigneeId, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Leaves updatedAt alone: a new score is not an edit to the lead
+  async setLeadScore(id: number, score: number, breakdown: LeadScoreBreakdown): Promise<Lead> {
+    const [updated] = await db
+      .update(leads)
+      .set({ score, scoreBreakdown: breakdown })
+      .where(eq(leads.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getNextLeadPosition(orgId: number, status: string): Promise<number> {
+    const [row] = await db
+      .select({ max: sql<number | null>`max(${leads.position})` })
+      .from(leads)
+      .where(and(eq(leads.orgId, orgId), eq(leads.status, status)));
+    return row?.max == null ? 0 : Number(row.max) + 1;
+  }
+
+  async reorderLeads(columns: { status: string; ids: number[] }[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const column of columns) {
+        for (let position = 0; position < column.ids.length; position++) {
+          await tx
+            .update(leads)
+            .set({ status: column.status, position, updatedAt: new Date() })
+            .where(eq(leads.id, column.ids[position]));
+        }
+      }
+    });
+  }
+
+  async mergeLeads(targetId: number, sourceId: number, merged: UpdateLeadRequest): Promise<Lead> {
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(leads).where(eq(leads.id, sourceId));
+      const [updated] = await tx
+        .update(leads)
+        .set({
+          ...merged,
+          // The merged lead has been in the pipeline since the older of the two was added
+          createdAt: sql`least(${leads.createdAt}, ${source.createdAt})`,
+          updatedAt: new Date(),
+        })
+        .where(eq(leads.id, targetId))
+        .returning();
+      // Keep the source's history, people and follow-ups; deleting it would cascade them away
+      await tx.update(leadEvents).set({ leadId: targetId }).where(eq(leadEvents.leadId, sourceId));
+      await tx.update(contacts).set({ leadId: targetId }).where(eq(contacts.leadId, sourceId));
+      await tx.update(tasks).set({ leadId: targetId }).where(eq(tasks.leadId, sourceId));
+      await tx.delete(leads).where(eq(leads.id, sourceId));
+      return updated;
+    });
+  }
+
+  async getLeadSteamAppIds(): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({ steamAppId: leads.steamAppId })
+      .from(leads)
+      .where(isNotNull(leads.steamAppId));
+    return rows
+      .map((row) => Number(row.steamAppId))
+      .filter((id) => Number.isInteger(id) && id > 0);
+  }
+
+  // Apps one organization follows: its leads, its tracked apps and its members' watchlists
+  async getOrganizationSteamAppIds(orgId: number): Promise<number[]> {
+    const [leadRows, trackedRows, watchedRows] = await Promise.all([
+      db
+        .selectDistinct({ steamAppId: leads.steamAppId })
+        .from(leads)
+        .where(and(eq(leads.orgId, orgId), isNotNull(leads.steamAppId))),
+      db
+        .selectDistinct({ steamAppId: trackedApps.steamAppId })
+        .from(trackedApps)
+        .where(eq(trackedApps.orgId, orgId)),
+      db
+        .selectDistinct({ steamAppId: watchlistItems.steamAppId })
+        .from(watchlistItems)
+        .innerJoin(watchlists, eq(watchlistItems.watchlistId, watchlists.id))
+        .innerJoin(organizationMembers, eq(watchlists.userId, organizationMembers.userId))
+        .where(eq(organizationMembers.orgId, orgId)),
+    ]);
+    const leadAppIds = leadRows
+      .map((row) => Number(row.steamAppId))
+      .filter((id) => Number.isInteger(id) && id > 0);
+    return Array.from(new Set([
+      ...leadAppIds,
+      ...trackedRows.map((row) => row.steamAppId),
+      ...watchedRows.map((row) => row.steamAppId),
+    ]));
+  }
+
+  // Merges into the existing jsonb so keys the collector doesn't know about survive
+  async updateLeadMetricsForSteamApp(
+    steamAppId: number,
+    metrics: LeadMetrics
+  ): Promise<{ id: number; previous: LeadMetrics | null }[]> {
+    return await db.transaction(async (tx) => {
+      const matching = eq(leads.steamAppId, String(steamAppId));
+      const before = await tx
+        .select({ id: leads.id, metrics: leads.metrics })
+        .from(leads)
+        .where(matching)
+        .for("update");
+      await tx
+        .update(leads)
+        .set({
+          metrics: sql`coalesce(${leads.metrics}, '{}'::jsonb) || ${JSON.stringify(metrics)}::jsonb`,
+        })
+        .where(matching);
+      return before.map((row) => ({ id: row.id, previous: row.metrics as LeadMetrics | null }));
+    });
+  }
+
+  // Only leads nobody has set an engine on; a user's choice is never replaced
+  async fillUnknownLeadEngines(steamAppId: number, engine: string): Promise<void> {
+    await db
+      .update(leads)
+      .set({ engine })
+      .where(and(
+        eq(leads.steamAppId, String(steamAppId)),
+        or(isNull(leads.engine), eq(leads.engine, "Unknown"))
+      ));
+  }
+
+  async getLeadEvents(leadId: number): Promise<LeadEventWithActor[]> {
+    const rows = await db
+      .select({ event: leadEvents, firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(leadEvents)
+      .leftJoin(users, eq(leadEvents.userId, users.id))
+      .where(eq(leadEvents.leadId, leadId))
+      .orderBy(desc(leadEvents.createdAt), desc(leadEvents.id));
+
+    return rows.map(({ event, firstName, lastName, email }) => ({
+      ...event,
+      actorName: [firstName, lastName].filter(Boolean).join(" ") || email || null,
+    }));
+  }
+
+  async createLeadEvents(events: InsertLeadEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await db.insert(leadEvents).values(events);
+  }
+
+  async getContacts(leadId: number): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.leadId, leadId))
+      .orderBy(asc(contacts.createdAt), asc(contacts.id));
+  }
+
+  async getContact(id: number): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact;
+  }
+
+  async createContact(leadId: number, contact: InsertContact): Promise<Contact> {
+    const [created] = await db.insert(contacts).values({ ...contact, leadId }).returning();
+    return created;
+  }
+
+  async updateContact(id: number, updates: UpdateContactRequest): Promise<Contact> {
+    const [updated] = await db
+      .update(contacts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contacts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteContact(id: number): Promise<void> {
+    await db.delete(contacts).where(eq(contacts.id, id));
+  }
+
+  async getTasks(
+    orgId: number,
+    filters: { leadId?: number; dueBefore?: Date; status: "open" | "completed" | "all" }
+  ): Promise<TaskWithLead[]> {
+    const conditions = [eq(tasks.orgId, orgId)];
+    if (filters.leadId) conditions.push(eq(tasks.leadId, filters.leadId));
+    if (filters.dueBefore) conditions.push(lte(tasks.dueAt, filters.dueBefore));
+    if (filters.status === "open") conditions.push(isNull(tasks.completedAt));
+    if (filters.status === "completed") conditions.push(isNotNull(tasks.completedAt));
+
+    const rows = await db
+      .select({ task: tasks, leadName: leads.name })
+      .from(tasks)
+      .innerJoin(leads, eq(tasks.leadId, leads.id))
+      .where(and(...conditions))
+      .orderBy(asc(tasks.dueAt), asc(tasks.id));
+    return rows.map(({ task, leadName }) => ({ ...task, leadName }));
+  }
+
+  async getTask(id: number): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+    return task;
+  }
+
+  async createTask(task: InsertTask & { orgId: number; leadId: number; createdById: string }): Promise<Task> {
+    const [created] = await db.insert(tasks).values(task).returning();
+    return created;
+  }
+
+  async setTaskCompleted(id: number, completed: boolean): Promise<Task> {
+    const [updated] = await db
+      .update(tasks)
+      .set({ completedAt: completed ? new Date() : null })
+      .where(eq(tasks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTask(id: number): Promise<void> {
+    await db.delete(tasks).where(eq(tasks.id, id));
+  }
+
+  // Open, assigned tasks that are due and whose assignee hasn't been told yet
+  async getDueTasksToNotify(now: Date): Promise<TaskWithLead[]> {
+    const rows = await db
+      .select({ task: tasks, leadName: leads.name })
+      .from(tasks)
+      .innerJoin(leads, eq(tasks.leadId, leads.id))
+      .where(and(
+        lte(tasks.dueAt, now),
+        isNull(tasks.completedAt),
+        isNull(tasks.dueNotifiedAt),
+        isNotNull(tasks.assigneeId)
+      ))
+      .orderBy(asc(tasks.dueAt));
+    return rows.map(({ task, leadName }) => ({ ...task, leadName }));
+  }
+
+  async setTasksDueNotified(ids: number[], notifiedAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(tasks).set({ dueNotifiedAt: notifiedAt }).where(inArray(tasks.id, ids));
+  }
+
   async upsertUser(user: UpsertUser): Promise<User> {
     const [upserted] = await db
       .insert(users)
@@ -68,6 +481,654 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return upserted;
   }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
+    return user;
+  }
+
+  async getOrganizationsForUser(userId: string): Promise<OrganizationWithRole[]> {
+    const rows = await db
+      .select({ organization: organizations, role: organizationMembers.role })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.orgId, organizations.id))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizationMembers.createdAt), asc(organizations.id));
+    return rows.map(({ organization, role }) => ({ ...organization, role: role as OrganizationRole }));
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getOrganizationMembership(orgId: number, userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)));
+    return member;
+  }
+
+  async createOrganization(organization: InsertOrganization, ownerId: string): Promise<Organization> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(organizations)
+        .values({ ...organization, createdById: ownerId })
+        .returning();
+      await tx.insert(organizationMembers).values({ orgId: created.id, userId: ownerId, role: "owner" });
+      return created;
+    });
+  }
+
+  async updateOrganization(id: number, updates: Partial<InsertOrganization>): Promise<Organization> {
+    const [updated] = await db
+      .update(organizations)
+      .set(updates)
+      .where(eq(organizations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async setOrganizationScoringConfig(id: number, config: LeadScoringConfig): Promise<Organization> {
+    const [updated] = await db
+      .update(organizations)
+      .set({ scoringConfig: config })
+      .where(eq(organizations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async claimLegacyRecords(userId: string, orgId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(leads).set({ orgId }).where(and(eq(leads.userId, userId), isNull(leads.orgId)));
+      await tx
+        .update(pipelineStages)
+        .set({ orgId })
+        .where(and(eq(pipelineStages.userId, userId), isNull(pipelineStages.orgId)));
+    });
+  }
+
+  async getOrganizationMembers(orgId: number): Promise<OrganizationMemberProfile[]> {
+    const rows = await db
+      .select({
+        userId: organizationMembers.userId,
+        role: organizationMembers.role,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        profileImageUrl: users.profileImageUrl,
+        joinedAt: organizationMembers.createdAt,
+      })
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.orgId, orgId))
+      .orderBy(asc(organizationMembers.createdAt));
+    return rows.map((row) => ({ ...row, role: row.role as OrganizationRole }));
+  }
+
+  async addOrganizationMember(orgId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const [member] = await db.insert(organizationMembers).values({ orgId, userId, role }).returning();
+    return member;
+  }
+
+  async updateOrganizationMemberRole(orgId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeOrganizationMember(orgId: number, userId: string): Promise<void> {
+    await db
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)));
+  }
+
+  async countOrganizationOwners(orgId: number): Promise<number> {
+    const [row] = await db
+      .select({ value: count() })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.role, "owner")));
+    return row.value;
+  }
+
+
+  async getPipelineStages(orgId: number): Promise<PipelineStage[]> {
+    return await db
+      .select()
+      .from(pipelineStages)
+      .where(eq(pipelineStages.orgId, orgId))
+      .orderBy(asc(pipelineStages.position), asc(pipelineStages.id));
+  }
+
+  async getPipelineStage(id: number): Promise<PipelineStage | undefined> {
+    const [stage] = await db.select().from(pipelineStages).where(eq(pipelineStages.id, id));
+    return stage;
+  }
+
+  async createPipelineStages(orgId: number, stages: InsertPipelineStage[], createdBy?: string): Promise<PipelineStage[]> {
+    return await db
+      .insert(pipelineStages)
+      .values(stages.map((stage) => ({ ...stage, orgId, userId: createdBy ?? null })))
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async updatePipelineStage(id: number, updates: UpdatePipelineStageRequest): Promise<PipelineStage> {
+    const [updated] = await db
+      .update(pipelineStages)
+      .set(updates)
+      .where(eq(pipelineStages.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePipelineStage(id: number): Promise<void> {
+    await db.delete(pipelineStages).where(eq(pipelineStages.id, id));
+  }
+
+  async countLeadsInStage(orgId: number, status: string): Promise<number> {
+    const [row] = await db
+      .select({ value: count() })
+      .from(leads)
+      .where(and(eq(leads.orgId, orgId), eq(leads.status, status)));
+    return row.value;
+  }
+
+  async moveLeadsToStage(orgId: number, fromStatus: string, toStatus: string): Promise<Lead[]> {
+    return await db
+      .update(leads)
+      .set({ status: toStatus, updatedAt: new Date() })
+      .where(and(eq(leads.orgId, orgId), eq(leads.status, fromStatus)))
+      .returning();
+  }
+
+  // The organization's studios plus the older shared ones
+  async getStudios(orgId: number): Promise<Studio[]> {
+    return await db
+      .select()
+      .from(studios)
+      .where(or(eq(studios.orgId, orgId), isNull(studios.orgId)))
+      .orderBy(asc(studios.name));
+  }
+
+  async getStudio(id: number): Promise<Studio | undefined> {
+    const [studio] = await db.select().from(studios).where(eq(studios.id, id));
+    return studio;
+  }
+
+  async getStudioByNormalizedName(orgId: number, normalizedName: string): Promise<Studio | undefined> {
+    const [studio] = await db
+      .select()
+      .from(studios)
+      .where(and(eq(studios.orgId, orgId), eq(studios.normalizedName, normalizedName)));
+    return studio;
+  }
+
+  async createStudio(studio: InsertStudio & { orgId: number; normalizedName: string }): Promise<Studio> {
+    const [created] = await db.insert(studios).values(studio).returning();
+    return created;
+  }
+
+  async updateStudio(id: number, updates: Partial<InsertStudio> & { normalizedName?: string }): Promise<Studio> {
+    const [updated] = await db
+      .update(studios)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(studios.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteStudio(id: number): Promise<void> {
+    await db.delete(studios).where(eq(studios.id, id));
+  }
+
+  async addSteamAppToStudio(id: number, steamAppId: number): Promise<Studio> {
+    const [updated] = await db
+      .update(studios)
+      .set({
+        steamAppIds: sql`(select array_agg(distinct app_id) from unnest(array_append(${studios.steamAppIds}, ${steamAppId}::integer)) as app_id)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(studios.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Matches by studioId, plus older leads that only share one of the studio's Steam apps
+  async getLeadsForStudio(studio: Studio, orgId: number): Promise<Lead[]> {
+    const appIds = studio.steamAppIds.map(String);
+    const matchesStudio = appIds.length > 0
+      ? or(eq(leads.studioId, studio.id), inArray(leads.steamAppId, appIds))
+      : eq(leads.studioId, studio.id);
+
+    return await db.select().from(leads).where(and(eq(leads.orgId, orgId), matchesStudio));
+  }
+
+  async createSteamAppSnapshot(snapshot: InsertSteamAppSnapshot): Promise<SteamAppSnapshot> {
+    const [created] = await db.insert(steamAppSnapshots).values(snapshot).returning();
+    return created;
+  }
+
+  async getSteamAppSnapshots(steamAppId: number, since: Date): Promise<SteamAppSnapshot[]> {
+    return await db
+      .select()
+      .from(steamAppSnapshots)
+      .where(and(eq(steamAppSnapshots.steamAppId, steamAppId), gte(steamAppSnapshots.capturedAt, since)))
+      .orderBy(asc(steamAppSnapshots.capturedAt));
+  }
+
+  async getSteamAppIndexEntry(steamAppId: number): Promise<SteamAppIndexEntry | undefined> {
+    const [entry] = await db.select().from(steamAppIndex).where(eq(steamAppIndex.steamAppId, steamAppId));
+    return entry;
+  }
+
+  // Tags and enrichedAt are left alone; the engine is only replaced by a guess at least as confident
+  async upsertSteamAppIndexEntry(entry: InsertSteamAppIndexEntry): Promise<void> {
+    const { steamAppId, engine, engineConfidence, tags, enrichedAt, ...details } = entry;
+    await db
+      .insert(steamAppIndex)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: steamAppIndex.steamAppId,
+        set: {
+          ...details,
+          engine: sql`case when excluded.engine_confidence >= ${steamAppIndex.engineConfidence} then excluded.engine else ${steamAppIndex.engine} end`,
+          engineConfidence: sql`greatest(excluded.engine_confidence, ${steamAppIndex.engineConfidence})`,
+        },
+      });
+  }
+
+  async enrichSteamAppIndexEntry(
+    steamAppId: number,
+    enrichment: Pick<InsertSteamAppIndexEntry, "tags" | "engine" | "engineConfidence">
+  ): Promise<void> {
+    await db
+      .update(steamAppIndex)
+      .set({ ...enrichment, enrichedAt: new Date() })
+      .where(eq(steamAppIndex.steamAppId, steamAppId));
+  }
+
+  async searchSteamAppIndex(filters: SteamDiscoverFilters): Promise<SteamAppIndexEntry[]> {
+    const conditions = [
+      filters.genre ? arrayContains(steamAppIndex.genres, [filters.genre]) : undefined,
+      filters.tag ? arrayContains(steamAppIndex.tags, [filters.tag]) : undefined,
+      filters.releasedAfter ? gte(steamAppIndex.releaseDate, filters.releasedAfter) : undefined,
+      filters.releasedBefore ? lte(steamAppIndex.releaseDate, filters.releasedBefore) : undefined,
+      filters.minPrice !== undefined ? gte(steamAppIndex.priceCents, Math.round(filters.minPrice * 100)) : undefined,
+      filters.maxPrice !== undefined ? lte(steamAppIndex.priceCents, Math.round(filters.maxPrice * 100)) : undefined,
+      filters.minReviews !== undefined ? gte(steamAppIndex.totalReviews, filters.minReviews) : undefined,
+      filters.minPlayers !== undefined ? gte(steamAppIndex.playerCount, filters.minPlayers) : undefined,
+      filters.engine ? eq(steamAppIndex.engine, filters.engine) : undefined,
+      filters.hasWebsite === true ? and(isNotNull(steamAppIndex.website), ne(steamAppIndex.website, "")) : undefined,
+      filters.hasWebsite === false ? or(isNull(steamAppIndex.website), eq(steamAppIndex.website, "")) : undefined,
+    ];
+
+    const orderBy = {
+      reviews: sql`${steamAppIndex.totalReviews} desc nulls last`,
+      players: sql`${steamAppIndex.playerCount} desc nulls last`,
+      newest: sql`${steamAppIndex.releaseDate} desc nulls last`,
+    }[filters.sort];
+
+    return await db
+      .select()
+      .from(steamAppIndex)
+      .where(and(...conditions))
+      .orderBy(orderBy, asc(steamAppIndex.steamAppId))
+      .limit(filters.limit);
+  }
+
+  // Every genre, and the most common tags, across indexed apps
+  async getSteamAppIndexFacets(): Promise<{ genres: string[]; tags: string[] }> {
+    const genre = sql<string>`unnest(${steamAppIndex.genres})`;
+    const tag = sql<string>`unnest(${steamAppIndex.tags})`;
+    const [genres, tags] = await Promise.all([
+      db.selectDistinct({ value: genre }).from(steamAppIndex),
+      db.select({ value: tag }).from(steamAppIndex).groupBy(sql`1`).orderBy(desc(count())).limit(200),
+    ]);
+    return {
+      genres: genres.map((row) => row.value).sort(),
+      tags: tags.map((row) => row.value).sort(),
+    };
+  }
+
+  // Names only, as in an app-list dump; details already fetched are kept
+  async importSteamCatalogApps(apps: Pick<InsertSteamCatalogApp, "steamAppId" | "name">[]): Promise<void> {
+    if (apps.length === 0) return;
+    await db
+      .insert(steamAppCatalog)
+      .values(apps)
+      .onConflictDoUpdate({
+        target: steamAppCatalog.steamAppId,
+        set: { name: sql`excluded.name`, updatedAt: new Date() },
+      });
+  }
+
+  async upsertSteamCatalogApp(app: InsertSteamCatalogApp): Promise<void> {
+    const { steamAppId, ...details } = app;
+    await db
+      .insert(steamAppCatalog)
+      .values(app)
+      .onConflictDoUpdate({ target: steamAppCatalog.steamAppId, set: { ...details, updatedAt: new Date() } });
+  }
+
+  /**
+   * Prefix full-text search over app names, with a substring fallback for
+   * partial words. Both are indexed (tsvector and trigram GIN). Exact and
+   * leading matches rank first, then games over DLC and the like, then
+   * shorter names.
+   */
+  async searchSteamCatalog(search: SteamCatalogSearch): Promise<{ apps: SteamCatalogApp[]; total: number }> {
+    const words = search.term.toLowerCase().split(TSQUERY_SEPARATORS).filter(Boolean);
+    const tsQuery = words.map((word) => `${word}:*`).join(" & ");
+    const pattern = words.join("%");
+
+    const fullText = sql`to_tsvector('simple', ${steamAppCatalog.name}) @@ to_tsquery('simple', ${tsQuery})`;
+    const where = and(
+      words.length > 0 ? or(fullText, ilike(steamAppCatalog.name, `%${pattern}%`)) : sql`false`,
+      search.type ? eq(steamAppCatalog.type, search.type) : undefined
+    );
+    const rank = sql`(lower(${steamAppCatalog.name}) = ${search.term.toLowerCase()})::int * 4
+      + (${steamAppCatalog.name} ilike ${`${pattern}%`})::int * 2
+      + (${steamAppCatalog.type} = 'game')::int
+      + ts_rank(to_tsvector('simple', ${steamAppCatalog.name}), to_tsquery('simple', ${tsQuery}))`;
+
+    const [apps, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(steamAppCatalog)
+        .where(where)
+        .orderBy(desc(rank), asc(sql`length(${steamAppCatalog.name})`), asc(steamAppCatalog.steamAppId))
+        .limit(search.limit)
+        .offset((search.page - 1) * search.limit),
+      db.select({ total: count() }).from(steamAppCatalog).where(where),
+    ]);
+    return { apps, total };
+  }
+
+  async getTrackedApps(orgId: number): Promise<TrackedApp[]> {
+    return await db
+      .select()
+      .from(trackedApps)
+      .where(eq(trackedApps.orgId, orgId))
+      .orderBy(asc(trackedApps.createdAt));
+  }
+
+  // Across every organization, for the collector
+  async getAllTrackedAppIds(): Promise<number[]> {
+    const rows = await db.selectDistinct({ steamAppId: trackedApps.steamAppId }).from(trackedApps);
+    return rows.map((row) => row.steamAppId);
+  }
+
+  // Adding an app that's already tracked returns the existing row
+  async addTrackedApp(orgId: number, steamAppId: number, addedById: string): Promise<TrackedApp> {
+    const [created] = await db
+      .insert(trackedApps)
+      .values({ orgId, steamAppId, addedById })
+      .onConflictDoNothing()
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db
+      .select()
+      .from(trackedApps)
+      .where(and(eq(trackedApps.orgId, orgId), eq(trackedApps.steamAppId, steamAppId)));
+    return existing;
+  }
+
+  async removeTrackedApp(orgId: number, steamAppId: number): Promise<boolean> {
+    const removed = await db
+      .delete(trackedApps)
+      .where(and(eq(trackedApps.orgId, orgId), eq(trackedApps.steamAppId, steamAppId)))
+      .returning({ id: trackedApps.id });
+    return removed.length > 0;
+  }
+
+  async getSteamAppIndexEntries(steamAppIds: number[]): Promise<SteamAppIndexEntry[]> {
+    if (steamAppIds.length === 0) return [];
+    return await db.select().from(steamAppIndex).where(inArray(steamAppIndex.steamAppId, steamAppIds));
+  }
+
+  // Apps whose player count was refreshed since `updatedSince`, so stale counts don't rank
+  async getMostPlayedIndexedApps(steamAppIds: number[], updatedSince: Date, limit: number): Promise<SteamAppIndexEntry[]> {
+    if (steamAppIds.length === 0) return [];
+    return await db
+      .select()
+      .from(steamAppIndex)
+      .where(and(
+        inArray(steamAppIndex.steamAppId, steamAppIds),
+        gte(steamAppIndex.updatedAt, updatedSince),
+        isNotNull(steamAppIndex.playerCount)
+      ))
+      .orderBy(desc(steamAppIndex.playerCount))
+      .limit(limit);
+  }
+
+  async getNewReleaseIndexedApps(steamAppIds: number[], releasedSince: Date, updatedSince: Date, limit: number): Promise<SteamAppIndexEntry[]> {
+    if (steamAppIds.length === 0) return [];
+    return await db
+      .select()
+      .from(steamAppIndex)
+      .where(and(
+        inArray(steamAppIndex.steamAppId, steamAppIds),
+        gte(steamAppIndex.releaseDate, releasedSince),
+        lte(steamAppIndex.releaseDate, new Date()),
+        eq(steamAppIndex.comingSoon, false),
+        gte(steamAppIndex.updatedAt, updatedSince)
+      ))
+      .orderBy(sql`${steamAppIndex.playerCount} desc nulls last`, desc(steamAppIndex.totalReviews))
+      .limit(limit);
+  }
+
+  // First and latest player count per app among snapshots taken since `since`
+  async getPlayerCountChanges(steamAppIds: number[], since: Date): Promise<{ steamAppId: number; first: number; last: number }[]> {
+    if (steamAppIds.length === 0) return [];
+    return await db
+      .select({
+        steamAppId: steamAppSnapshots.steamAppId,
+        first: sql<number>`(array_agg(${steamAppSnapshots.playerCount} order by ${steamAppSnapshots.capturedAt} asc))[1]`,
+        last: sql<number>`(array_agg(${steamAppSnapshots.playerCount} order by ${steamAppSnapshots.capturedAt} desc))[1]`,
+      })
+      .from(steamAppSnapshots)
+      .where(and(
+        inArray(steamAppSnapshots.steamAppId, steamAppIds),
+        gte(steamAppSnapshots.capturedAt, since),
+        isNotNull(steamAppSnapshots.playerCount)
+      ))
+      .groupBy(steamAppSnapshots.steamAppId)
+      .having(sql`count(*) > 1`);
+  }
+
+  async getWatchlists(userId: string): Promise<WatchlistWithItems[]> {
+    const lists = await db
+      .select()
+      .from(watchlists)
+      .where(eq(watchlists.userId, userId))
+      .orderBy(asc(watchlists.createdAt));
+    if (lists.length === 0) return [];
+
+    const items = await db
+      .select({
+        item: watchlistItems,
+        name: steamAppIndex.name,
+        headerImage: steamAppIndex.headerImage,
+        playerCount: steamAppIndex.playerCount,
+        playerCountUpdatedAt: steamAppIndex.updatedAt,
+      })
+      .from(watchlistItems)
+      .leftJoin(steamAppIndex, eq(watchlistItems.steamAppId, steamAppIndex.steamAppId))
+      .where(inArray(watchlistItems.watchlistId, lists.map((list) => list.id)))
+      .orderBy(asc(watchlistItems.addedAt));
+
+    return lists.map((list) => ({
+      ...list,
+      items: items
+        .filter((row) => row.item.watchlistId === list.id)
+        .map(({ item, ...app }) => ({ ...item, ...app })),
+    }));
+  }
+
+  async getWatchlist(id: number): Promise<Watchlist | undefined> {
+    const [watchlist] = await db.select().from(watchlists).where(eq(watchlists.id, id));
+    return watchlist;
+  }
+
+  async createWatchlist(userId: string, watchlist: InsertWatchlist): Promise<Watchlist> {
+    const [created] = await db.insert(watchlists).values({ ...watchlist, userId }).returning();
+    return created;
+  }
+
+  async deleteWatchlist(id: number): Promise<void> {
+    await db.delete(watchlists).where(eq(watchlists.id, id));
+  }
+
+  // Watching an app twice keeps the original baseline
+  async addWatchlistItem(watchlistId: number, steamAppId: number, playerCountAtAdd: number | null): Promise<WatchlistItem> {
+    const [created] = await db
+      .insert(watchlistItems)
+      .values({ watchlistId, steamAppId, playerCountAtAdd })
+      .onConflictDoNothing()
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db
+      .select()
+      .from(watchlistItems)
+      .where(and(eq(watchlistItems.watchlistId, watchlistId), eq(watchlistItems.steamAppId, steamAppId)));
+    return existing;
+  }
+
+  async removeWatchlistItem(watchlistId: number, steamAppId: number): Promise<boolean> {
+    const removed = await db
+      .delete(watchlistItems)
+      .where(and(eq(watchlistItems.watchlistId, watchlistId), eq(watchlistItems.steamAppId, steamAppId)))
+      .returning({ id: watchlistItems.id });
+    return removed.length > 0;
+  }
+
+  async getAllWatchedAppIds(): Promise<number[]> {
+    const rows = await db.selectDistinct({ steamAppId: watchlistItems.steamAppId }).from(watchlistItems);
+    return rows.map((row) => row.steamAppId);
+  }
+
+  async getAlertRules(orgId: number): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.orgId, orgId))
+      .orderBy(asc(alertRules.createdAt));
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule;
+  }
+
+  async getEnabledAlertRules(): Promise<AlertRule[]> {
+    return await db.select().from(alertRules).where(eq(alertRules.enabled, true));
+  }
+
+  async createAlertRule(orgId: number, createdById: string, rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await db
+      .insert(alertRules)
+      .values({ ...rule, orgId, createdById })
+      .returning();
+    return created;
+  }
+
+  async updateAlertRule(id: number, updates: Partial<Pick<AlertRule, "enabled" | "lastEvaluatedAt">>): Promise<AlertRule> {
+    const [updated] = await db
+      .update(alertRules)
+      .set(updates)
+      .where(eq(alertRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAlertRule(id: number): Promise<void> {
+    await db.delete(alertRules).where(eq(alertRules.id, id));
+  }
+
+  async createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent> {
+    const [created] = await db.insert(alertEvents).values(event).returning();
+    return created;
+  }
+
+  async setAlertEventWebhookStatus(id: number, status: number): Promise<void> {
+    await db.update(alertEvents).set({ webhookStatus: status }).where(eq(alertEvents.id, id));
+  }
+
+  async hasAlertEventSince(ruleId: number, steamAppId: number, since: Date): Promise<boolean> {
+    const [row] = await db
+      .select({ id: alertEvents.id })
+      .from(alertEvents)
+      .where(and(
+        eq(alertEvents.ruleId, ruleId),
+        eq(alertEvents.steamAppId, steamAppId),
+        gte(alertEvents.createdAt, since)
+      ))
+      .limit(1);
+    return !!row;
+  }
+
+  async getAlertEvents(orgId: number, limit: number): Promise<AlertEventWithRule[]> {
+    const rows = await db
+      .select({ event: alertEvents, ruleName: alertRules.name })
+      .from(alertEvents)
+      .innerJoin(alertRules, eq(alertEvents.ruleId, alertRules.id))
+      .where(eq(alertEvents.orgId, orgId))
+      .orderBy(desc(alertEvents.createdAt))
+      .limit(limit);
+    return rows.map((row) => ({ ...row.event, ruleName: row.ruleName }));
+  }
+
+  async createNotifications(values: InsertNotification[]): Promise<Notification[]> {
+    if (values.length === 0) return [];
+    return await db.insert(notifications).values(values).returning();
+  }
+
+  // Notifications without an organization show up in every organization
+  async getNotifications(userId: string, orgId: number, limit: number): Promise<NotificationFeed> {
+    const scope = and(
+      eq(notifications.userId, userId),
+      or(eq(notifications.orgId, orgId), isNull(notifications.orgId))
+    );
+    const [rows, [unread]] = await Promise.all([
+      db.select().from(notifications).where(scope).orderBy(desc(notifications.createdAt), desc(notifications.id)).limit(limit),
+      db.select({ value: count() }).from(notifications).where(and(scope, isNull(notifications.readAt))),
+    ]);
+    return { notifications: rows, unreadCount: unread.value };
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async setNotificationRead(id: number, read: boolean): Promise<Notification> {
+    const [updated] = await db
+      .update(notifications)
+      .set({ readAt: read ? new Date() : null })
+      .where(eq(notifications.id, id))
+      .returning();
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string, orgId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        or(eq(notifications.orgId, orgId), isNull(notifications.orgId)),
+        isNull(notifications.readAt)
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from "vitest";
+import { normalizeStudioName } from "./studios";
+
+// normalizeStudioName is pure; the rest of the module needs a database
+vi.mock("./storage", () => ({ storage: {} }));
+
+describe("normalizeStudioName", () => {
+  it("ignores case, accents and punctuation", () => {
+    expect(normalizeStudioName("Team Cherry")).toBe("team cherry");
+    expect(normalizeStudioName("  TEAM   cherry!")).toBe("team cherry");
+    expect(normalizeStudioName("Élan Jeux")).toBe("elan jeux");
+    expect(normalizeStudioName("Re-Logic")).toBe("re logic");
+  });
+
+  it("spells out ampersands", () => {
+    expect(normalizeStudioName("Mojang & Friends")).toBe(normalizeStudioName("Mojang and Friends"));
+  });
+
+  it("drops trailing corporate suffixes", () => {
+    expect(normalizeStudioName("Team Cherry Pty Ltd")).toBe("team cherry");
+    expect(normalizeStudioName("Supergiant Games, LLC")).toBe("supergiant games");
+    expect(normalizeStudioName("Paradox Interactive AB")).toBe("paradox interactive");
+    expect(normalizeStudioName("Ubisoft Entertainment S.A.")).toBe("ubisoft entertainment");
+  });
+
+  it("keeps suffix words elsewhere and never empties the name", () => {
+    expect(normalizeStudioName("Inc Studio")).toBe("inc studio");
+    expect(normalizeStudioName("AB")).toBe("ab");
+  });
+
+  it("returns an empty key for names with no letters or digits", () => {
+    expect(normalizeStudioName(" — !")).toBe("");
+  });
+});
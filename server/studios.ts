@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+import { steam, recordSteamAppSnapshot } from "./steam";
+import { indexSteamApp } from "./steam/app-index";
+import type { SteamAppIndexEntry, Studio, StudioGame, StudioOverview } from "@shared/schema";
+
+// Legal-entity suffixes that Steam listings add or drop inconsistently
+const CORPORATE_SUFFIXES = new Set([
+  "inc", "llc", "ltd", "limited", "gmbh", "ab", "oy", "sa", "srl", "bv", "pty", "corp", "corporation", "kk",
+]);
+
+/**
+ * Canonical key for a developer name, so "Team Cherry", "Team Cherry Pty Ltd"
+ * and "team cherry" resolve to the same studio.
+ */
+export function normalizeStudioName(name: string): string {
+  const words = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\b([a-z])\.(?=[a-z]\.)/g, "$1") // "s.a." -> "sa."
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  // Only trailing suffixes, and never the whole name ("AB" alone stays "ab")
+  while (words.length > 1 && CORPORATE_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(" ");
+}
+
+// Shared studios from before organizations had their own are visible to all
+export function isStudioVisible(studio: Studio, orgId: number): boolean {
+  return studio.orgId === null || studio.orgId === orgId;
+}
+
+// The studio if the organization may see it
+export async function getStudioForOrganization(id: number, orgId: number): Promise<Studio | undefined> {
+  const studio = await storage.getStudio(id);
+  return studio && isStudioVisible(studio, orgId) ? studio : undefined;
+}
+
+/**
+ * Finds the organization's studio for a developer name, creating it on first
+ * sight, and records the Steam app against it when one is given.
+ */
+export async function findOrCreateStudio(
+  orgId: number,
+  name: string,
+  options: { steamAppId?: number; website?: string | null } = {}
+): Promise<Studio | undefined> {
+  const normalizedName = normalizeStudioName(name);
+  if (!normalizedName) return undefined;
+
+  let studio = await storage.getStudioByNormalizedName(orgId, normalizedName);
+  if (!studio) {
+    try {
+      return await storage.createStudio({
+        orgId,
+        name: name.trim(),
+        normalizedName,
+        website: options.website || null,
+        steamAppIds: options.steamAppId ? [options.steamAppId] : [],
+      });
+    } catch (error) {
+      // Lost a race with a concurrent insert on the unique normalized name
+      studio = await storage.getStudioByNormalizedName(orgId, normalizedName);
+      if (!studio) throw error;
+    }
+  }
+
+  if (options.steamAppId && !studio.steamAppIds.includes(options.steamAppId)) {
+    studio = await storage.addSteamAppToStudio(studio.id, options.steamAppId);
+  }
+  return studio;
+}
+
+// Apps the Discover index hasn't seen yet are fetched live, at most this many per view
+const MAX_LIVE_STUDIO_FETCHES = 5;
+
+async function indexAppLive(appId: number): Promise<void> {
+  try {
+    const appData = await steam.appDetails(appId);
+    if (!appData) return;
+    const [playerCount, reviews] = await Promise.all([steam.currentPlayers(appId), steam.reviews(appId)]);
+    await recordSteamAppSnapshot(appData, playerCount, reviews);
+    await indexSteamApp(appData, playerCount, reviews);
+  } catch (error) {
+    console.warn(`Failed to fetch studio game ${appId}:`, error);
+  }
+}
+
+function toStudioGame(entry: SteamAppIndexEntry): StudioGame {
+  return {
+    appid: entry.steamAppId,
+    name: entry.name,
+    headerImage: entry.headerImage ?? undefined,
+    releaseDate: entry.releaseDate?.toISOString().slice(0, 10),
+    playerCount: entry.playerCount ?? 0,
+    reviews: entry.totalReviews !== null && entry.positivePercent !== null
+      ? { total: entry.totalReviews, positivePercent: entry.positivePercent }
+      : undefined,
+  };
+}
+
+/**
+ * A studio's games and combined numbers, read from the Discover index so a
+ * studio with many games doesn't cost a Steam request per game on every view.
+ * The collector keeps followed apps current.
+ */
+export async function getStudioOverview(studio: Studio, orgId: number): Promise<StudioOverview> {
+  let entries = await storage.getSteamAppIndexEntries(studio.steamAppIds);
+  const unindexed = studio.steamAppIds
+    .filter((appId) => !entries.some((entry) => entry.steamAppId === appId))
+    .slice(0, MAX_LIVE_STUDIO_FETCHES);
+
+  if (unindexed.length > 0) {
+    // One at a time, so a view never bursts past Steam's rate limit
+    for (const appId of unindexed) {
+      await indexAppLive(appId);
+    }
+    entries = await storage.getSteamAppIndexEntries(studio.steamAppIds);
+  }
+
+  const games = entries.map(toStudioGame).sort((a, b) => b.playerCount - a.playerCount);
+  const totals = games.reduce(
+    (acc, game) => ({
+      playerCount: acc.playerCount + game.playerCount,
+      totalReviews: acc.totalReviews + (game.reviews?.total ?? 0),
+      positiveReviews: acc.positiveReviews + Math.round(((game.reviews?.total ?? 0) * (game.reviews?.positivePercent ?? 0)) / 100),
+    }),
+    { playerCount: 0, totalReviews: 0, positiveReviews: 0 }
+  );
+
+  const leads = await storage.getLeadsForStudio(studio, orgId);
+  return { studio, games, totals, leads };
+}
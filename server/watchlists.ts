@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+import { steam, recordSteamAppSnapshot } from "./steam";
+import { indexSteamApp } from "./steam/app-index";
+import type { Watchlist, WatchlistItem } from "@shared/schema";
+
+// Watchlists are personal: anyone else's is treated as not found
+export async function getOwnWatchlist(id: number, userId: string): Promise<Watchlist | undefined> {
+  const watchlist = await storage.getWatchlist(id);
+  return watchlist?.userId === userId ? watchlist : undefined;
+}
+
+/**
+ * Adds a Steam app to a watchlist with its current player count as the
+ * baseline. The fetch is snapshotted and indexed like any other, so the app
+ * shows up with a name straight away. Returns null for unknown apps.
+ */
+export async function watchSteamApp(watchlistId: number, steamAppId: number): Promise<WatchlistItem | null> {
+  const appData = await steam.appDetails(steamAppId);
+  if (!appData) return null;
+
+  const [playerCount, reviews] = await Promise.all([
+    steam.currentPlayers(steamAppId),
+    steam.reviews(steamAppId),
+  ]);
+  await recordSteamAppSnapshot(appData, playerCount, reviews);
+  await indexSteamApp(appData, playerCount, reviews);
+
+  return await storage.addWatchlistItem(watchlistId, steamAppId, playerCount);
+}
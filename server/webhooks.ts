@@ -0,0 +1,30 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { isInternalHost, isPrivateAddress } from "@shared/network";
+
+/**
+ * Whether a webhook URL is http(s) and every address its host resolves to is
+ * on the public internet, so members can't use webhooks to reach the
+ * server's own network. Checked when a rule is saved and before each send,
+ * since DNS can change in between.
+ */
+export async function isPublicWebhookUrl(webhookUrl: string): Promise<boolean> {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+  if (isInternalHost(url.hostname)) return false;
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return true;
+
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && !addresses.some(({ address }) => isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvRecords, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("handles quoted commas, newlines and doubled quotes", () => {
+    expect(parseCsv('name,notes\r\n"Team Cherry","Said ""hi"", twice\nthen left"\r\n')).toEqual([
+      ["name", "notes"],
+      ["Team Cherry", 'Said "hi", twice\nthen left'],
+    ]);
+  });
+
+  it("drops a leading BOM and blank lines", () => {
+    expect(parseCsv("﻿a,b\n\n1,2\n")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  it("keys records by trimmed header and pads short rows", () => {
+    expect(parseCsvRecords(" name ,engine\nHades\n")).toEqual({
+      headers: ["name", "engine"],
+      records: [{ name: "Hades", engine: "" }],
+    });
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes fields with commas, quotes or newlines", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines", 3, null]])).toBe('"a,b","say ""hi""","two\nlines",3,\r\n');
+  });
+
+  it.each([
+    ["=1+1", "'=1+1"],
+    ["+cmd", "'+cmd"],
+    ["-1+1", "'-1+1"],
+    ["@SUM(A1)", "'@SUM(A1)"],
+    ["\tTab", "'\tTab"],
+    ['=HYPERLINK("http://x")', '"\'=HYPERLINK(""http://x"")"'],
+  ])("prefixes formula-like text %j with a quote", (value, expected) => {
+    expect(toCsv([[value]])).toBe(`${expected}\r\n`);
+  });
+
+  it("leaves negative numbers alone, whether numbers or numeric text", () => {
+    expect(toCsv([[-5, "-5", "-1.5"]])).toBe("-5,-5,-1.5\r\n");
+  });
+
+  it("round-trips through parseCsv", () => {
+    const rows = [["name", "notes"], ["Supergiant", 'Line one\r\nline "two"']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
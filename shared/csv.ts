@@ -0,0 +1,80 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and
+ * doubled quotes. Accepts CRLF or LF line endings and a leading BOM, as
+ * written by Excel and Google Sheets. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Splits parsed CSV into its header row and records keyed by header. Short
+ * rows are padded with empty strings; extra cells are ignored.
+ */
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map((header) => header.trim());
+  const records = rows.map((row) =>
+    Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ""]))
+  );
+  return { headers, records };
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCsvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  let field = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(field) && isNaN(Number(field))) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Writes rows as RFC 4180 CSV with CRLF line endings. Text that a spreadsheet
+ * would evaluate as a formula is prefixed with a quote.
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(formatCsvField).join(",")).join("\r\n") + "\r\n";
+}
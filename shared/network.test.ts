@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { isInternalHost, isPrivateAddress } from "./network";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "0.0.0.0",
+    "10.1.2.3",
+    "100.64.0.1",
+    "127.0.0.1",
+    "169.254.169.254",
+    "172.16.0.1",
+    "172.31.255.255",
+    "192.0.0.8",
+    "192.168.1.1",
+    "198.18.0.1",
+    "224.0.0.1",
+    "255.255.255.255",
+  ])("treats %s as private", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "1.1.1.1", "172.32.0.1", "100.128.0.1", "169.255.0.1", "198.20.0.1"])(
+    "treats %s as public",
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+
+  it.each(["::", "::1", "fc00::1", "fd12:3456::1", "fe80::1", "FE80::abcd", "ff02::1"])(
+    "treats IPv6 %s as private",
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it.each(["2606:4700:4700::1111", "2001:4860:4860::8888"])("treats IPv6 %s as public", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it("checks the IPv4 address inside IPv4-mapped IPv6, dotted or hex", () => {
+    expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:10.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:7f00:1")).toBe(true);
+    expect(isPrivateAddress("::FFFF:A9FE:A9FE")).toBe(true);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+    expect(isPrivateAddress("::ffff:808:808")).toBe(false);
+  });
+
+  it("reports anything that isn't an IP address as not private", () => {
+    expect(isPrivateAddress("example.com")).toBe(false);
+    expect(isPrivateAddress("10.0.0")).toBe(false);
+    expect(isPrivateAddress("10.0.0.256")).toBe(false);
+  });
+});
+
+describe("isInternalHost", () => {
+  it("catches localhost names", () => {
+    expect(isInternalHost("localhost")).toBe(true);
+    expect(isInternalHost("LOCALHOST.")).toBe(true);
+    expect(isInternalHost("api.localhost")).toBe(true);
+  });
+
+  it("catches private IP literals, bracketed or not", () => {
+    expect(isInternalHost("192.168.0.10")).toBe(true);
+    expect(isInternalHost("[::1]")).toBe(true);
+    expect(isInternalHost("[::ffff:7f00:1]")).toBe(true);
+  });
+
+  it("lets public hosts through", () => {
+    expect(isInternalHost("hooks.slack.com")).toBe(false);
+    expect(isInternalHost("localhost.example.com")).toBe(false);
+    expect(isInternalHost("93.184.216.34")).toBe(false);
+  });
+});
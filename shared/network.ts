@@ -0,0 +1,73 @@
+// IPv4 ranges that don't lead to the public internet: this network,
+// private, carrier-grade NAT, loopback, link-local (cloud metadata lives at
+// 169.254.169.254), IETF protocol assignments, benchmarking, multicast and
+// reserved
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const value = parseIPv4(address);
+  if (value === null) return false;
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(parseIPv4(base)! / size);
+  });
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  // IPv4-mapped (::ffff:10.0.0.1) and the dotted tail of other embedded forms
+  const embedded = lower.match(/(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (embedded) return isPrivateIPv4(embedded[1]);
+  // ::ffff:7f00:1 is the hex spelling of ::ffff:127.0.0.1
+  const mapped = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  if (lower === "::" || lower === "::1") return true;
+  const first = parseInt(lower.split(":")[0] || "0", 16);
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local, fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local, fe80::/10
+    (first & 0xff00) === 0xff00 // multicast, ff00::/8
+  );
+}
+
+/**
+ * Whether an IP address (v4 or v6, without brackets) is loopback, private,
+ * link-local or otherwise not on the public internet. Anything that isn't an
+ * IP address is reported as not private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  return address.includes(":") ? isPrivateIPv6(address) : isPrivateIPv4(address);
+}
+
+/**
+ * Whether a URL's host is plainly internal: localhost names or a private IP
+ * literal. Names that resolve to private addresses need a DNS lookup to
+ * catch, which only the server can do.
+ */
+export function isInternalHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  return host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host);
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertLeadSchema, leads } from './schema';
+import { ORGANIZATION_ROLES, TOP_GAME_CATEGORIES, addOrganizationMemberSchema, leadImportMappingSchema, leadScoringConfigSchema, steamCatalogSearchSchema, topGamesQuerySchema, insertTrackedAppSchema, insertWatchlistSchema, insertWatchlistItemSchema, insertAlertRuleSchema, updateAlertRuleSchema, steamDiscoverFiltersSchema, insertContactSchema, insertLeadSchema, insertOrganizationSchema, insertPipelineStageSchema, insertStudioSchema, insertTaskSchema, updatePipelineStageSchema, contacts, leads, pipelineStages, tasks, steamAppSnapshots, studios, type EngineDetection, type LeadEventWithActor, type LeadImportResult, type OrganizationMemberProfile, type OrganizationWithRole, type SteamAppDetails, type SteamAppIndexEntry, type TrackedApp, type Watchlist, type WatchlistItem, type WatchlistWithItems, type AlertRule, type AlertEventWithRule, type Notification, type NotificationFeed, type LiveEvent, type StudioOverview, type TaskWithLead } from './schema';
 
 export const errorSchemas = {
   validation: z.object({
@@ -12,6 +12,13 @@ export const errorSchemas = {
   internal: z.object({
     message: z.string(),
   }),
+  conflict: z.object({
+    message: z.string(),
+  }),
+  duplicateLead: z.object({
+    message: z.string(),
+    lead: z.custom<typeof leads.$inferSelect>(),
+  }),
 };
 
 export const api = {
@@ -38,6 +45,7 @@ export const api = {
       responses: {
         201: z.custom<typeof leads.$inferSelect>(),
         400: errorSchemas.validation,
+        409: errorSchemas.duplicateLead,
       },
     },
     update: {
@@ -58,34 +66,438 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    reorder: {
+      method: 'PUT' as const,
+      path: '/api/leads/reorder',
+      input: z.object({
+        columns: z.array(z.object({
+          status: z.string(),
+          ids: z.array(z.number().int().positive()),
+        })).min(1),
+      }),
+      responses: {
+        200: z.array(z.custom<typeof leads.$inferSelect>()),
+        400: errorSchemas.validation,
+      },
+    },
+    // A file download; the filters narrow which leads go into it
+    export: {
+      method: 'GET' as const,
+      path: '/api/leads/export',
+      input: z.object({
+        format: z.enum(['csv', 'xlsx', 'json']).default('csv'),
+        status: z.string().optional(),
+        engine: z.string().optional(),
+        from: z.coerce.date().optional(), // created on or after
+        to: z.coerce.date().optional(), // created on or before
+      }),
+      responses: {
+        200: z.any(),
+        400: errorSchemas.validation,
+      },
+    },
+    // Dry runs validate every row without writing anything
+    import: {
+      method: 'POST' as const,
+      path: '/api/leads/import',
+      input: z.object({
+        csv: z.string().min(1, "The CSV file is empty"),
+        mapping: leadImportMappingSchema,
+        dryRun: z.boolean().default(false),
+      }),
+      responses: {
+        200: z.custom<LeadImportResult>(),
+        400: errorSchemas.validation,
+      },
+    },
+    assign: {
+      method: 'PUT' as const,
+      path: '/api/leads/:id/assignee',
+      input: z.object({ assigneeId: z.string().min(1).nullable() }),
+      responses: {
+        200: z.custom<typeof leads.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    events: {
+      method: 'GET' as const,
+      path: '/api/leads/:id/events',
+      responses: {
+        200: z.array(z.custom<LeadEventWithActor>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    merge: {
+      method: 'POST' as const,
+      path: '/api/leads/:id/merge',
+      input: z.object({ sourceId: z.number().int().positive() }),
+      responses: {
+        200: z.custom<typeof leads.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  contacts: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/leads/:leadId/contacts',
+      responses: {
+        200: z.array(z.custom<typeof contacts.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/leads/:leadId/contacts',
+      input: insertContactSchema,
+      responses: {
+        201: z.custom<typeof contacts.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/contacts/:id',
+      input: insertContactSchema.partial(),
+      responses: {
+        200: z.custom<typeof contacts.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/contacts/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  tasks: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/tasks',
+      // Open tasks by default; dueBefore narrows to those due by then (e.g. end of today)
+      input: z.object({
+        leadId: z.coerce.number().int().positive().optional(),
+        dueBefore: z.coerce.date().optional(),
+        status: z.enum(['open', 'completed', 'all']).default('open'),
+      }),
+      responses: {
+        200: z.array(z.custom<TaskWithLead>()),
+        400: errorSchemas.validation,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/leads/:leadId/tasks',
+      input: insertTaskSchema,
+      responses: {
+        201: z.custom<typeof tasks.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    complete: {
+      method: 'PUT' as const,
+      path: '/api/tasks/:id/complete',
+      input: z.object({ completed: z.boolean() }),
+      responses: {
+        200: z.custom<typeof tasks.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/tasks/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  organizations: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/organizations',
+      responses: {
+        200: z.array(z.custom<OrganizationWithRole>()),
+      },
+    },
+    active: {
+      method: 'GET' as const,
+      path: '/api/organizations/active',
+      responses: {
+        200: z.custom<OrganizationWithRole>(),
+      },
+    },
+    // Stored in a cookie; every lead and stage route acts in the active organization
+    switch: {
+      method: 'PUT' as const,
+      path: '/api/organizations/active',
+      input: z.object({ organizationId: z.number().int().positive() }),
+      responses: {
+        200: z.custom<OrganizationWithRole>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/organizations',
+      input: insertOrganizationSchema,
+      responses: {
+        201: z.custom<OrganizationWithRole>(),
+        400: errorSchemas.validation,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/organizations/:id',
+      input: insertOrganizationSchema.partial(),
+      responses: {
+        200: z.custom<OrganizationWithRole>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Weights behind every lead's score; saving them rescores the whole pipeline
+    scoring: {
+      method: 'GET' as const,
+      path: '/api/organizations/:id/scoring',
+      responses: {
+        200: leadScoringConfigSchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    updateScoring: {
+      method: 'PUT' as const,
+      path: '/api/organizations/:id/scoring',
+      input: leadScoringConfigSchema,
+      responses: {
+        200: leadScoringConfigSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    members: {
+      method: 'GET' as const,
+      path: '/api/organizations/:id/members',
+      responses: {
+        200: z.array(z.custom<OrganizationMemberProfile>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    addMember: {
+      method: 'POST' as const,
+      path: '/api/organizations/:id/members',
+      input: addOrganizationMemberSchema,
+      responses: {
+        201: z.custom<OrganizationMemberProfile>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    updateMember: {
+      method: 'PUT' as const,
+      path: '/api/organizations/:id/members/:userId',
+      input: z.object({ role: z.enum(ORGANIZATION_ROLES) }),
+      responses: {
+        200: z.custom<OrganizationMemberProfile>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    removeMember: {
+      method: 'DELETE' as const,
+      path: '/api/organizations/:id/members/:userId',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+  },
+  pipelineStages: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/pipeline-stages',
+      responses: {
+        200: z.array(z.custom<typeof pipelineStages.$inferSelect>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/pipeline-stages',
+      input: insertPipelineStageSchema,
+      responses: {
+        201: z.custom<typeof pipelineStages.$inferSelect>(),
+        400: errorSchemas.validation,
+        409: errorSchemas.conflict,
+      },
+    },
+    reorder: {
+      method: 'PUT' as const,
+      path: '/api/pipeline-stages/reorder',
+      input: z.object({ ids: z.array(z.number().int().positive()).min(1) }),
+      responses: {
+        200: z.array(z.custom<typeof pipelineStages.$inferSelect>()),
+        400: errorSchemas.validation,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/pipeline-stages/:id',
+      input: updatePipelineStageSchema,
+      responses: {
+        200: z.custom<typeof pipelineStages.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/pipeline-stages/:id',
+      // Leads still in the stage move to `moveTo`; without it, a non-empty stage is a 409
+      input: z.object({ moveTo: z.string().optional() }),
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+  },
+  studios: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/studios',
+      responses: {
+        200: z.array(z.custom<typeof studios.$inferSelect>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/studios/:id',
+      responses: {
+        200: z.custom<typeof studios.$inferSelect>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    overview: {
+      method: 'GET' as const,
+      path: '/api/studios/:id/overview',
+      responses: {
+        200: z.custom<StudioOverview>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/studios',
+      input: insertStudioSchema,
+      responses: {
+        201: z.custom<typeof studios.$inferSelect>(),
+        400: errorSchemas.validation,
+        409: errorSchemas.conflict,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/studios/:id',
+      input: insertStudioSchema.partial(),
+      responses: {
+        200: z.custom<typeof studios.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/studios/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
   },
   steam: {
     search: {
       method: 'GET' as const,
       path: '/api/steam/search',
-      input: z.object({ term: z.string() }),
+      input: steamCatalogSearchSchema,
       responses: {
-        200: z.array(z.object({
-          appid: z.number(),
-          name: z.string(),
-          logo: z.string(),
-          icon: z.string(),
-        })),
+        200: z.object({
+          results: z.array(z.object({
+            appid: z.number(),
+            name: z.string(),
+            logo: z.string(),
+            icon: z.string(),
+            type: z.string().nullable().optional(),
+          })),
+          total: z.number(),
+          page: z.number(),
+          limit: z.number(),
+        }),
+        400: errorSchemas.validation,
+      },
+    },
+    // Filters apps we've already fetched, from the steam_app_index table
+    discover: {
+      method: 'GET' as const,
+      path: '/api/steam/discover',
+      input: steamDiscoverFiltersSchema,
+      responses: {
+        200: z.array(z.custom<SteamAppIndexEntry>()),
+        400: errorSchemas.validation,
+      },
+    },
+    discoverFacets: {
+      method: 'GET' as const,
+      path: '/api/steam/discover/facets',
+      responses: {
+        200: z.object({ genres: z.array(z.string()), tags: z.array(z.string()) }),
       },
     },
     details: {
       method: 'GET' as const,
       path: '/api/steam/app/:id',
       responses: {
-        200: z.custom<any>(), // SteamAppDetails
+        200: z.custom<SteamAppDetails>(),
         404: errorSchemas.notFound,
       },
     },
+    history: {
+      method: 'GET' as const,
+      path: '/api/steam/app/:id/history',
+      input: z.object({ days: z.coerce.number().int().min(1).max(365).default(30) }),
+      responses: {
+        200: z.array(z.custom<typeof steamAppSnapshots.$inferSelect>()),
+        400: errorSchemas.validation,
+      },
+    },
+    engine: {
+      method: 'GET' as const,
+      path: '/api/steam/app/:id/engine',
+      responses: {
+        200: z.custom<EngineDetection>(),
+        400: errorSchemas.validation,
+      },
+    },
     topGames: {
       method: 'GET' as const,
       path: '/api/steam/top',
+      input: topGamesQuerySchema,
       responses: {
         200: z.object({
+          category: z.enum(TOP_GAME_CATEGORIES),
           games: z.array(z.object({
             appid: z.number(),
             name: z.string(),
@@ -93,10 +505,14 @@ export const api = {
             developers: z.array(z.string()),
             publishers: z.array(z.string()),
             playerCount: z.number(),
-            reviewScore: z.number().optional(),
+            reviewScore: z.number().optional(), // % positive Steam user reviews
+            reviewScoreDesc: z.string().optional(),
+            positiveReviews: z.number().optional(),
+            negativeReviews: z.number().optional(),
             totalReviews: z.number().optional(),
             releaseDate: z.string().optional(),
             genres: z.array(z.string()).optional(),
+            playerGrowth: z.number().optional(), // % change in players over the growth window
           })),
           studios: z.array(z.object({
             name: z.string(),
@@ -105,8 +521,164 @@ export const api = {
             topGame: z.string(),
           })),
         }),
+        400: errorSchemas.validation,
+      },
+    },
+    // The organization's tracked apps, behind the "tracked" top-games category
+    trackedApps: {
+      list: {
+        method: 'GET' as const,
+        path: '/api/steam/tracked',
+        responses: {
+          200: z.array(z.custom<TrackedApp>()),
+        },
+      },
+      add: {
+        method: 'POST' as const,
+        path: '/api/steam/tracked',
+        input: insertTrackedAppSchema,
+        responses: {
+          201: z.custom<TrackedApp>(),
+          400: errorSchemas.validation,
+          404: errorSchemas.notFound,
+        },
+      },
+      remove: {
+        method: 'DELETE' as const,
+        path: '/api/steam/tracked/:appId',
+        responses: {
+          204: z.void(),
+          404: errorSchemas.notFound,
+        },
+      },
+    },
+  },
+  watchlists: {
+    // The current user's watchlists, each with its items
+    list: {
+      method: 'GET' as const,
+      path: '/api/watchlists',
+      responses: {
+        200: z.array(z.custom<WatchlistWithItems>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/watchlists',
+      input: insertWatchlistSchema,
+      responses: {
+        201: z.custom<Watchlist>(),
+        400: errorSchemas.validation,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/watchlists/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    addItem: {
+      method: 'POST' as const,
+      path: '/api/watchlists/:id/items',
+      input: insertWatchlistItemSchema,
+      responses: {
+        201: z.custom<WatchlistItem>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    removeItem: {
+      method: 'DELETE' as const,
+      path: '/api/watchlists/:id/items/:appId',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  alerts: {
+    listRules: {
+      method: 'GET' as const,
+      path: '/api/alerts/rules',
+      responses: {
+        200: z.array(z.custom<AlertRule>()),
       },
-    }
+    },
+    createRule: {
+      method: 'POST' as const,
+      path: '/api/alerts/rules',
+      input: insertAlertRuleSchema,
+      responses: {
+        201: z.custom<AlertRule>(),
+        400: errorSchemas.validation,
+      },
+    },
+    updateRule: {
+      method: 'PUT' as const,
+      path: '/api/alerts/rules/:id',
+      input: updateAlertRuleSchema,
+      responses: {
+        200: z.custom<AlertRule>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    deleteRule: {
+      method: 'DELETE' as const,
+      path: '/api/alerts/rules/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    // The organization's most recent alerts, newest first
+    events: {
+      method: 'GET' as const,
+      path: '/api/alerts/events',
+      responses: {
+        200: z.array(z.custom<AlertEventWithRule>()),
+      },
+    },
+  },
+  // The signed-in user's notifications from the active organization
+  notifications: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/notifications',
+      responses: {
+        200: z.custom<NotificationFeed>(),
+      },
+    },
+    // Registered before markRead so "read-all" isn't taken for an :id
+    markAllRead: {
+      method: 'PATCH' as const,
+      path: '/api/notifications/read-all',
+      responses: {
+        200: z.object({ updated: z.number() }),
+      },
+    },
+    markRead: {
+      method: 'PATCH' as const,
+      path: '/api/notifications/:id',
+      input: z.object({ read: z.boolean() }),
+      responses: {
+        200: z.custom<Notification>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  events: {
+    // Server-Sent Events, one LiveEvent per message; only the Express server serves it
+    stream: {
+      method: 'GET' as const,
+      path: '/api/events/stream',
+      responses: {
+        200: z.custom<LiveEvent>(),
+      },
+    },
   }
 };
 
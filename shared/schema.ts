@@ -1,7 +1,9 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, real, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { users } from "./models/auth";
+import { isInternalHost } from "./network";
 
 export * from "./models/auth";
 
@@ -11,15 +13,24 @@ export const leads = pgTable("leads", {
   name: text("name").notNull(),
   steamAppId: text("steam_app_id"), 
   website: text("website"),
-  status: text("status").notNull().default("new"), // new, contacted, interested, closed
+  status: text("status").notNull().default("new"), // a pipeline_stages.key of the lead's organization
+  position: integer("position").notNull().default(0), // order within the status column, ascending
   engine: text("engine").default("Unknown"),
   notes: text("notes"),
   metrics: jsonb("metrics"), // { followers, reviews, ccu, estimatedRevenue }
+  studioId: integer("studio_id").references(() => studios.id, { onDelete: "set null" }),
+  assigneeId: varchar("assignee_id").references(() => users.id, { onDelete: "set null" }), // org member working the lead
+  score: integer("score"), // 0-100 from server/lead-scoring; null until first scored
+  scoreBreakdown: jsonb("score_breakdown"), // LeadScoreBreakdown behind the score
+  // Null only on leads created before organizations; claimed by the creator's personal org
+  orgId: integer("org_id").references(() => organizations.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertLeadSchema = createInsertSchema(leads).omit({ id: true, createdAt: true, updatedAt: true, userId: true });
+// Assignment goes through its own endpoint, which checks the assignee is in the organization.
+// Scores are only ever computed by the server.
+export const insertLeadSchema = createInsertSchema(leads).omit({ id: true, createdAt: true, updatedAt: true, userId: true, orgId: true, assigneeId: true, score: true, scoreBreakdown: true });
 export const fullInsertLeadSchema = createInsertSchema(leads).omit({ id: true, createdAt: true, updatedAt: true });
 
 export type Lead = typeof leads.$inferSelect;
@@ -29,12 +40,593 @@ export type FullInsertLead = z.infer<typeof fullInsertLeadSchema>;
 export type CreateLeadRequest = InsertLead;
 export type UpdateLeadRequest = Partial<InsertLead>;
 
+// Engines a lead can be tagged with; "Custom" covers in-house and less common engines
+export const LEAD_ENGINES = ["Unknown", "Unity", "Unreal", "Godot", "Custom"] as const;
+export type LeadEngine = typeof LEAD_ENGINES[number];
+
+// Where an engine guess came from, strongest first
+export const ENGINE_DETECTION_SOURCES = ["override", "files", "legal_notices", "tags", "store_text"] as const;
+export type EngineDetectionSource = typeof ENGINE_DETECTION_SOURCES[number];
+
+export interface EngineDetection {
+  appId: number;
+  engine: LeadEngine;
+  confidence: number; // 0-1; 0 when nothing pointed at an engine
+  sources: EngineDetectionSource[]; // every source that agreed with the result
+  evidence: string[]; // what matched, e.g. "GameMaker", "Unreal Engine"
+}
+
+// Lead columns a spreadsheet import can fill
+export const LEAD_IMPORT_FIELDS = ["name", "steamAppId", "website", "status", "engine", "notes"] as const;
+export type LeadImportField = typeof LEAD_IMPORT_FIELDS[number];
+
+// Which CSV header feeds each lead field; unmapped fields are left empty
+export const leadImportMappingSchema = z.object({
+  name: z.string().min(1, "Choose the column holding the lead name"),
+  steamAppId: z.string().optional(),
+  website: z.string().optional(),
+  status: z.string().optional(),
+  engine: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export type LeadImportMapping = z.infer<typeof leadImportMappingSchema>;
+
+export interface LeadImportRow {
+  row: number; // 1-based line in the file, counting the header
+  name: string;
+  outcome: "valid" | "imported" | "duplicate" | "invalid";
+  errors: { field: string; message: string }[];
+  leadId?: number; // the created lead, or the existing one for duplicates
+}
+
+export interface LeadImportResult {
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  valid: number;
+  duplicates: number;
+  invalid: number;
+  rows: LeadImportRow[];
+}
+
+export const LEAD_EVENT_TYPES = ["created", "status_changed", "field_updated", "note", "assigned", "metrics_refreshed", "merged"] as const;
+export type LeadEventType = typeof LEAD_EVENT_TYPES[number];
+
+// Append-only history of a lead. userId is the actor, null for system changes
+// such as the Steam collector refreshing metrics.
+export const leadEvents = pgTable("lead_events", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // one of LEAD_EVENT_TYPES
+  field: text("field"), // the lead column that changed, for status_changed/field_updated/note/assigned
+  oldValue: jsonb("old_value"),
+  newValue: jsonb("new_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_lead_events_lead_created").on(table.leadId, table.createdAt)]);
+
+export const insertLeadEventSchema = createInsertSchema(leadEvents, {
+  type: z.enum(LEAD_EVENT_TYPES),
+}).omit({ id: true, createdAt: true });
+
+export type LeadEvent = typeof leadEvents.$inferSelect;
+export type InsertLeadEvent = z.infer<typeof insertLeadEventSchema>;
+
+export interface LeadEventWithActor extends LeadEvent {
+  actorName: string | null;
+}
+
+// A person we talk to at the studio behind a lead
+export const contacts = pgTable("contacts", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  role: text("role"), // job title at the studio, e.g. "Producer"
+  email: text("email"),
+  twitter: text("twitter"), // Twitter/X handle or profile URL
+  discord: text("discord"),
+  linkedin: text("linkedin"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_contacts_lead").on(table.leadId)]);
+
+// leadId comes from the route, not the body
+export const insertContactSchema = createInsertSchema(contacts, {
+  name: (schema) => schema.trim().min(1, "Contact name is required"),
+  email: (schema) => schema.trim().email("Invalid email address"),
+}).omit({ id: true, leadId: true, createdAt: true, updatedAt: true });
+
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = z.infer<typeof insertContactSchema>;
+export type UpdateContactRequest = Partial<InsertContact>;
+
+// A follow-up on a lead. Open until completedAt is set.
+export const tasks = pgTable("tasks", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  leadId: integer("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  assigneeId: varchar("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  completedAt: timestamp("completed_at"),
+  dueNotifiedAt: timestamp("due_notified_at"), // set once the assignee has been told the task is due
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_tasks_org_due").on(table.orgId, table.dueAt),
+  index("IDX_tasks_lead").on(table.leadId),
+]);
+
+// Dates arrive as ISO strings over JSON
+export const insertTaskSchema = createInsertSchema(tasks, {
+  title: (schema) => schema.trim().min(1, "Task title is required"),
+  dueAt: z.coerce.date({ invalid_type_error: "Due date is invalid" }),
+}).omit({ id: true, orgId: true, leadId: true, createdById: true, completedAt: true, dueNotifiedAt: true, createdAt: true });
+
+export type Task = typeof tasks.$inferSelect;
+export type InsertTask = z.infer<typeof insertTaskSchema>;
+
+export interface TaskWithLead extends Task {
+  leadName: string;
+}
+
+// A team sharing one pipeline. Every user gets a personal one on first use.
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  scoringConfig: jsonb("scoring_config"), // LeadScoringConfig; null uses DEFAULT_LEAD_SCORING
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const ORGANIZATION_ROLES = ["owner", "member", "viewer"] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("member"), // one of ORGANIZATION_ROLES
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_organization_members_org_user").on(table.orgId, table.userId)]);
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(60),
+}).omit({ id: true, createdById: true, scoringConfig: true, createdAt: true });
+
+export const addOrganizationMemberSchema = z.object({
+  email: z.string().trim().email("Enter a valid email"),
+  role: z.enum(ORGANIZATION_ROLES).default("member"),
+});
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+
+export interface OrganizationWithRole extends Organization {
+  role: OrganizationRole;
+}
+
+export interface OrganizationMemberProfile {
+  userId: string;
+  role: OrganizationRole;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+  joinedAt: Date | null;
+}
+
+// A column on the organization's pipeline board; leads.status holds the stage key.
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id), // who added it; null for seeded defaults
+  orgId: integer("org_id").references(() => organizations.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  label: text("label").notNull(),
+  color: text("color").notNull().default("#3b82f6"),
+  position: integer("position").notNull().default(0),
+  outcome: text("outcome").notNull().default("open"), // open, won, lost
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_pipeline_stages_org_key").on(table.orgId, table.key)]);
+
+export const STAGE_OUTCOMES = ["open", "won", "lost"] as const;
+export type StageOutcome = typeof STAGE_OUTCOMES[number];
+
+export const insertPipelineStageSchema = createInsertSchema(pipelineStages, {
+  key: (schema) => schema.regex(/^[a-z0-9][a-z0-9_-]{0,39}$/, "Key must be lowercase letters, digits, - or _"),
+  label: (schema) => schema.trim().min(1, "Label is required").max(40),
+  color: (schema) => schema.regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3b82f6"),
+  outcome: z.enum(STAGE_OUTCOMES).default("open"),
+}).omit({ id: true, userId: true, orgId: true, createdAt: true });
+// The key is what leads reference, so it is fixed once the stage exists
+export const updatePipelineStageSchema = insertPipelineStageSchema.omit({ key: true }).partial();
+
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type UpdatePipelineStageRequest = z.infer<typeof updatePipelineStageSchema>;
+
+// Seeded for organizations that haven't configured their own stages
+export const DEFAULT_PIPELINE_STAGES: InsertPipelineStage[] = [
+  { key: "new", label: "New Lead", color: "#3b82f6", position: 0, outcome: "open" },
+  { key: "contacted", label: "Contacted", color: "#eab308", position: 1, outcome: "open" },
+  { key: "interested", label: "Interested", color: "#22c55e", position: 2, outcome: "open" },
+  { key: "closed", label: "Closed", color: "#a855f7", position: 3, outcome: "won" },
+];
+
+// A developer on Steam; leads point at it via studioId.
+// Each organization keeps its own studios. Studios from before that have no
+// orgId; everyone can still see them, but nobody can change them.
+export const studios = pgTable("studios", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  normalizedName: text("normalized_name").notNull(), // see normalizeStudioName
+  website: text("website"),
+  steamAppIds: integer("steam_app_ids").array().notNull().default(sql`'{}'::integer[]`),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_studios_org_normalized_name").on(table.orgId, table.normalizedName)]);
+
+export const insertStudioSchema = createInsertSchema(studios, {
+  name: (schema) => schema.trim().min(1, "Studio name is required"),
+  steamAppIds: z.array(z.number().int().positive()),
+}).omit({ id: true, orgId: true, normalizedName: true, createdAt: true, updatedAt: true });
+
+export type Studio = typeof studios.$inferSelect;
+export type InsertStudio = z.infer<typeof insertStudioSchema>;
+
+export interface StudioGame {
+  appid: number;
+  name: string;
+  headerImage?: string;
+  releaseDate?: string;
+  playerCount: number;
+  reviews?: Pick<SteamUserReviews, "total" | "positivePercent">;
+}
+
+export interface StudioOverview {
+  studio: Studio;
+  games: StudioGame[];
+  totals: {
+    playerCount: number;
+    totalReviews: number;
+    positiveReviews: number;
+  };
+  leads: Lead[];
+}
+
+// Shape of leads.metrics. Captured when the lead is added, then kept current by the Steam collector.
+export interface LeadMetrics {
+  ccu?: number;
+  reviews?: number;
+  reviewScore?: number; // % positive Steam user reviews
+  reviewScoreDesc?: string;
+  followers?: number;
+  estimatedRevenue?: number;
+  refreshedAt?: string; // ISO timestamp of the last collector refresh
+  releaseDate?: string; // as Steam shows it, e.g. "24 Feb, 2017"
+  comingSoon?: boolean;
+}
+
+export const LEAD_SCORE_FACTORS = ["ccu", "reviews", "reviewRatio", "recency", "engine", "stage"] as const;
+export type LeadScoreFactor = typeof LEAD_SCORE_FACTORS[number];
+
+const scoreWeightSchema = z.number().min(0).max(10);
+
+// How an organization weighs each factor, relative to the others
+export const leadScoringConfigSchema = z.object({
+  weights: z.object({
+    ccu: scoreWeightSchema,
+    reviews: scoreWeightSchema,
+    reviewRatio: scoreWeightSchema,
+    recency: scoreWeightSchema,
+    engine: scoreWeightSchema,
+    stage: scoreWeightSchema,
+  }).refine((weights) => Object.values(weights).some((weight) => weight > 0), "Give at least one factor some weight"),
+  targetEngines: z.array(z.enum(LEAD_ENGINES)).min(1, "Pick at least one engine"),
+});
+
+export type LeadScoringConfig = z.infer<typeof leadScoringConfigSchema>;
+
+export const DEFAULT_LEAD_SCORING: LeadScoringConfig = {
+  weights: { ccu: 3, reviews: 2, reviewRatio: 2, recency: 2, engine: 4, stage: 1 },
+  targetEngines: ["Unity", "Unreal", "Godot"],
+};
+
+export interface LeadScoreFactorResult {
+  factor: LeadScoreFactor;
+  weight: number;
+  value: number; // 0-1, how well the lead does on this factor alone
+  points: number; // share of the 0-100 score this factor contributed
+  detail: string; // e.g. "1,200 players online"
+}
+
+export interface LeadScoreBreakdown {
+  factors: LeadScoreFactorResult[];
+  scoredAt: string; // ISO timestamp
+}
+
+// Point-in-time capture of a Steam app's public numbers, one row per fetch.
+export const steamAppSnapshots = pgTable("steam_app_snapshots", {
+  id: serial("id").primaryKey(),
+  steamAppId: integer("steam_app_id").notNull(),
+  playerCount: integer("player_count"),
+  totalRecommendations: integer("total_recommendations"),
+  priceCents: integer("price_cents"), // price_overview.final, in the store currency's minor unit
+  priceCurrency: text("price_currency"),
+  metacriticScore: integer("metacritic_score"),
+  totalReviews: integer("total_reviews"),
+  positiveReviews: integer("positive_reviews"),
+  releaseDate: text("release_date"), // Steam's display string, e.g. "24 Feb, 2017" or "Q3 2025"
+  capturedAt: timestamp("captured_at").defaultNow().notNull(),
+}, (table) => [index("IDX_steam_app_snapshots_app_captured").on(table.steamAppId, table.capturedAt)]);
+
+export const insertSteamAppSnapshotSchema = createInsertSchema(steamAppSnapshots).omit({ id: true, capturedAt: true });
+
+export type SteamAppSnapshot = typeof steamAppSnapshots.$inferSelect;
+export type InsertSteamAppSnapshot = z.infer<typeof insertSteamAppSnapshotSchema>;
+
+// Latest known details of every Steam app we've fetched, one row per app, so
+// Discover can filter without calling Steam. Tags and depot files cost extra
+// requests and are filled in later by the collector (enrichedAt).
+export const steamAppIndex = pgTable("steam_app_index", {
+  steamAppId: integer("steam_app_id").primaryKey(),
+  name: text("name").notNull(),
+  headerImage: text("header_image"),
+  website: text("website"),
+  developers: text("developers").array().notNull().default(sql`'{}'::text[]`),
+  publishers: text("publishers").array().notNull().default(sql`'{}'::text[]`),
+  genres: text("genres").array().notNull().default(sql`'{}'::text[]`),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // Steam user tags, most voted first
+  isFree: boolean("is_free").notNull().default(false),
+  priceCents: integer("price_cents"), // minor unit of the store currency (USD for our requests); 0 when free
+  releaseDate: timestamp("release_date"), // parsed from Steam's display date; null if unparseable
+  comingSoon: boolean("coming_soon").notNull().default(false),
+  totalReviews: integer("total_reviews"),
+  positivePercent: integer("positive_percent"),
+  playerCount: integer("player_count"),
+  engine: text("engine").notNull().default("Unknown"), // one of LEAD_ENGINES
+  engineConfidence: real("engine_confidence").notNull().default(0),
+  enrichedAt: timestamp("enriched_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_steam_app_index_release").on(table.releaseDate),
+  index("IDX_steam_app_index_reviews").on(table.totalReviews),
+  index("IDX_steam_app_index_genres").using("gin", table.genres),
+  index("IDX_steam_app_index_tags").using("gin", table.tags),
+]);
+
+export type SteamAppIndexEntry = typeof steamAppIndex.$inferSelect;
+export type InsertSteamAppIndexEntry = typeof steamAppIndex.$inferInsert;
+
+export const DISCOVER_SORTS = ["reviews", "players", "newest"] as const;
+
+const queryFlagSchema = z.enum(["true", "false"]).transform((value) => value === "true");
+
+// Discover filters, as query parameters; prices are in dollars
+export const steamDiscoverFiltersSchema = z.object({
+  genre: z.string().trim().min(1).optional(),
+  tag: z.string().trim().min(1).optional(),
+  releasedAfter: z.coerce.date().optional(),
+  releasedBefore: z.coerce.date().optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  minReviews: z.coerce.number().int().min(0).optional(),
+  minPlayers: z.coerce.number().int().min(0).optional(),
+  engine: z.enum(LEAD_ENGINES).optional(),
+  hasWebsite: queryFlagSchema.optional(),
+  sort: z.enum(DISCOVER_SORTS).default("reviews"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type SteamDiscoverFilters = z.infer<typeof steamDiscoverFiltersSchema>;
+
+// Every Steam app we know the name of, from an app-list import or any fetch.
+// Type and the detail columns stay empty until the app's details are fetched.
+export const steamAppCatalog = pgTable("steam_app_catalog", {
+  steamAppId: integer("steam_app_id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type"), // Steam's app type: game, dlc, demo, music, ...
+  developers: text("developers").array().notNull().default(sql`'{}'::text[]`),
+  publishers: text("publishers").array().notNull().default(sql`'{}'::text[]`),
+  genres: text("genres").array().notNull().default(sql`'{}'::text[]`),
+  releaseDate: timestamp("release_date"),
+  detailsFetchedAt: timestamp("details_fetched_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_steam_app_catalog_name_search").using("gin", sql`to_tsvector('simple', ${table.name})`),
+  // Substring (ILIKE) matches; needs pg_trgm, which script/db-extensions.ts installs
+  index("IDX_steam_app_catalog_name_trgm").using("gin", table.name.op("gin_trgm_ops")),
+]);
+
+export type SteamCatalogApp = typeof steamAppCatalog.$inferSelect;
+export type InsertSteamCatalogApp = typeof steamAppCatalog.$inferInsert;
+
+export const steamCatalogSearchSchema = z.object({
+  term: z.string().trim().min(1, "Search term required"),
+  type: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type SteamCatalogSearch = z.infer<typeof steamCatalogSearchSchema>;
+
+// Steam apps an organization follows on the dashboard. The collector
+// snapshots them alongside lead apps.
+export const trackedApps = pgTable("tracked_apps", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  steamAppId: integer("steam_app_id").notNull(),
+  addedById: varchar("added_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_tracked_apps_org_app").on(table.orgId, table.steamAppId)]);
+
+export const insertTrackedAppSchema = z.object({
+  steamAppId: z.coerce.number({ invalid_type_error: "Enter a Steam app ID" }).int().positive("Enter a Steam app ID"),
+});
+
+export type TrackedApp = typeof trackedApps.$inferSelect;
+
+// "tracked" is the organization's own list, fetched live; the rest are
+// ranked from snapshots and the Discover index
+export const TOP_GAME_CATEGORIES = ["tracked", "most-played", "fastest-growing", "new-releases"] as const;
+export type TopGameCategory = typeof TOP_GAME_CATEGORIES[number];
+
+export const topGamesQuerySchema = z.object({
+  category: z.enum(TOP_GAME_CATEGORIES).default("tracked"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type TopGamesQuery = z.infer<typeof topGamesQuerySchema>;
+
+// A user's own lists of Steam apps to keep an eye on, apart from any pipeline
+export const watchlists = pgTable("watchlists", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_watchlists_user").on(table.userId)]);
+
+export const watchlistItems = pgTable("watchlist_items", {
+  id: serial("id").primaryKey(),
+  watchlistId: integer("watchlist_id").notNull().references(() => watchlists.id, { onDelete: "cascade" }),
+  steamAppId: integer("steam_app_id").notNull(),
+  playerCountAtAdd: integer("player_count_at_add"), // baseline for "change since added"
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_watchlist_items_watchlist_app").on(table.watchlistId, table.steamAppId)]);
+
+export const insertWatchlistSchema = createInsertSchema(watchlists, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(60),
+}).omit({ id: true, userId: true, createdAt: true });
+
+export const insertWatchlistItemSchema = z.object({
+  steamAppId: z.coerce.number({ invalid_type_error: "Enter a Steam app ID" }).int().positive("Enter a Steam app ID"),
+});
+
+export type Watchlist = typeof watchlists.$inferSelect;
+export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+export type WatchlistItem = typeof watchlistItems.$inferSelect;
+
+// An item with the app's latest collected figures from the Discover index
+export type WatchlistItemWithApp = WatchlistItem & {
+  name: string | null;
+  headerImage: string | null;
+  playerCount: number | null;
+  playerCountUpdatedAt: Date | null;
+};
+
+export type WatchlistWithItems = Watchlist & { items: WatchlistItemWithApp[] };
+
+// Alert rules watch collected snapshots. "app" watches one Steam app, "leads"
+// every app in the organization's pipeline, "watchlists" every app on the
+// rule creator's watchlists.
+export const ALERT_SCOPES = ["app", "leads", "watchlists"] as const;
+export const ALERT_METRICS = ["player_count", "review_count", "release_date", "price"] as const;
+export const ALERT_COMPARATORS = ["above", "below", "increase_pct", "decrease_pct", "changed"] as const;
+
+export type AlertScope = typeof ALERT_SCOPES[number];
+export type AlertMetric = typeof ALERT_METRICS[number];
+export type AlertComparator = typeof ALERT_COMPARATORS[number];
+
+// Release dates are text, so they can only change; prices are in dollars
+export const ALERT_METRIC_COMPARATORS: Record<AlertMetric, readonly AlertComparator[]> = {
+  player_count: ["above", "below", "increase_pct", "decrease_pct"],
+  review_count: ["above", "below", "increase_pct", "decrease_pct"],
+  release_date: ["changed"],
+  price: ["changed", "above", "below"],
+};
+
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  scope: text("scope").notNull(), // one of ALERT_SCOPES
+  steamAppId: integer("steam_app_id"), // for the "app" scope
+  metric: text("metric").notNull(), // one of ALERT_METRICS
+  comparator: text("comparator").notNull(), // one of ALERT_COMPARATORS
+  threshold: real("threshold"), // a count, a price in dollars or a percentage; unused for "changed"
+  windowDays: integer("window_days").notNull().default(7), // for increase_pct/decrease_pct
+  webhookUrl: text("webhook_url"),
+  enabled: boolean("enabled").notNull().default(true),
+  lastEvaluatedAt: timestamp("last_evaluated_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_alert_rules_org").on(table.orgId)]);
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(80),
+  scope: z.enum(ALERT_SCOPES),
+  steamAppId: z.coerce.number().int().positive().nullish(),
+  metric: z.enum(ALERT_METRICS),
+  comparator: z.enum(ALERT_COMPARATORS),
+  threshold: z.coerce.number().min(0).nullish(),
+  windowDays: z.coerce.number().int().min(1).max(90).default(7),
+  webhookUrl: z.string().trim().url("Webhook must be a URL").regex(/^https?:\/\//, "Webhook must be http(s)")
+    .refine((url) => {
+      try {
+        return !isInternalHost(new URL(url).hostname);
+      } catch {
+        return true; // Left to the url() check
+      }
+    }, "Webhook can't point at a local or private address")
+    .nullish().or(z.literal("").transform(() => null)),
+}).omit({ id: true, orgId: true, createdById: true, enabled: true, lastEvaluatedAt: true, createdAt: true })
+  .superRefine((rule, ctx) => {
+    if (!ALERT_METRIC_COMPARATORS[rule.metric].includes(rule.comparator)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${rule.comparator}" doesn't apply to ${rule.metric}`, path: ["comparator"] });
+    }
+    if (rule.comparator !== "changed" && (rule.threshold === null || rule.threshold === undefined)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Threshold is required", path: ["threshold"] });
+    }
+    if (rule.scope === "app" && !rule.steamAppId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Steam app ID is required", path: ["steamAppId"] });
+    }
+  });
+
+export const updateAlertRuleSchema = z.object({ enabled: z.boolean() });
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+
+export const alertEvents = pgTable("alert_events", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  orgId: integer("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  steamAppId: integer("steam_app_id").notNull(),
+  message: text("message").notNull(),
+  value: text("value"),
+  previousValue: text("previous_value"),
+  webhookStatus: integer("webhook_status"), // HTTP status, 0 when the webhook couldn't be reached
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_alert_events_org_created").on(table.orgId, table.createdAt),
+  index("IDX_alert_events_rule_app").on(table.ruleId, table.steamAppId),
+]);
+
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type InsertAlertEvent = typeof alertEvents.$inferInsert;
+export type AlertEventWithRule = AlertEvent & { ruleName: string };
+
+// How many recent alerts the feed returns
+export const ALERT_FEED_LIMIT = 50;
+
 // Steam API Types
 export interface SteamAppSearchResult {
   appid: number;
   name: string;
   logo: string;
   icon: string;
+  type?: string | null;
+}
+
+export interface SteamAppSearchPage {
+  results: SteamAppSearchResult[];
+  total: number;
+  page: number;
+  limit: number;
 }
 
 export interface SteamAppDetails {
@@ -42,17 +634,64 @@ export interface SteamAppDetails {
   name: string;
   short_description: string;
   header_image: string;
-  website: string;
+  website: string | null;
   developers: string[];
   publishers: string[];
   price_overview?: {
+    currency?: string;
+    final?: number;
     final_formatted: string;
   };
   genres?: { description: string }[];
   release_date?: { date: string };
+  reviews?: SteamUserReviews;
   metrics?: {
     player_count?: number;
-    review_score?: number; // 0-10 (proxy)
+    review_score?: number; // % positive Steam user reviews
     total_reviews?: number;
   }
 }
+
+// Steam user review summary (appreviews query_summary)
+export interface SteamUserReviews {
+  positive: number;
+  negative: number;
+  total: number;
+  positivePercent: number; // 0-100
+  scoreDesc: string; // e.g. "Very Positive", "Mixed"
+}
+
+// In-app notifications for one user. orgId ties them to the organization
+// they came from, so the drawer only lists the active organization's.
+export const NOTIFICATION_TYPES = ["assignment", "alert", "task_due", "import"] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  orgId: integer("org_id").references(() => organizations.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // one of NOTIFICATION_TYPES
+  title: text("title").notNull(),
+  body: text("body"),
+  link: text("link"), // client path to open, e.g. /leads/12
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_notifications_user_created").on(table.userId, table.createdAt)]);
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+export interface NotificationFeed {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+// How many recent notifications the drawer lists
+export const NOTIFICATION_FEED_LIMIT = 50;
+
+// Pushed to open tabs over the live updates stream so they refetch what changed.
+// The SSE event name is the type.
+export type LiveEvent =
+  | { type: "leads"; orgId: number }
+  | { type: "notifications"; userId: string }
+  | { type: "snapshots"; steamAppIds: number[] };